@@ -5,7 +5,6 @@ const path = require('path');
 
 // Configuration
 const sqliteIndexDBPath = path.join(__dirname, 'database.db');
-const sqliteReturnsDBPath = path.join(__dirname, 'final.db');
 const pgConnectionString = process.env.DATABASE_URL || 'postgres://localhost:5432/index_comparison';
 
 // PostgreSQL connection
@@ -14,9 +13,8 @@ const pool = new Pool({
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
 });
 
-// Open SQLite databases
+// Open SQLite database
 const indexDB = new sqlite3.Database(sqliteIndexDBPath, sqlite3.OPEN_READONLY);
-const returnsDB = new sqlite3.Database(sqliteReturnsDBPath, sqlite3.OPEN_READONLY);
 
 async function createPostgresTables() {
   const client = await pool.connect();
@@ -29,13 +27,6 @@ async function createPostgresTables() {
       );
     `);
     
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS returns (
-        "From" TEXT,
-        PRIMARY KEY ("From")
-      );
-    `);
-    
     console.log('PostgreSQL tables created successfully');
   } catch (err) {
     console.error('Error creating PostgreSQL tables:', err);
@@ -107,69 +98,6 @@ async function migrateIndexData() {
   });
 }
 
-async function migrateReturnsData() {
-  return new Promise((resolve, reject) => {
-    // Get column info from SQLite
-    returnsDB.all("PRAGMA table_info(returns)", async (err, columns) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      
-      const client = await pool.connect();
-      try {
-        // Add columns to PostgreSQL table
-        for (const col of columns) {
-          if (col.name !== 'From') { // From column already exists
-            try {
-              await client.query(`
-                ALTER TABLE returns ADD COLUMN IF NOT EXISTS "${col.name}" TEXT;
-              `);
-            } catch (err) {
-              console.error(`Error adding column ${col.name}:`, err);
-            }
-          }
-        }
-        
-        // Get data from SQLite
-        returnsDB.all("SELECT * FROM returns", async (err, rows) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          
-          console.log(`Migrating ${rows.length} rows from returns database...`);
-          
-          // Insert data into PostgreSQL
-          for (const row of rows) {
-            const columnNames = Object.keys(row);
-            const placeholders = columnNames.map((_, i) => `$${i + 1}`).join(', ');
-            const values = columnNames.map(col => row[col]);
-            
-            try {
-              await client.query(`
-                INSERT INTO returns (${columnNames.map(col => `"${col}"`).join(', ')})
-                VALUES (${placeholders})
-                ON CONFLICT ("From") DO UPDATE SET
-                ${columnNames.filter(col => col !== 'From').map((col, i) => `"${col}" = $${i + 2}`).join(', ')}
-              `, values);
-            } catch (err) {
-              console.error(`Error inserting row with From ${row.From}:`, err);
-            }
-          }
-          
-          console.log('Returns data migration completed');
-          resolve();
-        });
-      } catch (err) {
-        reject(err);
-      } finally {
-        client.release();
-      }
-    });
-  });
-}
-
 async function migrate() {
   try {
     console.log('Starting migration from SQLite to PostgreSQL...');
@@ -179,7 +107,6 @@ async function migrate() {
     
     // Migrate data
     await migrateIndexData();
-    await migrateReturnsData();
     
     console.log('Migration completed successfully');
   } catch (err) {
@@ -187,7 +114,6 @@ async function migrate() {
   } finally {
     // Close connections
     indexDB.close();
-    returnsDB.close();
     await pool.end();
   }
 }
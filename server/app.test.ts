@@ -0,0 +1,392 @@
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import type { Express } from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeIndex } from './db/catalogue';
+import { SqliteRepository } from './db/sqlite';
+import { addDays, marketToday, toIsoDate } from '../src/shared/dates';
+import {
+  ChartResponseSchema,
+  ComparisonDataSchema,
+  CorrelationMatrixSchema,
+  DataQualityReportSchema,
+  HistoricalResponseSchema,
+  InceptionDateResponseSchema,
+  InceptionDatesResponseSchema,
+  IndexCatalogueResponseSchema,
+  IndicesResponseSchema,
+  IngestReportSchema,
+  MarketIndicesResponseSchema,
+  MarketNewsResponseSchema,
+  PeriodsResponseSchema,
+  QuoteCacheMetricsSchema,
+  ReturnsByPeriodResponseSchema,
+  ReturnsResponseSchema,
+  RiskFreeRateInfoSchema,
+  RollingCorrelationSchema,
+  RollingReturnsResponseSchema,
+  type MarketTick
+} from '../src/shared/api';
+
+const ADMIN_TOKEN = 'test-token';
+const FIRST_DATE = '2018-01-01';
+
+let dir: string;
+let filename: string;
+let app: Express;
+
+// Weekday closes from a date up to today, rising slowly with a wobble
+function seedPrices(offset: number, from: string) {
+  const prices = [];
+  const today = toIsoDate(marketToday());
+  for (let date = new Date(`${from}T00:00:00Z`), i = 0; toIsoDate(date) <= today; date = addDays(date, 1), i++) {
+    if (date.getUTCDay() === 0 || date.getUTCDay() === 6) continue;
+    const close = Math.round((1000 + offset + i * 0.5 + Math.sin(i / 7) * 20) * 100) / 100;
+    prices.push({ date: toIsoDate(date), close, open: null, high: null, low: null, volume: null });
+  }
+  return prices;
+}
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circle-wealth-'));
+  filename = path.join(dir, 'test.db');
+  fs.writeFileSync(filename, '');
+
+  const repository = new SqliteRepository(filename);
+  await repository.ensureSchema();
+  await repository.addIndex(describeIndex('NIFTY 50'));
+  await repository.addIndex(describeIndex('NIFTY IT'));
+  await repository.upsertPrices('NIFTY 50', seedPrices(0, FIRST_DATE));
+  await repository.upsertPrices('NIFTY IT', seedPrices(500, '2019-01-01'));
+  await repository.close();
+
+  const quoteFile = path.join(dir, 'quotes.json');
+  const today = toIsoDate(marketToday());
+  fs.writeFileSync(quoteFile, JSON.stringify({
+    closes: { '^NSEI': [{ date: '2024-01-05', close: 21710.8 }, { date: today, close: 25000 }] }
+  }));
+
+  const replayFile = path.join(dir, 'replay.json');
+  fs.writeFileSync(replayFile, JSON.stringify({
+    frames: [
+      [{ index: 'NIFTY 50', symbol: '^NSEI', price: 21710.8, changePercent: 0.4 }],
+      [{ index: 'NIFTY 50', symbol: '^NSEI', price: 21725.1, changePercent: 0.47 }]
+    ]
+  }));
+
+  Object.assign(process.env, {
+    SQLITE_PATH: filename,
+    QUOTE_PROVIDER: 'file',
+    QUOTE_FILE: quoteFile,
+    QUOTE_STREAM: 'replay',
+    QUOTE_REPLAY_FILE: replayFile,
+    QUOTE_STREAM_INTERVAL_SECONDS: '1',
+    ADMIN_TOKEN,
+    RISK_FREE_RATE_SOURCE: 'constant',
+    EOD_UPDATES: 'off',
+    TICK_RECORDING: 'off'
+  });
+  ({ app } = await import('./app'));
+});
+
+afterAll(async () => {
+  const { repository } = await import('./app');
+  await repository.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('index routes', () => {
+  it('lists the catalogue and the index names', async () => {
+    const catalogue = IndexCatalogueResponseSchema.parse((await request(app).get('/api/indices').expect(200)).body);
+    expect(catalogue.indices.map(info => info.name).sort()).toEqual(['NIFTY 50', 'NIFTY IT']);
+    expect(catalogue.indices.find(info => info.name === 'NIFTY 50')?.symbol).toBe('^NSEI');
+
+    const names = IndicesResponseSchema.parse((await request(app).get('/api/allindices').expect(200)).body);
+    expect(names.indices.sort()).toEqual(['NIFTY 50', 'NIFTY IT']);
+  });
+
+  it('returns the historical closes of an index', async () => {
+    const { historicalData } = HistoricalResponseSchema.parse((await request(app).get('/api/historical/NIFTY%20IT').expect(200)).body);
+    expect(historicalData.slice(0, 3).map(point => point.date)).toEqual(['2019-01-01', '2019-01-02', '2019-01-03']);
+  });
+
+  it('returns the historical closes of an index within a date range', async () => {
+    const res = await request(app)
+      .get('/api/historical/NIFTY%2050')
+      .query({ fromDate: '2018-01-01', toDate: '2018-01-07' })
+      .expect(200);
+    const { historicalData } = HistoricalResponseSchema.parse(res.body);
+    expect(historicalData.map(point => point.date)).toEqual([
+      '2018-01-01', '2018-01-02', '2018-01-03', '2018-01-04', '2018-01-05'
+    ]);
+  });
+
+  it('rejects invalid dates', async () => {
+    const res = await request(app).get('/api/historical/NIFTY%2050').query({ fromDate: '2018-13-01' }).expect(400);
+    expect(res.body.error).toBeTruthy();
+  });
+
+  it('finds inception dates', async () => {
+    const one = InceptionDateResponseSchema.parse((await request(app).get('/api/inception-date/NIFTY%20IT').expect(200)).body);
+    expect(one.inceptionDate).toBe('2019-01-01');
+
+    const all = InceptionDatesResponseSchema.parse((await request(app).get('/api/inception-dates').expect(200)).body);
+    expect(all.inceptionDates).toEqual({ 'NIFTY 50': FIRST_DATE, 'NIFTY IT': '2019-01-01' });
+  });
+
+  it('answers 404 for an unknown index', async () => {
+    const res = await request(app).get('/api/historical/NIFTY%20AUTO').expect(404);
+    expect(res.body).toEqual({ error: 'Unknown index: NIFTY AUTO', code: 'UNKNOWN_INDEX', unknownIndices: ['NIFTY AUTO'] });
+  });
+
+  it('reports the data quality of each index', async () => {
+    const res = await request(app).get('/api/data-quality').query({ indices: 'NIFTY 50' }).expect(200);
+    const report = DataQualityReportSchema.parse(res.body);
+    expect(report.indices.map(index => index.index)).toEqual(['NIFTY 50']);
+  });
+});
+
+describe('return routes', () => {
+  it('lists the standard periods', async () => {
+    const { periods } = PeriodsResponseSchema.parse((await request(app).get('/api/periods').expect(200)).body);
+    expect(periods).toContain('1Y');
+  });
+
+  it('returns the latest rolling returns of an index', async () => {
+    const res = await request(app).get('/api/returns/NIFTY%2050').query({ windows: '1Y,10Y' }).expect(200);
+    const { returns } = ReturnsResponseSchema.parse(res.body);
+    expect(returns['1Y']).toEqual(expect.any(Number));
+    expect(returns['10Y']).toBeNull();
+  });
+
+  it('rejects invalid windows and periods', async () => {
+    await request(app).get('/api/returns/NIFTY%2050').query({ windows: 'forever' }).expect(400);
+    await request(app).get('/api/returns-by-period/forever').expect(400);
+  });
+
+  it('returns the latest returns of every index for a period', async () => {
+    const res = await request(app).get('/api/returns-by-period/1Y').expect(200);
+    const { returns } = ReturnsByPeriodResponseSchema.parse(res.body);
+    expect(Object.keys(returns).sort()).toEqual(['NIFTY 50', 'NIFTY IT']);
+  });
+
+  it('returns the rolling returns of every index for each period', async () => {
+    const res = await request(app).get('/api/rolling-returns').expect(200);
+    const { rollingReturnsData } = RollingReturnsResponseSchema.parse(res.body);
+    expect(rollingReturnsData.length).toBeGreaterThan(0);
+  });
+
+  it('compares rolling returns', async () => {
+    const res = await request(app)
+      .get('/api/compare-rolling-returns')
+      .query({ indices: 'NIFTY 50,NIFTY IT', windows: '1Y' })
+      .expect(200);
+    const { comparisonData } = ComparisonDataSchema.parse(res.body);
+    expect(Object.keys(comparisonData).length).toBeGreaterThan(0);
+  });
+
+  it('requires indices to compare', async () => {
+    const res = await request(app).get('/api/compare-rolling-returns').expect(400);
+    expect(res.body.error).toBe('Indices parameter is required');
+  });
+
+  it('rejects invalid comparison dates', async () => {
+    await request(app).get('/api/compare-rolling-returns').query({ indices: 'NIFTY 50', fromDate: 'not-a-date' }).expect(400);
+  });
+
+  it('serves the constant risk-free rate without a series', async () => {
+    const info = RiskFreeRateInfoSchema.parse((await request(app).get('/api/risk-free-rate').expect(200)).body);
+    expect(info.source).toBe('constant');
+    expect(info.rates).toEqual([]);
+  });
+});
+
+describe('correlation routes', () => {
+  it('builds a correlation matrix', async () => {
+    const res = await request(app).get('/api/correlation').query({ indices: 'NIFTY 50,NIFTY IT' }).expect(200);
+    const matrix = CorrelationMatrixSchema.parse(res.body);
+    expect(matrix.indices).toEqual(['NIFTY 50', 'NIFTY IT']);
+    expect(matrix.matrix[0][0]).toBeCloseTo(1);
+  });
+
+  it('builds a rolling correlation', async () => {
+    const res = await request(app)
+      .get('/api/rolling-correlation')
+      .query({ indexA: 'NIFTY 50', indexB: 'NIFTY IT', window: '1Y' })
+      .expect(200);
+    const correlation = RollingCorrelationSchema.parse(res.body);
+    expect(correlation.values.length).toBe(correlation.dates.length);
+    expect(correlation.values.length).toBeGreaterThan(0);
+  });
+});
+
+describe('market routes', () => {
+  it('serves the latest quotes of the dashboard indices', async () => {
+    const res = await request(app).get('/api/market-indices').expect(200);
+    const { indices } = MarketIndicesResponseSchema.parse(res.body);
+    // The quote file only has NIFTY 50
+    expect(indices.map(index => index.name)).toEqual(['NIFTY 50']);
+    expect(indices[0].changes.length).toBeGreaterThan(0);
+  });
+
+  it('streams replayed ticks as Server-Sent Events', async () => {
+    const server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    // Reads events until the replay's two frames have arrived
+    let contentType: string | undefined;
+    const events = await new Promise<{ event: string; data: unknown }[]>((resolve, reject) => {
+      const req = http.get(`http://localhost:${port}/api/market-stream`, res => {
+        contentType = res.headers['content-type'];
+        let buffer = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          const parsed = buffer.split('\n\n').flatMap(block => {
+            const event = /^event: (.*)$/m.exec(block);
+            const data = /^data: (.*)$/m.exec(block);
+            return event && data ? [{ event: event[1], data: JSON.parse(data[1]) }] : [];
+          });
+          if (parsed.filter(({ event }) => event === 'tick').length >= 2) {
+            req.destroy();
+            resolve(parsed);
+          }
+        });
+      });
+      req.on('error', reject);
+    }).finally(() => server.close());
+
+    expect(contentType).toBe('text/event-stream');
+    expect(events[0]).toEqual({ event: 'snapshot', data: { open: true, ticks: [] } });
+    expect(events.slice(1).map(({ event, data }) => [event, (data as MarketTick).price])).toEqual([
+      ['tick', 21710.8],
+      ['tick', 21725.1]
+    ]);
+  });
+
+  it('counts quote cache hits and misses', async () => {
+    const metrics = QuoteCacheMetricsSchema.parse((await request(app).get('/api/quote-cache').expect(200)).body);
+    expect(metrics.provider).toBe('file');
+  });
+
+  it('charts stored closes by stored or dashboard name', async () => {
+    const res = await request(app).get('/api/chart/NIFTY%2050').query({ range: '1Y' }).expect(200);
+    const chart = ChartResponseSchema.parse(res.body);
+    expect(chart.index).toBe('NIFTY 50');
+    expect(chart.bars.length).toBeGreaterThan(0);
+
+    await request(app).get('/api/chart/NIFTY%20AUTO').expect(404);
+    await request(app).get('/api/chart/NIFTY%2050').query({ range: '2W' }).expect(400);
+  });
+
+  it('limits the market news', async () => {
+    const res = await request(app).get('/api/market-news').query({ limit: 5 }).expect(200);
+    expect(MarketNewsResponseSchema.parse(res.body).news).toHaveLength(5);
+
+    await request(app).get('/api/market-news').query({ limit: 500 }).expect(400);
+  });
+});
+
+describe('malicious index names', () => {
+  const names = [
+    "NIFTY 50'; DROP TABLE index_prices; --",
+    'NIFTY 50" OR "1"="1',
+    "' OR '1'='1",
+    '../../package.json',
+    '..%2F..%2Fpackage.json',
+    'NIFTY%2050'
+  ];
+
+  // Each route answers 404 naming the unknown index, whatever the name holds
+  async function expectUnknown(url: string, query: Record<string, string>, name: string) {
+    const res = await request(app).get(url).query(query).expect(404);
+    expect(res.body).toEqual({ error: `Unknown index: ${name}`, code: 'UNKNOWN_INDEX', unknownIndices: [name] });
+  }
+
+  it.each(names)('answers 404 for %s in the path', async name => {
+    for (const route of ['historical', 'returns', 'chart', 'inception-date']) {
+      await expectUnknown(`/api/${route}/${encodeURIComponent(name)}`, {}, name);
+    }
+  });
+
+  it.each(names)('answers 404 for %s in the query', async name => {
+    await expectUnknown('/api/compare-rolling-returns', { indices: `NIFTY 50,${name}` }, name);
+    await expectUnknown('/api/correlation', { indices: `NIFTY 50,${name}` }, name);
+    await expectUnknown('/api/rolling-correlation', { indexA: 'NIFTY 50', indexB: name }, name);
+    await expectUnknown('/api/data-quality', { indices: name }, name);
+  });
+
+  it('names every unknown index', async () => {
+    const res = await request(app).get('/api/correlation').query({ indices: 'NIFTY AUTO,NIFTY 50,NIFTY FMCG' }).expect(404);
+    expect(res.body).toEqual({
+      error: 'Unknown indices: NIFTY AUTO, NIFTY FMCG',
+      code: 'UNKNOWN_INDEX',
+      unknownIndices: ['NIFTY AUTO', 'NIFTY FMCG']
+    });
+  });
+
+  it('does not resolve encoded slashes in the path', async () => {
+    const res = await request(app).get('/api/historical/..%2F..%2Fpackage.json').expect(404);
+    expect(res.body.unknownIndices).toEqual(['../../package.json']);
+  });
+
+  it('binds names as parameters and leaves the tables intact', async () => {
+    const repository = new SqliteRepository(filename);
+    try {
+      for (const name of names) {
+        expect(await repository.loadIndexPrices(name)).toEqual([]);
+      }
+      expect((await repository.listIndices()).sort()).toEqual(['NIFTY 50', 'NIFTY IT']);
+      expect((await repository.loadIndexPrices('NIFTY 50')).length).toBeGreaterThan(0);
+    } finally {
+      await repository.close();
+    }
+  });
+});
+
+describe('admin routes', () => {
+  const csv = 'Date,Close\n2018-01-01,999\n';
+
+  it('requires the admin token', async () => {
+    await request(app).post('/api/admin/ingest').send(csv).expect(401);
+    await request(app).post('/api/admin/ingest').set('Authorization', 'Bearer wrong-token').send(csv).expect(401);
+  });
+
+  it('reports an ingest without applying it on a dry run', async () => {
+    const res = await request(app)
+      .post('/api/admin/ingest')
+      .query({ index: 'NIFTY 50', dryRun: 'true' })
+      .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+      .set('Content-Type', 'text/csv')
+      .send(csv)
+      .expect(200);
+    const report = IngestReportSchema.parse(res.body);
+    expect(report.dryRun).toBe(true);
+    expect(report.indices.map(index => index.index)).toEqual(['NIFTY 50']);
+
+    const history = await request(app).get('/api/historical/NIFTY%2050').query({ toDate: FIRST_DATE }).expect(200);
+    expect(history.body.historicalData[0].value).not.toBe(999);
+  });
+
+  it('rejects an empty body', async () => {
+    await request(app)
+      .post('/api/admin/ingest')
+      .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+      .expect(400);
+  });
+
+  it('answers 422 for a file that looks like XLSX but is not a workbook', async () => {
+    const res = await request(app)
+      .post('/api/admin/ingest')
+      .query({ index: 'NIFTY 50', dryRun: 'true' })
+      .set('Authorization', `Bearer ${ADMIN_TOKEN}`)
+      .set('Content-Type', 'application/octet-stream')
+      .send(Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('not a workbook')]))
+      .expect(422);
+    expect(res.body.error).toBe('The file is not a readable XLSX workbook');
+  });
+});
@@ -0,0 +1,1029 @@
+import express, { type Request, type Response } from 'express';
+import cors from 'cors';
+import crypto from 'crypto';
+import path from 'path';
+import { z } from 'zod';
+import {
+  DEFAULT_WINDOWS,
+  buildPriceTable,
+  computeRollingReturns,
+  latestReturns,
+  parseWindow,
+  type PriceTable,
+  type RollingRange,
+  type RollingWindow
+} from './rollingReturns';
+import { computeCorrelationMatrix, computeRollingCorrelation } from './correlation';
+import { loadChart } from './chart';
+import { scanIndex } from './dataQuality';
+import { computePeriodChanges, type PeriodChange } from './periodChanges';
+import { marketDateOf, parseIsoDate, parseMarketDate, toIsoDate } from '../src/shared/dates';
+import { createRepository } from './db';
+import { scheduleEodUpdates } from './eod/scheduler';
+import { storedNamesBySymbol, syncCatalogue } from './db/catalogue';
+import { migrateWideSheet } from './db/migrate';
+import { IngestError, ingestPrices } from './ingestion/ingest';
+import { QuoteCache, QuoteStream, createQuoteProvider, createTickSource, type Tick } from './quotes';
+import { recordTicks } from './quotes/recorder';
+import {
+  ChartQuerySchema,
+  ChartResponseSchema,
+  ComparisonDataSchema,
+  CompareRollingReturnsQuerySchema,
+  CorrelationMatrixSchema,
+  CorrelationQuerySchema,
+  DataQualityQuerySchema,
+  DataQualityReportSchema,
+  HistoricalQuerySchema,
+  HistoricalResponseSchema,
+  InceptionDateResponseSchema,
+  InceptionDatesResponseSchema,
+  IndexCatalogueResponseSchema,
+  IndicesResponseSchema,
+  IngestQuerySchema,
+  IngestReportSchema,
+  MarketIndicesResponseSchema,
+  MarketNewsQuerySchema,
+  MarketNewsResponseSchema,
+  MarketSnapshotEventSchema,
+  MarketStatusEventSchema,
+  MarketTickSchema,
+  PeriodsResponseSchema,
+  QuoteCacheMetricsSchema,
+  ReturnsByPeriodResponseSchema,
+  ReturnsResponseSchema,
+  RiskFreeRateInfoSchema,
+  RollingCorrelationQuerySchema,
+  RollingCorrelationSchema,
+  RollingReturnsResponseSchema,
+  WindowsQuerySchema,
+  type ComparisonDataPoint,
+  type ErrorResponse,
+  type MarketIndex,
+  type MarketTick,
+  type NewsItem,
+  type RiskFreeRateInfo,
+  type RollingReturnPeriod,
+  type UnknownIndexError
+} from '../src/shared/api';
+
+export const app = express();
+
+// Middleware
+app.use(cors());
+app.use(express.json());
+app.use(express.static(path.join(__dirname, '..', 'dist')));
+
+// Add security headers
+app.use((_req, res, next) => {
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('X-Frame-Options', 'DENY');
+  res.setHeader('X-XSS-Protection', '1; mode=block');
+  res.setHeader('Strict-Transport-Security', 'max-age=31536000; includeSubDomains');
+  next();
+});
+
+// Database connection: Postgres when DATABASE_URL is set, otherwise the local SQLite file
+export const repository = createRepository();
+
+// Test database connection, then create the price tables, fill them from Sheet1 on first run
+// and describe any indices that don't have a catalogue entry yet
+const databaseReady = repository.ping()
+  .then(async () => {
+    console.log(`Connected to ${repository.kind === 'postgres' ? 'PostgreSQL' : 'SQLite'} database`);
+    await repository.ensureSchema();
+    if ((await repository.listIndices()).length === 0) {
+      const migrated = await migrateWideSheet(repository);
+      if (migrated) {
+        console.log(`Migrated ${migrated.prices} prices for ${migrated.indices} indices from Sheet1`);
+      }
+    }
+
+    const described = await syncCatalogue(repository);
+    if (described > 0) {
+      console.log(`Added catalogue entries for ${described} indices`);
+    }
+  })
+  .catch(err => {
+    console.error('Error preparing database:', err);
+  });
+
+// Helper function to read the message of a caught error
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Helper function to send an error in the shape every route uses
+function sendError(res: Response, status: number, error: string) {
+  const body: ErrorResponse = { error };
+  res.status(status).json(body);
+}
+
+// Helper function to check requested indices against the index list. Index names only ever
+// reach SQL as bound parameters; anything not on the list gets a 404 naming the unknown indices
+function requireKnownIndices(res: Response, requested: string[], available: string[]): boolean {
+  const unknownIndices = requested.filter(index => !available.includes(index));
+  if (unknownIndices.length === 0) return true;
+
+  const body: UnknownIndexError = {
+    error: unknownIndices.length === 1
+      ? `Unknown index: ${unknownIndices[0]}`
+      : `Unknown indices: ${unknownIndices.join(', ')}`,
+    code: 'UNKNOWN_INDEX',
+    unknownIndices
+  };
+  res.status(404).json(body);
+  return false;
+}
+
+// Helper function to send a response after checking it against the shared API contract
+function sendJson<T>(res: Response, schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: T) {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    console.error(`Response for ${res.req.originalUrl} does not match the API contract:`, result.error.issues);
+    return sendError(res, 500, 'Response does not match the API contract');
+  }
+  res.json(result.data);
+}
+
+// Helper function to write a Server-Sent Event, skipping it if it doesn't match the contract
+function sendEvent<T>(res: Response, event: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: T) {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    console.error(`${event} event for ${res.req.originalUrl} does not match the API contract:`, result.error.issues);
+    return;
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(result.data)}\n\n`);
+}
+
+// Helper function to validate query parameters, answering 400 when they don't match the contract
+function parseQuery<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, req: Request, res: Response): T | null {
+  const result = schema.safeParse(req.query);
+  if (!result.success) {
+    sendError(res, 400, result.error.issues[0]?.message || 'Invalid query parameters');
+    return null;
+  }
+  return result.data;
+}
+
+interface PriceTableCache {
+  indices: string[];
+  table: PriceTable;
+  loadedAt: number;
+}
+
+// Price table cache so rolling returns don't reload index_prices on every request
+const PRICE_TABLE_TTL_MS = 5 * 60 * 1000;
+let priceTableCache: PriceTableCache | null = null;
+
+// Helper function to load all index prices, refreshed every few minutes so new history is picked up
+async function loadPriceTable(): Promise<PriceTableCache> {
+  if (priceTableCache && Date.now() - priceTableCache.loadedAt < PRICE_TABLE_TTL_MS) {
+    return priceTableCache;
+  }
+
+  await databaseReady;
+  const [indices, prices] = await Promise.all([repository.listIndices(), repository.loadPrices()]);
+  priceTableCache = {
+    indices,
+    table: buildPriceTable(prices, indices),
+    loadedAt: Date.now()
+  };
+  return priceTableCache;
+}
+
+// Helper function to parse a comma-separated list of windows, falling back to the standard periods
+function parseWindows(windowsParam?: string): { windows: RollingWindow[]; error?: undefined } | { error: string } {
+  const labels = windowsParam ? windowsParam.split(',') : DEFAULT_WINDOWS;
+  const windows: RollingWindow[] = [];
+
+  for (const label of labels) {
+    const window = parseWindow(label);
+    if (!window) {
+      return { error: `Invalid window: ${label.trim()}. Use years or months, e.g. 3Y or 18M` };
+    }
+    if (!windows.some(existing => existing.label === window.label)) {
+      windows.push(window);
+    }
+  }
+
+  return { windows };
+}
+
+// Helper function to parse optional fromDate/toDate query parameters
+function parseDateRange(query: { fromDate?: string; toDate?: string }): { range: RollingRange; error?: undefined } | { error: string } {
+  const range = {
+    fromDate: query.fromDate ? parseIsoDate(query.fromDate) : null,
+    toDate: query.toDate ? parseIsoDate(query.toDate) : null
+  };
+  if ((query.fromDate && !range.fromDate) || (query.toDate && !range.toDate)) {
+    return { error: 'Dates must be valid YYYY-MM-DD dates' };
+  }
+  return { range };
+}
+
+// Helper function to split a comma-separated list of indices
+function parseIndexList(indices: string): string[] {
+  return Array.from(new Set(indices.split(',').map(idx => idx.trim()).filter(Boolean)));
+}
+
+// Risk-free rate configuration. RISK_FREE_RATE is the constant annual rate (%) and
+// RISK_FREE_RATE_SOURCE chooses between 'constant', 'series' (the risk_free_rates table
+// loaded by npm run load-rates) or 'auto', which uses the series when it has data.
+const RISK_FREE_RATE = Number.isFinite(parseFloat(process.env.RISK_FREE_RATE || '')) ? parseFloat(process.env.RISK_FREE_RATE || '') : 4;
+const RISK_FREE_RATE_SOURCE = process.env.RISK_FREE_RATE_SOURCE || 'auto';
+const RISK_FREE_RATE_LABEL = process.env.RISK_FREE_RATE_LABEL || '';
+let riskFreeRateCache: { riskFreeRate: RiskFreeRateInfo; loadedAt: number } | null = null;
+
+// Helper function to load the risk-free rate, cached like the price table
+async function loadRiskFreeRate(): Promise<RiskFreeRateInfo> {
+  if (riskFreeRateCache && Date.now() - riskFreeRateCache.loadedAt < PRICE_TABLE_TTL_MS) {
+    return riskFreeRateCache.riskFreeRate;
+  }
+
+  let rates: RiskFreeRateInfo['rates'] = [];
+  if (RISK_FREE_RATE_SOURCE !== 'constant') {
+    // Without a risk_free_rates table, fall back to the constant
+    const rows = await repository.loadRiskFreeRates();
+    rates = (rows || []).flatMap(row => {
+      const date = parseMarketDate(row.date);
+      return date && Number.isFinite(row.rate) ? [{ date: toIsoDate(date), rate: row.rate }] : [];
+    });
+  }
+
+  const source = rates.length > 0 ? 'series' : 'constant';
+  const riskFreeRate: RiskFreeRateInfo = {
+    source,
+    label: RISK_FREE_RATE_LABEL || (source === 'series' ? 'Historical risk-free rate' : `Constant ${RISK_FREE_RATE}%`),
+    constantRate: RISK_FREE_RATE,
+    rates
+  };
+
+  riskFreeRateCache = { riskFreeRate, loadedAt: Date.now() };
+  return riskFreeRate;
+}
+
+// Define index symbols and their Yahoo Finance symbols
+const INDEX_SYMBOLS: Record<string, string> = {
+  'NIFTY 50': '^NSEI',
+  'BANK NIFTY': '^NSEBANK',
+  'NIFTY IT': '^CNXIT',
+  'NIFTY AUTO': '^CNXAUTO',
+  'NIFTY PHARMA': '^CNXPHARMA',
+  'NIFTY FMCG': '^CNXFMCG'
+};
+
+// Latest quotes come through a cache shared by every client's dashboard polls, so the
+// provider sees one request per symbol per TTL and a provider outage serves the last
+// good quotes instead of nothing
+const quoteProvider = createQuoteProvider();
+const quoteCache = new QuoteCache(quoteProvider, {
+  ttlMs: (parseInt(process.env.QUOTE_CACHE_TTL_SECONDS || '', 10) || 60) * 1000,
+  staleWhileRevalidateMs: (parseInt(process.env.QUOTE_CACHE_STALE_SECONDS || '', 10) || 600) * 1000
+});
+
+// Live ticks for dashboards with the market stream open, polled only while someone listens
+const quoteStream = new QuoteStream(
+  createTickSource(quoteCache, INDEX_SYMBOLS),
+  (parseInt(process.env.QUOTE_STREAM_INTERVAL_SECONDS || '', 10) || 15) * 1000
+);
+
+// API Endpoints
+
+// Get the catalogue of available indices
+app.get('/api/indices', async (_req, res) => {
+  try {
+    await databaseReady;
+    sendJson(res, IndexCatalogueResponseSchema, { indices: await repository.listCatalogue() });
+  } catch (err) {
+    console.error('Error fetching indices:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Index names only, for clients that predate the catalogue
+app.get('/api/allindices', async (_req, res) => {
+  try {
+    await databaseReady;
+    sendJson(res, IndicesResponseSchema, { indices: await repository.listIndices() });
+  } catch (err) {
+    console.error('Error fetching indices:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get historical data for a specific index
+app.get('/api/historical/:index', async (req, res) => {
+  const { index } = req.params;
+  const query = parseQuery(HistoricalQuerySchema, req, res);
+  if (!query) return;
+
+  const parsedRange = parseDateRange(query);
+  if (parsedRange.error !== undefined) {
+    return sendError(res, 400, parsedRange.error);
+  }
+  const { fromDate, toDate } = parsedRange.range;
+
+  try {
+    await databaseReady;
+    if (!requireKnownIndices(res, [index], await repository.listIndices())) return;
+
+    const prices = await repository.loadIndexPrices(index, {
+      from: fromDate && toIsoDate(fromDate),
+      to: toDate && toIsoDate(toDate)
+    });
+    const historicalData = prices.map(price => ({ date: price.date, value: price.close }));
+
+    sendJson(res, HistoricalResponseSchema, { historicalData });
+  } catch (err) {
+    console.error(`Error fetching historical data for ${index}:`, err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get the latest rolling returns for a specific index
+app.get('/api/returns/:index', async (req, res) => {
+  const index = req.params.index.trim();
+  const query = parseQuery(WindowsQuerySchema, req, res);
+  if (!query) return;
+
+  const parsed = parseWindows(query.windows);
+  if (parsed.error !== undefined) {
+    return sendError(res, 400, parsed.error);
+  }
+
+  try {
+    const { indices, table } = await loadPriceTable();
+    if (!requireKnownIndices(res, [index], indices)) return;
+
+    const returns: Record<string, number | null> = {};
+    parsed.windows.forEach(window => {
+      returns[window.label] = latestReturns(computeRollingReturns(table, [index], window))[index];
+    });
+
+    sendJson(res, ReturnsResponseSchema, { returns });
+  } catch (err) {
+    console.error(`Error calculating returns for ${index}:`, err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get the latest rolling returns of all indices for a specific period
+app.get('/api/returns-by-period/:period', async (req, res) => {
+  const window = parseWindow(req.params.period);
+  if (!window) {
+    return sendError(res, 400, `Invalid period: ${req.params.period}`);
+  }
+
+  try {
+    const { indices, table } = await loadPriceTable();
+    const latest = latestReturns(computeRollingReturns(table, indices, window));
+
+    // Leave out indices without enough history for this period
+    const returns: Record<string, number> = {};
+    Object.entries(latest).forEach(([index, value]) => {
+      if (value !== null) returns[index] = value;
+    });
+
+    sendJson(res, ReturnsByPeriodResponseSchema, { returns });
+  } catch (err) {
+    console.error(`Error calculating returns for period ${window.label}:`, err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get the risk-free rate used for Sharpe, Sortino and alpha calculations
+app.get('/api/risk-free-rate', async (_req, res) => {
+  try {
+    sendJson(res, RiskFreeRateInfoSchema, await loadRiskFreeRate());
+  } catch (err) {
+    console.error('Error loading risk-free rate:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get the standard rolling return periods
+app.get('/api/periods', (_req, res) => {
+  sendJson(res, PeriodsResponseSchema, { periods: DEFAULT_WINDOWS });
+});
+
+// Get the latest rolling returns of all indices for each standard period
+app.get('/api/rolling-returns', async (_req, res) => {
+  try {
+    const { indices, table } = await loadPriceTable();
+
+    const rollingReturnsData: RollingReturnPeriod[] = [];
+    DEFAULT_WINDOWS.forEach(label => {
+      const window = parseWindow(label);
+      if (!window) return;
+      const latest = latestReturns(computeRollingReturns(table, indices, window));
+
+      const returns: Record<string, string> = {};
+      Object.entries(latest).forEach(([index, value]) => {
+        if (value !== null) returns[index] = value.toString();
+      });
+
+      rollingReturnsData.push({ period: window.label, returns });
+    });
+
+    sendJson(res, RollingReturnsResponseSchema, { rollingReturnsData });
+  } catch (err) {
+    console.error('Error calculating rolling returns:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get rolling returns data for multiple indices with date range
+app.get('/api/compare-rolling-returns', async (req, res) => {
+  const query = parseQuery(CompareRollingReturnsQuerySchema, req, res);
+  if (!query) return;
+
+  const parsed = parseWindows(query.windows);
+  if (parsed.error !== undefined) {
+    return sendError(res, 400, parsed.error);
+  }
+
+  // Parse indices parameter (comma-separated list of indices)
+  const indexList = query.indices.split(',').map(idx => idx.trim()).filter(Boolean);
+
+  // Dates filter the start date of each window
+  const dateRange = parseDateRange(query);
+  if (dateRange.error !== undefined) {
+    return sendError(res, 400, dateRange.error);
+  }
+
+  try {
+    const { indices: availableIndices, table } = await loadPriceTable();
+
+    if (!requireKnownIndices(res, indexList, availableIndices)) return;
+
+    const comparisonData: Record<string, ComparisonDataPoint> = {};
+
+    parsed.windows.forEach(window => {
+      const series = computeRollingReturns(table, indexList, window, dateRange.range);
+      const periodData: ComparisonDataPoint = {
+        dates: series.fromDates.map(toIsoDate),
+        indices: { ...series.returns }
+      };
+
+      // Only calculate alpha if we have at least 2 indices, using the first index as benchmark
+      if (indexList.length >= 2) {
+        const benchmark = indexList[0];
+
+        indexList.slice(1).forEach(indexName => {
+          periodData.indices[`${indexName}_alpha_vs_${benchmark}`] =
+            series.returns[indexName].map((value, i) => {
+              const benchmarkValue = series.returns[benchmark][i];
+              return value === null || benchmarkValue === null ? null : value - benchmarkValue;
+            });
+        });
+      }
+
+      comparisonData[window.label] = periodData;
+    });
+
+    sendJson(res, ComparisonDataSchema, { comparisonData });
+  } catch (err) {
+    console.error('Error calculating rolling returns comparison:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get the correlation matrix of daily or monthly returns across indices
+app.get('/api/correlation', async (req, res) => {
+  const query = parseQuery(CorrelationQuerySchema, req, res);
+  if (!query) return;
+
+  const dateRange = parseDateRange(query);
+  if (dateRange.error !== undefined) {
+    return sendError(res, 400, dateRange.error);
+  }
+
+  const indexList = parseIndexList(query.indices);
+
+  try {
+    const { indices: availableIndices, table } = await loadPriceTable();
+
+    if (!requireKnownIndices(res, indexList, availableIndices)) return;
+
+    const result = computeCorrelationMatrix(table, indexList, query.frequency, dateRange.range);
+    sendJson(res, CorrelationMatrixSchema, {
+      ...result,
+      fromDate: result.fromDate ? toIsoDate(result.fromDate) : null,
+      toDate: result.toDate ? toIsoDate(result.toDate) : null
+    });
+  } catch (err) {
+    console.error('Error calculating correlation matrix:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get the rolling correlation between two indices over a trailing window
+app.get('/api/rolling-correlation', async (req, res) => {
+  const query = parseQuery(RollingCorrelationQuerySchema, req, res);
+  if (!query) return;
+
+  const window = parseWindow(query.window);
+  if (!window) {
+    return sendError(res, 400, `Invalid window: ${query.window}. Use years or months, e.g. 1Y or 6M`);
+  }
+
+  const dateRange = parseDateRange(query);
+  if (dateRange.error !== undefined) {
+    return sendError(res, 400, dateRange.error);
+  }
+
+  try {
+    const { indices: availableIndices, table } = await loadPriceTable();
+
+    if (!requireKnownIndices(res, [query.indexA, query.indexB], availableIndices)) return;
+
+    const result = computeRollingCorrelation(table, query.indexA, query.indexB, window, query.frequency, dateRange.range);
+    sendJson(res, RollingCorrelationSchema, {
+      ...result,
+      window: result.window.label,
+      dates: result.dates.map(toIsoDate)
+    });
+  } catch (err) {
+    console.error('Error calculating rolling correlation:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Scan index series for bad ticks, flat runs and missing stretches
+app.get('/api/data-quality', async (req, res) => {
+  const query = parseQuery(DataQualityQuerySchema, req, res);
+  if (!query) return;
+
+  try {
+    const { indices: availableIndices, table } = await loadPriceTable();
+    const indexList = query.indices ? parseIndexList(query.indices) : availableIndices;
+
+    if (!requireKnownIndices(res, indexList, availableIndices)) return;
+
+    const thresholds = { jumpPercent: query.jumpPercent, flatDays: query.flatDays, gapDays: query.gapDays };
+    sendJson(res, DataQualityReportSchema, {
+      thresholds,
+      indices: indexList.map(index => {
+        const quality = scanIndex(table, index, thresholds);
+        return {
+          ...quality,
+          fromDate: quality.fromDate ? toIsoDate(quality.fromDate) : null,
+          toDate: quality.toDate ? toIsoDate(quality.toDate) : null,
+          issues: quality.issues.map(issue => ({
+            ...issue,
+            fromDate: toIsoDate(issue.fromDate),
+            toDate: toIsoDate(issue.toDate)
+          }))
+        };
+      })
+    });
+  } catch (err) {
+    console.error('Error checking data quality:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Helper function to format a quote price the way the dashboard shows it
+function formatPrice(value: number | null): string {
+  return (value ?? 0).toLocaleString('en-IN', { maximumFractionDigits: 2 });
+}
+
+function formatChange(change: PeriodChange | undefined): string {
+  if (!change || change.change === null) return 'N/A';
+  return `${change.change >= 0 ? '+' : ''}${change.change.toFixed(2)}%`;
+}
+
+// Stored closes and index names by quote symbol, to measure period changes from;
+// without the database the quotes are still served, with no period changes
+async function loadQuoteHistory(): Promise<{ table: PriceTable; names: Map<string, string> }> {
+  try {
+    const [{ table }, catalogue] = await Promise.all([loadPriceTable(), repository.listCatalogue()]);
+    return { table, names: storedNamesBySymbol(catalogue) };
+  } catch (error) {
+    console.error('Error loading history for period changes:', errorMessage(error));
+    return { table: { dates: [], times: [], values: {} }, names: new Map() };
+  }
+}
+
+// Latest quotes of the dashboard indices, from the quote cache
+app.get('/api/market-indices', async (_req, res) => {
+  try {
+    const indices: MarketIndex[] = [];
+    const symbols = Object.values(INDEX_SYMBOLS);
+
+    // Fetch quotes for all indices
+    const history = await loadQuoteHistory();
+    const quotes = await Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          return await quoteCache.get(symbol);
+        } catch (error) {
+          console.error(`Error fetching data for ${symbol}:`, errorMessage(error));
+          return null;
+        }
+      })
+    );
+
+    // Process the results
+    Object.keys(INDEX_SYMBOLS).forEach((name, index) => {
+      const cached = quotes[index];
+
+      if (cached) {
+        const { quote } = cached;
+        const symbolShort = name.replace('NIFTY ', '');
+        const cleanSymbol = name === 'NIFTY 50' ? 'NIFTY' :
+                           name === 'BANK NIFTY' ? 'BANKNIFTY' :
+                           `NIFTY${symbolShort.replace(' ', '')}`;
+        const changePercent = quote.changePercent;
+        const changes = computePeriodChanges(
+          history.table,
+          history.names.get(symbols[index]) || name,
+          quote.price,
+          marketDateOf(quote.time)
+        );
+
+        indices.push({
+          name: name,
+          symbol: cleanSymbol,
+          value: formatPrice(quote.price),
+          allocation: getDefaultAllocation(index), // Sample allocation percentages
+          price: formatPrice(quote.price),
+          change: changePercent.toFixed(2) + '%',
+          details: {
+            prevClose: formatPrice(quote.previousClose),
+            open: formatPrice(quote.open),
+            dayHigh: formatPrice(quote.dayHigh),
+            dayLow: formatPrice(quote.dayLow),
+            yearlyHigh: formatPrice(quote.yearHigh),
+            yearlyLow: formatPrice(quote.yearLow),
+            weeklyChange: formatChange(changes.find(change => change.period === '1W')),
+            monthlyChange: formatChange(changes.find(change => change.period === '1M'))
+          },
+          changes: changes.map(change => ({
+            ...change,
+            referenceDate: change.referenceDate && toIsoDate(change.referenceDate)
+          })),
+          stale: cached.stale,
+          updatedAt: cached.fetchedAt.toISOString()
+        });
+      }
+    });
+
+    if (indices.length === 0) {
+      return sendJson(res, MarketIndicesResponseSchema, { indices, sentiment: null, stale: false });
+    }
+
+    // Calculate market sentiment based on performance
+    const avgChange = indices.reduce((sum, index) => {
+      return sum + parseFloat(index.change.replace('%', ''));
+    }, 0) / indices.length;
+
+    const sentiment = {
+      avgChange: avgChange.toFixed(2),
+      topPerformer: [...indices].sort((a, b) =>
+        parseFloat(b.change.replace('%', '')) - parseFloat(a.change.replace('%', ''))
+      )[0],
+      marketSentiment: avgChange > 1.5 ? 'Strongly Bullish' :
+                      avgChange > 0.5 ? 'Moderately Bullish' :
+                      avgChange > -0.5 ? 'Neutral' :
+                      avgChange > -1.5 ? 'Moderately Bearish' : 'Strongly Bearish',
+      sentimentLevel: avgChange > 1.5 ? 5 :
+                     avgChange > 0.5 ? 4 :
+                     avgChange > -0.5 ? 3 :
+                     avgChange > -1.5 ? 2 : 1,
+      recentTrend: avgChange >= 0 ? 'Upward' : 'Downward'
+    };
+
+    sendJson(res, MarketIndicesResponseSchema, { indices, sentiment, stale: indices.some(index => index.stale) });
+  } catch (error) {
+    console.error('Error fetching market indices:', error);
+    sendError(res, 500, 'Failed to fetch market indices');
+  }
+});
+
+function toMarketTick(tick: Tick): MarketTick {
+  return { ...tick, time: tick.time.toISOString() };
+}
+
+// Push index ticks and market open/closed changes as Server-Sent Events
+app.get('/api/market-stream', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = quoteStream.subscribe(event => {
+    if (event.type === 'snapshot') {
+      sendEvent(res, 'snapshot', MarketSnapshotEventSchema, { open: event.open, ticks: event.ticks.map(toMarketTick) });
+    } else if (event.type === 'status') {
+      sendEvent(res, 'status', MarketStatusEventSchema, { open: event.open });
+    } else {
+      sendEvent(res, 'tick', MarketTickSchema, toMarketTick(event.tick));
+    }
+  });
+
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Price bars of one index: intraday from recorded ticks for 1D and 5D, otherwise from
+// stored closes. The index is a stored name or a dashboard name such as BANK NIFTY.
+app.get('/api/chart/:index', async (req, res) => {
+  const query = parseQuery(ChartQuerySchema, req, res);
+  if (!query) return;
+  const { index } = req.params;
+
+  try {
+    const { indices } = await loadPriceTable();
+    const symbol = INDEX_SYMBOLS[index];
+    const stored = indices.includes(index) || !symbol
+      ? index
+      : storedNamesBySymbol(await repository.listCatalogue()).get(symbol) || index;
+    if (!requireKnownIndices(res, [stored], indices)) return;
+
+    const chart = await loadChart(repository, stored, query.range);
+    sendJson(res, ChartResponseSchema, { index: stored, ...chart });
+  } catch (err) {
+    console.error(`Error loading ${query.range} chart for ${index}:`, err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Hit, miss and failure counts of the quote cache
+app.get('/api/quote-cache', (_req, res) => {
+  sendJson(res, QuoteCacheMetricsSchema, quoteCache.metrics());
+});
+
+// Market News Endpoint
+app.get('/api/market-news', (req, res) => {
+  const query = parseQuery(MarketNewsQuerySchema, req, res);
+  if (!query) return;
+
+  try {
+    const { limit } = query;
+
+    // News headlines templates
+    const newsTemplates = [
+      {
+        title: "{{company}} reports {{change}} in quarterly profit",
+        category: "Earnings",
+        categoryColor: "blue",
+        link: "https://www.moneycontrol.com/news/business/earnings/",
+      },
+      {
+        title: "{{index}} {{movement}} by {{percent}}% as {{sector}} stocks {{direction}}",
+        category: "Markets",
+        categoryColor: "indigo",
+        link: "https://www.moneycontrol.com/news/business/markets/",
+      },
+      {
+        title: "RBI {{action}} key policy rates by {{bps}} bps, cites {{reason}}",
+        category: "Economy",
+        categoryColor: "green",
+        link: "https://www.moneycontrol.com/news/business/economy/",
+      },
+      {
+        title: "{{regulator}} issues new guidelines for {{sector}} companies",
+        category: "Regulation",
+        categoryColor: "purple",
+        link: "https://www.moneycontrol.com/news/business/markets/",
+      },
+      {
+        title: "{{company}} announces expansion into {{sector}}, shares {{movement}} by {{percent}}%",
+        category: "Corporate",
+        categoryColor: "red",
+        link: "https://www.moneycontrol.com/news/business/companies",
+      },
+      {
+        title: "{{country}} markets {{movement}} amid {{event}} concerns",
+        category: "Global",
+        categoryColor: "yellow",
+        link: "https://www.moneycontrol.com/news/business/markets/",
+      },
+      {
+        title: "Budget {{year}}: Government focuses on {{sector}} and {{sector2}} sectors",
+        category: "Budget",
+        categoryColor: "orange",
+        link: "https://www.moneycontrol.com/news/business/budget/",
+      },
+      {
+        title: "{{commodity}} prices {{movement}} as {{factor}} impacts global supply",
+        category: "Commodities",
+        categoryColor: "brown",
+        link: "https://www.moneycontrol.com/news/business/markets/commodities/",
+      }
+    ];
+
+    // Data for random generation
+    const companies = ["HDFC Bank", "Reliance Industries", "TCS", "Infosys", "ICICI Bank", "SBI", "Wipro", "Adani Enterprises", "Bajaj Finance", "Airtel", "ITC", "L&T", "HUL", "Axis Bank", "Kotak Bank"];
+    const indices = ["Sensex", "Nifty", "Bank Nifty", "IT Index", "Midcap Index", "Auto Index", "Pharma Index", "Metal Index"];
+    const movements = ["rises", "jumps", "surges", "climbs", "falls", "drops", "plunges", "declines", "recovers", "stabilizes"];
+    const directions = ["lead gains", "face selling pressure", "remain volatile", "attract buyers", "see profit booking"];
+    const percentages = ["0.5", "1.2", "2.3", "3.1", "1.7", "0.8", "2.5", "1.5", "0.75", "3.4", "4.2"];
+    const sectors = ["IT", "banking", "auto", "pharma", "FMCG", "energy", "metal", "real estate", "infrastructure", "telecom"];
+    const changes = ["surge", "jump", "decline", "drop", "marginal increase", "slight decrease", "record growth", "unexpected loss"];
+    const rbiActions = ["hikes", "cuts", "maintains", "reviews", "reconsiders"];
+    const bps = ["25", "50", "75", "100"];
+    const reasons = ["inflation concerns", "growth outlook", "global uncertainty", "market stability", "economic recovery"];
+    const regulators = ["SEBI", "RBI", "IRDAI", "TRAI", "Competition Commission"];
+    const countries = ["US", "European", "Chinese", "Japanese", "UK", "Asian", "Australian"];
+    const events = ["inflation", "recession", "interest rate", "geopolitical", "supply chain", "pandemic", "energy crisis"];
+    const years = ["2024", "2025"];
+    const commodities = ["Gold", "Silver", "Crude oil", "Natural gas", "Copper", "Steel", "Aluminum"];
+    const factors = ["geopolitical tension", "demand-supply gap", "economic data", "central bank policy", "industrial output"];
+
+    // Fill in random values in the templates
+    const generateNews = (): NewsItem => {
+      const template = newsTemplates[Math.floor(Math.random() * newsTemplates.length)];
+      let title = template.title;
+
+      // Replace placeholders with random values
+      title = title.replace('{{company}}', companies[Math.floor(Math.random() * companies.length)]);
+      title = title.replace('{{change}}', changes[Math.floor(Math.random() * changes.length)]);
+      title = title.replace('{{index}}', indices[Math.floor(Math.random() * indices.length)]);
+      title = title.replace('{{movement}}', movements[Math.floor(Math.random() * movements.length)]);
+      title = title.replace('{{percent}}', percentages[Math.floor(Math.random() * percentages.length)]);
+      title = title.replace('{{sector}}', sectors[Math.floor(Math.random() * sectors.length)]);
+      if (title.includes('{{sector2}}')) {
+        let sector2 = sectors[Math.floor(Math.random() * sectors.length)];
+        while (title.includes(sector2)) { // Ensure different from first sector
+          sector2 = sectors[Math.floor(Math.random() * sectors.length)];
+        }
+        title = title.replace('{{sector2}}', sector2);
+      }
+      title = title.replace('{{direction}}', directions[Math.floor(Math.random() * directions.length)]);
+      title = title.replace('{{action}}', rbiActions[Math.floor(Math.random() * rbiActions.length)]);
+      title = title.replace('{{bps}}', bps[Math.floor(Math.random() * bps.length)]);
+      title = title.replace('{{reason}}', reasons[Math.floor(Math.random() * reasons.length)]);
+      title = title.replace('{{regulator}}', regulators[Math.floor(Math.random() * regulators.length)]);
+      title = title.replace('{{country}}', countries[Math.floor(Math.random() * countries.length)]);
+      title = title.replace('{{event}}', events[Math.floor(Math.random() * events.length)]);
+      title = title.replace('{{year}}', years[Math.floor(Math.random() * years.length)]);
+      title = title.replace('{{commodity}}', commodities[Math.floor(Math.random() * commodities.length)]);
+      title = title.replace('{{factor}}', factors[Math.floor(Math.random() * factors.length)]);
+
+      // Generate a random timestamp (within the last 24 hours)
+      const minutesAgo = Math.floor(Math.random() * 1440); // 24 hours = 1440 minutes
+      const timeAgo = minutesAgo < 60
+        ? `${minutesAgo} min ago`
+        : minutesAgo < 1440
+          ? `${Math.floor(minutesAgo / 60)} hr${Math.floor(minutesAgo / 60) > 1 ? 's' : ''} ago`
+          : '1 day ago';
+
+      // Create a new Date object for the exact timestamp
+      const date = new Date();
+      date.setMinutes(date.getMinutes() - minutesAgo);
+
+      return {
+        title,
+        timeAgo,
+        category: template.category,
+        categoryColor: template.categoryColor,
+        link: template.link,
+        date: date.toISOString()
+      };
+    };
+
+    // Generate the requested number of news items
+    const newsItems = Array.from({ length: limit }, generateNews);
+
+    // Sort by most recent first (lower minutes ago is more recent)
+    newsItems.sort((a, b) => {
+      const aMinutes = a.timeAgo.includes('min') ? parseInt(a.timeAgo) :
+                     a.timeAgo.includes('hr') ? parseInt(a.timeAgo) * 60 : 1440;
+      const bMinutes = b.timeAgo.includes('min') ? parseInt(b.timeAgo) :
+                     b.timeAgo.includes('hr') ? parseInt(b.timeAgo) * 60 : 1440;
+      return aMinutes - bMinutes;
+    });
+
+    sendJson(res, MarketNewsResponseSchema, { news: newsItems });
+  } catch (error) {
+    console.error('Error fetching market news:', error);
+    sendError(res, 500, 'Failed to fetch market news');
+  }
+});
+
+// Helper function to get default allocation percentages
+function getDefaultAllocation(index: number): string {
+  const allocations = ['35.20%', '25.15%', '15.33%', '12.45%', '6.87%', '5.00%'];
+  return allocations[index] || '0.00%';
+}
+
+// Helper function to find the first date an index has a price
+function findInceptionDate(table: PriceTable, index: string): string | null {
+  const prices = table.values[index] || [];
+  const first = prices.findIndex(price => price !== null);
+  return first === -1 ? null : toIsoDate(table.dates[first]);
+}
+
+// Get inception date (first non-null date) for a specific index
+app.get('/api/inception-date/:index', async (req, res) => {
+  const { index } = req.params;
+
+  try {
+    const { indices, table } = await loadPriceTable();
+    if (!requireKnownIndices(res, [index], indices)) return;
+
+    sendJson(res, InceptionDateResponseSchema, { inceptionDate: findInceptionDate(table, index) });
+  } catch (err) {
+    console.error(`Error fetching inception date for ${index}:`, err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Get inception dates for all indices
+app.get('/api/inception-dates', async (_req, res) => {
+  try {
+    const { indices, table } = await loadPriceTable();
+
+    const inceptionDates: Record<string, string | null> = {};
+    indices.forEach(index => {
+      inceptionDates[index] = findInceptionDate(table, index);
+    });
+
+    sendJson(res, InceptionDatesResponseSchema, { inceptionDates });
+  } catch (err) {
+    console.error('Error fetching inception dates:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Token admin requests must send as "Authorization: Bearer <token>"; without one the admin
+// endpoints are disabled
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+// Helper function to check the admin token, answering 503 or 401 when the request can't go ahead
+function requireAdmin(req: Request, res: Response): boolean {
+  if (!ADMIN_TOKEN) {
+    sendError(res, 503, 'Admin endpoints are disabled; set ADMIN_TOKEN to enable them');
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${ADMIN_TOKEN}`);
+  const received = Buffer.from(req.get('authorization') || '');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    sendError(res, 401, 'Invalid admin token');
+    return false;
+  }
+  return true;
+}
+
+// Ingest a CSV or XLSX file of index history sent as the request body
+app.post('/api/admin/ingest', express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
+  if (!requireAdmin(req, res)) return;
+  const query = parseQuery(IngestQuerySchema, req, res);
+  if (!query) return;
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return sendError(res, 400, 'Send the CSV or XLSX file as the request body');
+  }
+
+  try {
+    await databaseReady;
+    const report = await ingestPrices(repository, req.body, { index: query.index, dryRun: query.dryRun });
+    if (!report.dryRun) {
+      // Rolling returns and inception dates are derived from the price table, so drop it
+      priceTableCache = null;
+    }
+    sendJson(res, IngestReportSchema, report);
+  } catch (err) {
+    if (err instanceof IngestError) {
+      return sendError(res, 422, err.message);
+    }
+    console.error('Error ingesting prices:', err);
+    sendError(res, 500, errorMessage(err));
+  }
+});
+
+// Save each session's closes from the quote provider (QUOTE_PROVIDER) after the market
+// closes, and catch up on startup with any sessions missed while the server was down
+if (process.env.EOD_UPDATES !== 'off') {
+  const eod = scheduleEodUpdates(repository, quoteProvider, {
+    rule: process.env.EOD_SCHEDULE || undefined,
+    backfillDays: parseInt(process.env.EOD_BACKFILL_DAYS || '', 10) || undefined,
+    onUpdated: () => {
+      priceTableCache = null;
+    }
+  });
+  databaseReady.then(() => eod.run());
+}
+
+// Keep the stream's ticks for the intraday charts
+if (process.env.TICK_RECORDING !== 'off') {
+  databaseReady.then(() => recordTicks(quoteStream, repository, {
+    retentionDays: parseInt(process.env.TICK_RETENTION_DAYS || '', 10) || undefined
+  }));
+}
+
+// Serve the React app for any other routes
+app.get('*', (_req, res) => {
+  res.sendFile(path.join(__dirname, '..', 'dist', 'index.html'));
+});
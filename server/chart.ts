@@ -0,0 +1,151 @@
+/**
+ * Price bars of one index for the dashboard chart, over ranges from one session to the
+ * whole stored history.
+ *
+ * 1D and 5D are intraday, bucketed from the ticks recorded in index_ticks into 5- and
+ * 30-minute bars aligned to IST. When no ticks are recorded they fall back to the last
+ * daily closes. Longer ranges use the daily prices in index_prices, weekly for 5Y and MAX.
+ * Much of the stored history has closes only, so daily and weekly bars have an open,
+ * high, low and volume only where every day they cover has one. Intraday bars have no
+ * volume, since the market stream only carries prices.
+ */
+import type { ChartBar, ChartInterval, ChartRange, ChartResponse } from '../src/shared/api';
+import { addDays, addMonths, marketDateOf, marketMinutesOf, parseIsoDate, toIsoDate } from '../src/shared/dates';
+import type { IndexRepository, PriceRow, TickRow } from './db/repository';
+
+/** A chart response before it is labelled with its index */
+export type Chart = Omit<ChartResponse, 'index'>;
+
+const INTRADAY_RANGES: Partial<Record<ChartRange, { sessions: number; minutes: number; interval: ChartInterval }>> = {
+  '1D': { sessions: 1, minutes: 5, interval: '5m' },
+  '5D': { sessions: 5, minutes: 30, interval: '30m' }
+};
+
+const DAILY_MONTHS: Partial<Record<ChartRange, number>> = {
+  '1M': 1,
+  '6M': 6,
+  '1Y': 12,
+  '5Y': 60
+};
+
+// Sessions in 5D fit in this many calendar days even around long holidays
+const INTRADAY_LOOKBACK_DAYS = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Buckets ticks into OHLC bars of a fixed number of minutes, aligned to IST
+ */
+function bucketTicks(ticks: TickRow[], minutes: number): ChartBar[] {
+  const bars: ChartBar[] = [];
+
+  ticks.forEach(tick => {
+    const instant = new Date(tick.time).getTime();
+    const start = instant - (marketMinutesOf(instant) % minutes) * MINUTE_MS - (instant % MINUTE_MS);
+    const time = new Date(start).toISOString();
+
+    const bar = bars[bars.length - 1];
+    if (bar && bar.time === time) {
+      bar.high = Math.max(bar.high as number, tick.price);
+      bar.low = Math.min(bar.low as number, tick.price);
+      bar.close = tick.price;
+    } else {
+      bars.push({ time, open: tick.price, high: tick.price, low: tick.price, close: tick.price, volume: null });
+    }
+  });
+
+  return bars;
+}
+
+const dailyBar = (row: PriceRow): ChartBar => ({
+  time: row.date,
+  open: row.open ?? null,
+  high: row.high ?? null,
+  low: row.low ?? null,
+  close: row.close,
+  volume: row.volume ?? null
+});
+
+/**
+ * Merges the daily bars of each week into one, dated by its last close
+ */
+function weeklyBars(prices: PriceRow[]): ChartBar[] {
+  const weeks: ChartBar[][] = [];
+  let currentWeek: number | null = null;
+
+  prices.forEach(row => {
+    const date = parseIsoDate(row.date) as Date;
+    // Weeks start on Monday; 1970-01-05 was one
+    const week = Math.floor((date.getTime() / (24 * 60 * MINUTE_MS) - 4) / 7);
+    if (week === currentWeek) {
+      weeks[weeks.length - 1].push(dailyBar(row));
+    } else {
+      weeks.push([dailyBar(row)]);
+      currentWeek = week;
+    }
+  });
+
+  return weeks.map(days => {
+    const last = days[days.length - 1];
+    const hasRange = days.every(day => day.open !== null && day.high !== null && day.low !== null);
+    const hasVolume = days.every(day => day.volume !== null);
+    return {
+      time: last.time,
+      open: hasRange ? days[0].open : null,
+      high: hasRange ? Math.max(...days.map(day => day.high as number)) : null,
+      low: hasRange ? Math.min(...days.map(day => day.low as number)) : null,
+      close: last.close,
+      volume: hasVolume ? days.reduce((sum, day) => sum + (day.volume as number), 0) : null
+    };
+  });
+}
+
+/**
+ * Loads the chart of an index
+ * @param repository Repository to read ticks and closes from
+ * @param index Stored index name
+ * @param range Range to chart
+ * @param now Current time, which intraday ranges look back from
+ * @returns Bars in time order, empty when the index has no prices in the range
+ */
+export async function loadChart(
+  repository: IndexRepository,
+  index: string,
+  range: ChartRange,
+  now: Date = new Date()
+): Promise<Chart> {
+  const intraday = INTRADAY_RANGES[range];
+  if (intraday) {
+    const ticks = await repository.loadTicks(index, {
+      from: addDays(marketDateOf(now), -INTRADAY_LOOKBACK_DAYS).toISOString()
+    });
+
+    if (ticks.length > 0) {
+      // The latest sessions with ticks, by IST market date
+      const sessions = [...new Set(ticks.map(tick => toIsoDate(marketDateOf(new Date(tick.time)))))];
+      const first = sessions[Math.max(0, sessions.length - intraday.sessions)];
+      const inRange = ticks.filter(tick => toIsoDate(marketDateOf(new Date(tick.time))) >= first);
+      return { range, interval: intraday.interval, bars: bucketTicks(inRange, intraday.minutes) };
+    }
+
+    // Without ticks, show the move over the last closes: from the previous close for 1D
+    const prices = await repository.loadIndexPrices(index);
+    return { range, interval: '1d', bars: prices.slice(-(intraday.sessions + 1)).map(dailyBar) };
+  }
+
+  // Ranges end at the last stored close rather than today, so a series that stopped
+  // updating still charts
+  let prices = await repository.loadIndexPrices(index);
+  const months = DAILY_MONTHS[range];
+  if (months !== undefined && prices.length > 0) {
+    const from = toIsoDate(addMonths(parseIsoDate(prices[prices.length - 1].date) as Date, -months));
+    prices = prices.filter(row => row.date >= from);
+  }
+
+  const weekly = range === '5Y' || range === 'MAX';
+  return {
+    range,
+    interval: weekly ? '1w' : '1d',
+    bars: weekly ? weeklyBars(prices) : prices.map(dailyBar)
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Return correlations between indices, computed from the index_prices price table.
+ *
+ * Returns are taken at each trading day (daily) or at the last trading day of each
+ * month (monthly). Correlations are pairwise: each pair uses the periods in which both
+ * indices have a return, so a young index doesn't shorten the history of older pairs.
+ */
+import { addMonths } from '../src/shared/dates';
+import type { PriceTable, RollingRange, RollingWindow } from './rollingReturns';
+
+export type ReturnFrequency = 'daily' | 'monthly';
+
+export interface CorrelationMatrix {
+  indices: string[];
+  frequency: ReturnFrequency;
+  matrix: (number | null)[][];
+  observations: number[][];
+  fromDate: Date | null;
+  toDate: Date | null;
+}
+
+export interface RollingCorrelation {
+  indexA: string;
+  indexB: string;
+  frequency: ReturnFrequency;
+  window: RollingWindow;
+  dates: Date[];
+  values: number[];
+}
+
+interface ReturnSeries {
+  dates: Date[];
+  times: number[];
+  returns: Record<string, (number | null)[]>;
+}
+
+// Fewer overlapping returns than this give correlations too noisy to show
+const MIN_OBSERVATIONS: Record<ReturnFrequency, number> = {
+  daily: 20,
+  monthly: 6
+};
+
+/**
+ * Picks the rows returns are measured at: every row, or the last row of each month
+ */
+function sampleRows(table: PriceTable, frequency: ReturnFrequency, range: RollingRange): number[] {
+  const fromTime = range.fromDate ? range.fromDate.getTime() : -Infinity;
+  const toTime = range.toDate ? range.toDate.getTime() : Infinity;
+
+  const rows: number[] = [];
+  for (let i = 0; i < table.dates.length; i++) {
+    const time = table.times[i];
+    if (time < fromTime || time > toTime) continue;
+
+    if (frequency === 'monthly') {
+      const next = table.dates[i + 1];
+      const isMonthEnd = !next || next.getUTCMonth() !== table.dates[i].getUTCMonth()
+        || next.getUTCFullYear() !== table.dates[i].getUTCFullYear();
+      if (!isMonthEnd) continue;
+    }
+    rows.push(i);
+  }
+  return rows;
+}
+
+/**
+ * Calculates returns between consecutive sampled rows for each index
+ * @returns Returns ending on each sampled date, null where either price is missing
+ */
+function computeReturns(
+  table: PriceTable,
+  indices: string[],
+  frequency: ReturnFrequency,
+  range: RollingRange
+): ReturnSeries {
+  const rows = sampleRows(table, frequency, range);
+  const series: ReturnSeries = { dates: [], times: [], returns: {} };
+  indices.forEach(index => {
+    series.returns[index] = [];
+  });
+
+  for (let k = 1; k < rows.length; k++) {
+    const previous = rows[k - 1];
+    const current = rows[k];
+    series.dates.push(table.dates[current]);
+    series.times.push(table.times[current]);
+
+    indices.forEach(index => {
+      const prices = table.values[index] || [];
+      const start = prices[previous];
+      const end = prices[current];
+      series.returns[index].push(
+        start !== null && end !== null && start !== undefined && end !== undefined && start > 0
+          ? end / start - 1
+          : null
+      );
+    });
+  }
+
+  return series;
+}
+
+/**
+ * Pearson correlation from running sums
+ */
+function pearson(n: number, sumX: number, sumY: number, sumXX: number, sumYY: number, sumXY: number): number | null {
+  const covariance = n * sumXY - sumX * sumY;
+  const varianceX = n * sumXX - sumX * sumX;
+  const varianceY = n * sumYY - sumY * sumY;
+  if (varianceX <= 0 || varianceY <= 0) return null;
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)));
+}
+
+const roundCorrelation = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Builds the correlation matrix of returns across indices
+ * @param table Price table built from index_prices
+ * @param indices Indices to include
+ * @param frequency Daily or month-end returns
+ * @param range Optional date range of returns to use
+ * @returns Symmetric matrix of correlations with the number of overlapping returns behind each
+ */
+export function computeCorrelationMatrix(
+  table: PriceTable,
+  indices: string[],
+  frequency: ReturnFrequency,
+  range: RollingRange = {}
+): CorrelationMatrix {
+  const series = computeReturns(table, indices, frequency, range);
+  const matrix = indices.map(() => indices.map((): number | null => null));
+  const observations = indices.map(() => indices.map(() => 0));
+
+  for (let a = 0; a < indices.length; a++) {
+    for (let b = a; b < indices.length; b++) {
+      const x = series.returns[indices[a]];
+      const y = series.returns[indices[b]];
+      let n = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+
+      for (let t = 0; t < x.length; t++) {
+        const xt = x[t];
+        const yt = y[t];
+        if (xt === null || yt === null) continue;
+        n++;
+        sumX += xt;
+        sumY += yt;
+        sumXX += xt * xt;
+        sumYY += yt * yt;
+        sumXY += xt * yt;
+      }
+
+      const value = n >= MIN_OBSERVATIONS[frequency] ? pearson(n, sumX, sumY, sumXX, sumYY, sumXY) : null;
+      matrix[a][b] = matrix[b][a] = value === null ? null : a === b ? 1 : roundCorrelation(value);
+      observations[a][b] = observations[b][a] = n;
+    }
+  }
+
+  return {
+    indices,
+    frequency,
+    matrix,
+    observations,
+    fromDate: series.dates[0] || null,
+    toDate: series.dates[series.dates.length - 1] || null
+  };
+}
+
+/**
+ * Calculates the correlation between two indices over a trailing window ending on each date
+ * @param table Price table built from index_prices
+ * @param indexA First index
+ * @param indexB Second index
+ * @param window Length of the trailing window, e.g. 1Y
+ * @param frequency Daily or month-end returns
+ * @param range Optional range of window end dates
+ * @returns Window end dates and the correlation over each window
+ */
+export function computeRollingCorrelation(
+  table: PriceTable,
+  indexA: string,
+  indexB: string,
+  window: RollingWindow,
+  frequency: ReturnFrequency,
+  range: RollingRange = {}
+): RollingCorrelation {
+  // Returns before the range start are still needed to fill the first window
+  const series = computeReturns(table, [indexA, indexB], frequency, { toDate: range.toDate });
+  const fromTime = range.fromDate ? range.fromDate.getTime() : -Infinity;
+  const result: RollingCorrelation = { indexA, indexB, frequency, window, dates: [], values: [] };
+
+  // Only periods where both indices have a return take part
+  const points: { date: Date; time: number; x: number; y: number }[] = [];
+  series.returns[indexA].forEach((x, t) => {
+    const y = series.returns[indexB][t];
+    if (x !== null && y !== null) {
+      points.push({ date: series.dates[t], time: series.times[t], x, y });
+    }
+  });
+  if (points.length === 0) return result;
+
+  let n = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+  let start = 0;
+  const firstTime = points[0].time;
+
+  points.forEach(point => {
+    n++;
+    sumX += point.x;
+    sumY += point.y;
+    sumXX += point.x * point.x;
+    sumYY += point.y * point.y;
+    sumXY += point.x * point.y;
+
+    // Drop returns that fall outside the window ending on this date
+    const windowStart = addMonths(point.date, -window.months);
+    while (points[start].time <= windowStart.getTime()) {
+      const old = points[start];
+      n--;
+      sumX -= old.x;
+      sumY -= old.y;
+      sumXX -= old.x * old.x;
+      sumYY -= old.y * old.y;
+      sumXY -= old.x * old.y;
+      start++;
+    }
+
+    // Skip dates until a full window of history is available
+    if (windowStart.getTime() < firstTime || point.time < fromTime || n < MIN_OBSERVATIONS[frequency]) return;
+
+    const value = pearson(n, sumX, sumY, sumXX, sumYY, sumXY);
+    if (value !== null) {
+      result.dates.push(point.date);
+      result.values.push(roundCorrelation(value));
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THRESHOLDS, scanIndex, type QualityIssue } from './dataQuality';
+import type { PriceTable } from './rollingReturns';
+
+// The weekdays from 1 to 16 January 2024, all NSE trading days
+const dates = ['01', '02', '03', '04', '05', '08', '09', '10', '11', '12', '15', '16'].map(
+  day => new Date(`2024-01-${day}T00:00:00Z`)
+);
+
+const table: PriceTable = {
+  dates,
+  times: dates.map(date => date.getTime()),
+  values: {
+    // Spikes for a day on the 4th, jumps for good on the 9th, then stays flat
+    A: [100, 101, 102, 150, 103, 104, 140, 141, 141, 141, 141, 141],
+    // A zero close, then nothing until the 11th
+    B: [50, 0, null, null, null, null, null, null, 51, null, null, null],
+    // Jumps on its last price and stops updating
+    C: [10, 10.1, 15, null, null, null, null, null, null, null, null, null]
+  }
+};
+
+const summary = (issues: QualityIssue[]) =>
+  issues.map(issue => ({
+    kind: issue.kind,
+    severity: issue.severity,
+    fromDate: issue.fromDate.toISOString().slice(0, 10),
+    toDate: issue.toDate.toISOString().slice(0, 10),
+    message: issue.message
+  }));
+
+describe('scanIndex', () => {
+  it('tells one-day spikes from lasting jumps and finds flat runs', () => {
+    const quality = scanIndex(table, 'A');
+
+    expect(quality.prices).toBe(12);
+    expect(summary(quality.issues)).toEqual([
+      {
+        kind: 'spike',
+        severity: 'error',
+        fromDate: '2024-01-04',
+        toDate: '2024-01-04',
+        message: 'One-day spike of +47.1% that reverses the next day'
+      },
+      { kind: 'jump', severity: 'warning', fromDate: '2024-01-08', toDate: '2024-01-09', message: 'Daily move of +34.6%' },
+      {
+        kind: 'flat_run',
+        severity: 'warning',
+        fromDate: '2024-01-10',
+        toDate: '2024-01-16',
+        message: 'Close unchanged at 141 for 5 days'
+      }
+    ]);
+  });
+
+  it('flags non-positive closes and counts gaps in trading days', () => {
+    const quality = scanIndex(table, 'B');
+
+    expect(quality.prices).toBe(3);
+    expect(quality.fromDate?.toISOString().slice(0, 10)).toBe('2024-01-01');
+    expect(quality.toDate?.toISOString().slice(0, 10)).toBe('2024-01-11');
+    expect(summary(quality.issues)).toEqual([
+      {
+        kind: 'gap',
+        severity: 'warning',
+        fromDate: '2024-01-01',
+        toDate: '2024-01-11',
+        message: 'No prices for 10 days (7 trading days)'
+      },
+      { kind: 'non_positive', severity: 'error', fromDate: '2024-01-02', toDate: '2024-01-02', message: 'Close of 0' }
+    ]);
+  });
+
+  it('treats a move on the last price as a jump and flags series that stopped', () => {
+    expect(summary(scanIndex(table, 'C').issues)).toEqual([
+      { kind: 'jump', severity: 'warning', fromDate: '2024-01-02', toDate: '2024-01-03', message: 'Daily move of +48.5%' },
+      {
+        kind: 'stale',
+        severity: 'warning',
+        fromDate: '2024-01-03',
+        toDate: '2024-01-16',
+        message: 'No prices for 13 days before the latest date in the data'
+      }
+    ]);
+  });
+
+  it('applies the given thresholds', () => {
+    const quality = scanIndex(table, 'A', { ...DEFAULT_THRESHOLDS, jumpPercent: 50, flatDays: 6 });
+    expect(quality.issues).toEqual([]);
+  });
+
+  it('returns no range for an index without prices', () => {
+    expect(scanIndex(table, 'D')).toEqual({ index: 'D', fromDate: null, toDate: null, prices: 0, issues: [] });
+  });
+});
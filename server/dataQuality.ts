@@ -0,0 +1,211 @@
+/**
+ * Data quality checks on the index_prices price table.
+ *
+ * Each index is scanned from its first to its last price for points that would distort
+ * anything computed from it: non-positive prices, one-day spikes that reverse the next
+ * day, other large daily jumps, runs of identical closes, missing stretches, and series
+ * that stopped updating before the rest of the table.
+ */
+import { daysBetween } from '../src/shared/dates';
+import { getTradingCalendar, tradingDaysBetween, type TradingCalendar } from '../src/shared/tradingCalendar';
+import type { PriceTable } from './rollingReturns';
+
+export type QualityIssueKind = 'non_positive' | 'spike' | 'jump' | 'flat_run' | 'gap' | 'stale';
+
+export interface QualityThresholds {
+  // Daily move, in percent, above which a price is flagged
+  jumpPercent: number;
+  // Number of identical closes in a row that counts as a flat run
+  flatDays: number;
+  // Calendar days between prices, or since the last price, that count as a gap
+  gapDays: number;
+}
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  severity: 'error' | 'warning';
+  fromDate: Date;
+  toDate: Date;
+  value: number | null;
+  message: string;
+}
+
+export interface IndexQuality {
+  index: string;
+  fromDate: Date | null;
+  toDate: Date | null;
+  prices: number;
+  issues: QualityIssue[];
+}
+
+export const DEFAULT_THRESHOLDS: QualityThresholds = {
+  jumpPercent: 20,
+  flatDays: 5,
+  gapDays: 7
+};
+
+interface Point {
+  date: Date;
+  value: number;
+}
+
+const formatPercent = (change: number) => `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+
+/**
+ * Flags moves above the threshold, telling spikes that reverse the next day from jumps
+ */
+function findJumps(points: Point[], limit: number): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const point = points[i];
+    const change = point.value / previous.value - 1;
+    if (Math.abs(change) <= limit) continue;
+
+    // A spike jumps away and comes back: the next price is within the limit of the one before
+    const next = points[i + 1];
+    if (next && Math.abs(next.value / previous.value - 1) <= limit) {
+      issues.push({
+        kind: 'spike',
+        severity: 'error',
+        fromDate: point.date,
+        toDate: point.date,
+        value: point.value,
+        message: `One-day spike of ${formatPercent(change)} that reverses the next day`
+      });
+      i++;
+    } else {
+      issues.push({
+        kind: 'jump',
+        severity: 'warning',
+        fromDate: previous.date,
+        toDate: point.date,
+        value: point.value,
+        message: `Daily move of ${formatPercent(change)}`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Flags runs of at least the given number of identical closes
+ */
+function findFlatRuns(points: Point[], minLength: number): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= points.length; i++) {
+    if (i < points.length && points[i].value === points[start].value) continue;
+
+    const length = i - start;
+    if (length >= minLength) {
+      issues.push({
+        kind: 'flat_run',
+        severity: 'warning',
+        fromDate: points[start].date,
+        toDate: points[i - 1].date,
+        value: points[start].value,
+        message: `Close unchanged at ${points[start].value} for ${length} days`
+      });
+    }
+    start = i;
+  }
+
+  return issues;
+}
+
+/**
+ * Flags stretches longer than the threshold without a price
+ */
+function findGaps(points: Point[], maxDays: number, calendar: TradingCalendar): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const point = points[i];
+    if (daysBetween(previous.date, point.date) <= maxDays) continue;
+
+    const missing = tradingDaysBetween(previous.date, point.date, calendar) - 1;
+    issues.push({
+      kind: 'gap',
+      severity: 'warning',
+      fromDate: previous.date,
+      toDate: point.date,
+      value: null,
+      message: `No prices for ${daysBetween(previous.date, point.date)} days (${missing} trading days)`
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Scans one index of the price table for suspicious points
+ * @param table Price table built from index_prices
+ * @param index Index to scan
+ * @param thresholds Limits for jumps, flat runs and gaps
+ * @param calendar Exchange calendar gaps are counted in, NSE by default
+ * @returns The index's date range and issues in date order
+ */
+export function scanIndex(
+  table: PriceTable,
+  index: string,
+  thresholds: QualityThresholds = DEFAULT_THRESHOLDS,
+  calendar: TradingCalendar = getTradingCalendar()
+): IndexQuality {
+  const values = table.values[index] || [];
+  const prices = values.filter(value => value !== null).length;
+  const issues: QualityIssue[] = [];
+  const points: Point[] = [];
+
+  values.forEach((value, i) => {
+    if (value === null) return;
+    if (value > 0) {
+      points.push({ date: table.dates[i], value });
+    } else {
+      issues.push({
+        kind: 'non_positive',
+        severity: 'error',
+        fromDate: table.dates[i],
+        toDate: table.dates[i],
+        value,
+        message: `Close of ${value}`
+      });
+    }
+  });
+
+  if (points.length === 0) {
+    return { index, fromDate: null, toDate: null, prices, issues };
+  }
+
+  issues.push(
+    ...findJumps(points, thresholds.jumpPercent / 100),
+    ...findFlatRuns(points, thresholds.flatDays),
+    ...findGaps(points, thresholds.gapDays, calendar)
+  );
+
+  // A series that stops well before the rest of the table is no longer being updated
+  const last = points[points.length - 1];
+  const tableEnd = table.dates[table.dates.length - 1];
+  if (daysBetween(last.date, tableEnd) > thresholds.gapDays) {
+    issues.push({
+      kind: 'stale',
+      severity: 'warning',
+      fromDate: last.date,
+      toDate: tableEnd,
+      value: last.value,
+      message: `No prices for ${daysBetween(last.date, tableEnd)} days before the latest date in the data`
+    });
+  }
+
+  return {
+    index,
+    fromDate: points[0].date,
+    toDate: last.date,
+    prices,
+    issues: issues.sort((a, b) => a.fromDate.getTime() - b.fromDate.getTime())
+  };
+}
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { describeIndex, storedNamesBySymbol } from './catalogue';
+import { SqliteRepository } from './sqlite';
+import { runEodUpdate } from '../eod/update';
+import type { QuoteProvider } from '../quotes';
+
+describe('describeIndex', () => {
+  it('describes aliases like the index they name', () => {
+    const alias = describeIndex('BANK NIFTY');
+    expect(alias).toMatchObject({ name: 'BANK NIFTY', symbol: '^NSEBANK', category: 'sector', baseValue: 1000 });
+    expect(describeIndex('S&P BSE SENSEX')).toMatchObject({ symbol: '^BSESN', provider: 'BSE', baseValue: 100 });
+  });
+
+  it('leaves total return variants unquoted', () => {
+    expect(describeIndex('NIFTY BANK TRI').symbol).toBeNull();
+  });
+});
+
+describe('storedNamesBySymbol', () => {
+  it('prefers the index not stored under an alias, whatever the order', () => {
+    const catalogue = ['BANK NIFTY', 'NIFTY BANK', 'SENSEX', 'S&P BSE SENSEX', 'NIFTY 50'].map(describeIndex);
+    expect(storedNamesBySymbol(catalogue)).toEqual(new Map([
+      ['^NSEBANK', 'NIFTY BANK'],
+      ['^BSESN', 'SENSEX'],
+      ['^NSEI', 'NIFTY 50']
+    ]));
+    expect(storedNamesBySymbol([...catalogue].reverse()).get('^NSEBANK')).toBe('NIFTY BANK');
+  });
+
+  it('uses an alias when it is the only index with the symbol', () => {
+    expect(storedNamesBySymbol([describeIndex('BANK NIFTY')]).get('^NSEBANK')).toBe('BANK NIFTY');
+  });
+});
+
+describe('end-of-day update of aliased indices', () => {
+  let dir: string;
+  let repository: SqliteRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circle-wealth-'));
+    const filename = path.join(dir, 'test.db');
+    fs.writeFileSync(filename, '');
+    repository = new SqliteRepository(filename);
+  });
+
+  afterEach(async () => {
+    await repository.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves the closes of a symbol under one name', async () => {
+    await repository.ensureSchema();
+    await repository.addIndex(describeIndex('BANK NIFTY'));
+    await repository.addIndex(describeIndex('NIFTY BANK'));
+
+    const provider: QuoteProvider = {
+      name: 'test',
+      getDailyCloses: async () => [{ date: '2024-01-10', close: 47360.85 }],
+      getQuote: async () => {
+        throw new Error('No quotes');
+      }
+    };
+    // 17:30 IST, after the session's closes are final
+    const result = await runEodUpdate(repository, provider, { now: new Date('2024-01-10T12:00:00Z'), backfillDays: 3 });
+
+    expect(result.indices.map(index => index.index)).toEqual(['NIFTY BANK']);
+    expect(await repository.loadIndexPrices('NIFTY BANK')).toMatchObject([{ date: '2024-01-10', close: 47360.85 }]);
+    expect(await repository.loadIndexPrices('BANK NIFTY')).toEqual([]);
+  });
+});
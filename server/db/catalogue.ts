@@ -0,0 +1,116 @@
+import type { IndexCategory, IndexInfo } from '../../src/shared/api';
+import type { IndexRepository } from './repository';
+
+type KnownIndex = Pick<IndexInfo, 'category'> & Partial<Pick<IndexInfo, 'symbol' | 'baseValue' | 'baseDate'>>;
+
+// Published base values and dates (YYYY-MM-DD) of common indices, keyed on the upper-case
+// price index name. Total return variants share the base of their price index.
+const KNOWN_INDICES: Record<string, KnownIndex> = {
+  'NIFTY 50': { category: 'broad', symbol: '^NSEI', baseValue: 1000, baseDate: '1995-11-03' },
+  'NIFTY NEXT 50': { category: 'broad', symbol: '^NSMIDCP', baseValue: 1000, baseDate: '1996-11-04' },
+  'NIFTY 100': { category: 'broad', symbol: '^CNX100', baseValue: 1000, baseDate: '2003-01-01' },
+  'NIFTY 200': { category: 'broad', symbol: '^CNX200', baseValue: 1000, baseDate: '2004-01-01' },
+  'NIFTY 500': { category: 'broad', symbol: '^CRSLDX', baseValue: 1000, baseDate: '1995-01-01' },
+  'NIFTY MIDCAP 150': { category: 'broad', baseValue: 1000, baseDate: '2005-04-01' },
+  'NIFTY SMALLCAP 250': { category: 'broad', baseValue: 1000, baseDate: '2005-04-01' },
+  'NIFTY BANK': { category: 'sector', symbol: '^NSEBANK', baseValue: 1000, baseDate: '2000-01-01' },
+  'NIFTY IT': { category: 'sector', symbol: '^CNXIT', baseValue: 100, baseDate: '1996-01-01' },
+  'NIFTY AUTO': { category: 'sector', symbol: '^CNXAUTO', baseValue: 1000, baseDate: '2004-01-01' },
+  'NIFTY PHARMA': { category: 'sector', symbol: '^CNXPHARMA', baseValue: 1000, baseDate: '2001-01-01' },
+  'NIFTY FMCG': { category: 'sector', symbol: '^CNXFMCG', baseValue: 1000, baseDate: '1995-12-30' },
+  'NIFTY METAL': { category: 'sector', symbol: '^CNXMETAL', baseValue: 1000, baseDate: '2004-01-01' },
+  'NIFTY REALTY': { category: 'sector', symbol: '^CNXREALTY', baseValue: 1000, baseDate: '2006-12-29' },
+  'NIFTY ENERGY': { category: 'sector', symbol: '^CNXENERGY', baseValue: 1000, baseDate: '2001-01-01' },
+  'NIFTY MEDIA': { category: 'sector', symbol: '^CNXMEDIA', baseValue: 1000, baseDate: '2005-12-30' },
+  'NIFTY PSU BANK': { category: 'sector', symbol: '^CNXPSUBANK', baseValue: 1000, baseDate: '2004-01-01' },
+  'NIFTY PRIVATE BANK': { category: 'sector', baseValue: 1000, baseDate: '2005-04-01' },
+  'NIFTY FINANCIAL SERVICES': { category: 'sector', symbol: 'NIFTY_FIN_SERVICE.NS', baseValue: 1000, baseDate: '2004-01-01' },
+  'SENSEX': { category: 'broad', symbol: '^BSESN', baseValue: 100, baseDate: '1979-04-01' }
+};
+
+// Other names known indices are stored under, mapped to their KNOWN_INDICES name. An
+// alias is described like the index it names, but when both names are stored the
+// KNOWN_INDICES one is the index quotes for the symbol are saved under.
+const ALIASES: Record<string, string> = {
+  'BANK NIFTY': 'NIFTY BANK',
+  'S&P BSE SENSEX': 'SENSEX'
+};
+
+// Keywords checked in order, so e.g. "NIFTY ALPHA LOW-VOLATILITY 30" is a strategy index
+// and "NIFTY INDIA CONSUMPTION" is thematic rather than broad
+const CATEGORY_KEYWORDS: [IndexCategory, RegExp][] = [
+  ['strategy', /ALPHA|BETA|VALUE|QUALITY|MOMENTUM|LOW[- ]VOL|EQUAL WEIGHT|DIVIDEND|GROWTH|ENHANCED|\d+:\d+/],
+  ['sector', /BANK|\bIT\b|AUTO|PHARMA|FMCG|METAL|REALTY|ENERGY|MEDIA|FINANCIAL|HEALTHCARE|OIL|GAS|CONSUMER DURABLES|CHEMICALS/],
+  ['thematic', /CONSUMPTION|INFRA|MNC|\bC?PSE\b|COMMODITIES|MANUFACTURING|DEFENCE|\bEV\b|DIGITAL|HOUSING|TOURISM|ESG|MOBILITY|TRANSPORT|SERVICES SECTOR/]
+];
+
+const TOTAL_RETURN_PATTERN = /\s*(\bTRI\b|\bTOTAL RETURNS?\b)\s*/;
+
+/**
+ * Describes an index from its name: known indices get their published base, the rest
+ * have their provider, category and variant inferred from the name
+ * @param name Index name as stored in the indices table
+ * @returns Catalogue entry, with baseDate as YYYY-MM-DD
+ */
+export function describeIndex(name: string): IndexInfo {
+  const displayName = name.replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+  const upper = displayName.toUpperCase();
+  const variant = TOTAL_RETURN_PATTERN.test(upper) ? 'TRI' : 'PRI';
+  const priceName = upper.replace(TOTAL_RETURN_PATTERN, ' ').trim();
+  const known = KNOWN_INDICES[ALIASES[priceName] ?? priceName];
+
+  const provider = /^(NIFTY|CNX)/.test(priceName)
+    ? 'NSE'
+    : /^(S&P BSE|BSE|SENSEX)/.test(priceName) ? 'BSE' : 'Other';
+  const category = known?.category
+    || CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(priceName))?.[0]
+    || 'broad';
+
+  return {
+    name,
+    displayName,
+    // Quote symbols are for the price index; total return variants aren't quoted
+    symbol: variant === 'PRI' ? known?.symbol ?? null : null,
+    provider,
+    category,
+    baseValue: known?.baseValue ?? null,
+    baseDate: known?.baseDate ?? null,
+    currency: 'INR',
+    variant
+  };
+}
+
+/**
+ * Picks the stored index each quote symbol's prices and ticks belong to. Where several
+ * indices share a symbol, e.g. NIFTY BANK and its alias BANK NIFTY, the one not stored
+ * under an alias wins, and otherwise the first listed.
+ * @param catalogue Catalogue entries of the stored indices
+ * @returns Stored index name by quote symbol
+ */
+export function storedNamesBySymbol(catalogue: IndexInfo[]): Map<string, string> {
+  const isAlias = (name: string) =>
+    Object.prototype.hasOwnProperty.call(ALIASES, name.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase());
+  const names = new Map<string, string>();
+  catalogue.forEach(info => {
+    if (!info.symbol) return;
+    const current = names.get(info.symbol);
+    if (current === undefined || (isAlias(current) && !isAlias(info.name))) {
+      names.set(info.symbol, info.name);
+    }
+  });
+  return names;
+}
+
+/**
+ * Fills in catalogue entries for indices added without one, e.g. by the Sheet1 migration
+ * of an earlier version, leaving entries that were already set untouched
+ * @param repository Repository to update
+ * @returns Number of indices described
+ */
+export async function syncCatalogue(repository: IndexRepository): Promise<number> {
+  const names = await repository.listUncataloguedIndices();
+  for (const name of names) {
+    await repository.updateIndexInfo(describeIndex(name));
+  }
+  return names.length;
+}
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+import { PostgresRepository } from './postgres';
+import { SqliteRepository } from './sqlite';
+import type { IndexRepository } from './repository';
+
+export type { IndexRepository, RiskFreeRateRow } from './repository';
+
+/**
+ * Opens the repository the environment asks for. DB_CLIENT picks the backend
+ * explicitly; otherwise DATABASE_URL means Postgres and its absence means the
+ * SQLite file at SQLITE_PATH (database.db in the project root by default).
+ */
+export function createRepository(env: NodeJS.ProcessEnv = process.env): IndexRepository {
+  const client = env.DB_CLIENT || (env.DATABASE_URL ? 'postgres' : 'sqlite');
+
+  if (client === 'postgres') {
+    if (!env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is required when DB_CLIENT is postgres');
+    }
+    return new PostgresRepository(env.DATABASE_URL, env.NODE_ENV === 'production');
+  }
+
+  if (client === 'sqlite') {
+    const filename = env.SQLITE_PATH || path.join(__dirname, '..', '..', 'database.db');
+    if (!fs.existsSync(filename)) {
+      throw new Error(`SQLite database not found at ${filename}. Set SQLITE_PATH, or DATABASE_URL to use Postgres`);
+    }
+    return new SqliteRepository(filename);
+  }
+
+  throw new Error(`Unknown DB_CLIENT: ${client}. Use postgres or sqlite`);
+}
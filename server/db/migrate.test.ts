@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { migrateWideSheet } from './migrate';
+import { SqliteRepository } from './sqlite';
+
+let dir: string;
+let filename: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circle-wealth-'));
+  filename = path.join(dir, 'test.db');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Writes a legacy Sheet1 the way the spreadsheet import left it: US dates and prices as text
+function writeSheet(rows: unknown[][]) {
+  const db = new Database(filename);
+  db.exec('CREATE TABLE Sheet1 (Date TEXT, "NIFTY 50" TEXT, "NIFTY IT" TEXT)');
+  const insert = db.prepare('INSERT INTO Sheet1 VALUES (?, ?, ?)');
+  rows.forEach(row => insert.run(...row));
+  db.close();
+}
+
+describe('migrateWideSheet', () => {
+  it('copies each column of Sheet1 into index_prices, skipping empty and unreadable cells', async () => {
+    writeSheet([
+      ['01/02/2019', '10,862.55', null],
+      ['01/01/2019', '10,910.10', '15,321.90'],
+      ['not a date', '10,900.00', '15,000.00'],
+      ['01/03/2019', '', 'n/a']
+    ]);
+    const repository = new SqliteRepository(filename);
+    try {
+      expect(await migrateWideSheet(repository)).toEqual({ indices: 2, prices: 3 });
+      expect(await repository.listIndices()).toEqual(['NIFTY 50', 'NIFTY IT']);
+      expect(await repository.loadIndexPrices('NIFTY 50')).toMatchObject([
+        { date: '2019-01-01', close: 10910.1 },
+        { date: '2019-01-02', close: 10862.55 }
+      ]);
+      expect(await repository.loadIndexPrices('NIFTY IT')).toMatchObject([{ date: '2019-01-01', close: 15321.9 }]);
+    } finally {
+      await repository.close();
+    }
+  });
+
+  it('can be run again without duplicating prices', async () => {
+    writeSheet([['01/01/2019', '10,910.10', '15,321.90']]);
+    const repository = new SqliteRepository(filename);
+    try {
+      await migrateWideSheet(repository);
+      expect(await migrateWideSheet(repository)).toEqual({ indices: 2, prices: 2 });
+      expect(await repository.loadPrices()).toHaveLength(2);
+    } finally {
+      await repository.close();
+    }
+  });
+
+  it('does nothing without a Sheet1', async () => {
+    fs.writeFileSync(filename, '');
+    const repository = new SqliteRepository(filename);
+    try {
+      expect(await migrateWideSheet(repository)).toBeNull();
+      expect(await repository.listIndices()).toEqual([]);
+    } finally {
+      await repository.close();
+    }
+  });
+});
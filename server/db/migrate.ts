@@ -0,0 +1,44 @@
+import { parseMarketDate, toIsoDate } from '../../src/shared/dates';
+import { parsePrice } from '../rollingReturns';
+import { describeIndex } from './catalogue';
+import type { IndexRepository, PriceRow } from './repository';
+
+export interface MigrationResult {
+  indices: number;
+  prices: number;
+}
+
+/**
+ * Copies the legacy wide Sheet1 table, one column per index, into the indices and
+ * index_prices tables, describing each index from its name. Empty and unparseable cells
+ * are skipped, and rows that are already stored are overwritten, so the migration can be
+ * re-run safely.
+ * @param repository Repository to read Sheet1 from and write prices to
+ * @returns Number of indices and prices copied, or null when there is no Sheet1
+ */
+export async function migrateWideSheet(repository: IndexRepository): Promise<MigrationResult | null> {
+  await repository.ensureSchema();
+  const sheet = await repository.readWideSheet();
+  if (!sheet) return null;
+
+  const dates = sheet.rows.map(row => {
+    const date = parseMarketDate(row[sheet.dateColumn]);
+    return date ? toIsoDate(date) : null;
+  });
+
+  let prices = 0;
+  for (const index of sheet.indices) {
+    const rows: PriceRow[] = [];
+    sheet.rows.forEach((row, i) => {
+      const close = parsePrice(row[index]);
+      const date = dates[i];
+      if (date !== null && close !== null) rows.push({ date, close });
+    });
+
+    await repository.addIndex(describeIndex(index));
+    await repository.upsertPrices(index, rows);
+    prices += rows.length;
+  }
+
+  return { indices: sheet.indices.length, prices };
+}
@@ -0,0 +1,268 @@
+import pg from 'pg';
+import type { IndexInfo } from '../../src/shared/api';
+import type {
+  DateRange,
+  IndexPrice,
+  IndexRepository,
+  PriceRow,
+  RiskFreeRateRow,
+  TickRow,
+  TimeRange,
+  WideSheet
+} from './repository';
+
+// Catalogue columns of the indices table, added to tables created before they existed
+const CATALOGUE_COLUMNS: [string, string][] = [
+  ['display_name', 'TEXT'],
+  ['symbol', 'TEXT'],
+  ['provider', "TEXT NOT NULL DEFAULT 'Other'"],
+  ['category', "TEXT NOT NULL DEFAULT 'broad'"],
+  ['base_value', 'DOUBLE PRECISION'],
+  ['base_date', 'DATE'],
+  ['currency', "TEXT NOT NULL DEFAULT 'INR'"],
+  ['variant', "TEXT NOT NULL DEFAULT 'PRI'"]
+];
+
+// Session columns of the index_prices table besides the close, all optional
+const PRICE_COLUMNS: [string, string][] = [
+  ['open', 'DOUBLE PRECISION'],
+  ['high', 'DOUBLE PRECISION'],
+  ['low', 'DOUBLE PRECISION'],
+  ['volume', 'DOUBLE PRECISION']
+];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS indices (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE
+  );
+  ${CATALOGUE_COLUMNS.map(([column, type]) => `ALTER TABLE indices ADD COLUMN IF NOT EXISTS ${column} ${type};`).join('\n  ')}
+  CREATE TABLE IF NOT EXISTS index_prices (
+    index_id INTEGER NOT NULL REFERENCES indices(id),
+    date DATE NOT NULL,
+    close DOUBLE PRECISION NOT NULL,
+    PRIMARY KEY (index_id, date)
+  );
+  ${PRICE_COLUMNS.map(([column, type]) => `ALTER TABLE index_prices ADD COLUMN IF NOT EXISTS ${column} ${type};`).join('\n  ')}
+  CREATE INDEX IF NOT EXISTS index_prices_date ON index_prices(date);
+  CREATE TABLE IF NOT EXISTS index_ticks (
+    index_id INTEGER NOT NULL REFERENCES indices(id),
+    time TIMESTAMPTZ NOT NULL,
+    price DOUBLE PRECISION NOT NULL,
+    PRIMARY KEY (index_id, time)
+  );
+`;
+
+const CATALOGUE_SELECT = `
+  SELECT name, COALESCE(display_name, name) AS "displayName", symbol, provider, category,
+    base_value AS "baseValue", to_char(base_date, 'YYYY-MM-DD') AS "baseDate", currency, variant
+  FROM indices`;
+
+/**
+ * Builds the date conditions for a range filter, numbering parameters after the
+ * ones already in the query
+ */
+function rangeFilter(range: DateRange, offset: number): { sql: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (range.from) {
+    params.push(range.from);
+    conditions.push(`p.date >= $${offset + params.length}`);
+  }
+  if (range.to) {
+    params.push(range.to);
+    conditions.push(`p.date <= $${offset + params.length}`);
+  }
+  return { sql: conditions.map(condition => ` AND ${condition}`).join(''), params };
+}
+
+/**
+ * Orders a catalogue entry as the parameters of the indices insert and update
+ */
+function catalogueParams(info: IndexInfo): unknown[] {
+  return [
+    info.name,
+    info.displayName,
+    info.symbol,
+    info.provider,
+    info.category,
+    info.baseValue,
+    info.baseDate,
+    info.currency,
+    info.variant
+  ];
+}
+
+/**
+ * Reads and writes prices in Postgres. Sheet1 is copied in by migrate-to-postgres.js,
+ * which lower-cases the table and date column names; risk_free_rates is filled by
+ * `npm run load-rates`.
+ */
+export class PostgresRepository implements IndexRepository {
+  readonly kind = 'postgres';
+  private pool: pg.Pool;
+
+  constructor(connectionString: string, ssl: boolean) {
+    this.pool = new pg.Pool({
+      connectionString,
+      ssl: ssl ? { rejectUnauthorized: false } : false
+    });
+  }
+
+  async ping(): Promise<void> {
+    const client = await this.pool.connect();
+    client.release();
+  }
+
+  async ensureSchema(): Promise<void> {
+    await this.pool.query(SCHEMA);
+  }
+
+  async listIndices(): Promise<string[]> {
+    const result = await this.pool.query<{ name: string }>('SELECT name FROM indices ORDER BY id');
+    return result.rows.map(row => row.name);
+  }
+
+  async listCatalogue(): Promise<IndexInfo[]> {
+    const result = await this.pool.query<IndexInfo>(`${CATALOGUE_SELECT} ORDER BY id`);
+    return result.rows;
+  }
+
+  async listUncataloguedIndices(): Promise<string[]> {
+    const result = await this.pool.query<{ name: string }>(
+      'SELECT name FROM indices WHERE display_name IS NULL ORDER BY id'
+    );
+    return result.rows.map(row => row.name);
+  }
+
+  async addIndex(info: IndexInfo): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO indices (name, display_name, symbol, provider, category, base_value, base_date, currency, variant) ' +
+      'VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) ON CONFLICT (name) DO NOTHING',
+      catalogueParams(info)
+    );
+  }
+
+  async updateIndexInfo(info: IndexInfo): Promise<void> {
+    await this.pool.query(
+      'UPDATE indices SET display_name = $2, symbol = $3, provider = $4, category = $5, ' +
+      'base_value = $6, base_date = $7, currency = $8, variant = $9 WHERE name = $1',
+      catalogueParams(info)
+    );
+  }
+
+  async upsertPrices(index: string, prices: PriceRow[]): Promise<void> {
+    const result = await this.pool.query<{ id: number }>('SELECT id FROM indices WHERE name = $1', [index]);
+    if (result.rows.length === 0) throw new Error(`Unknown index: ${index}`);
+
+    // Arrays keep the whole batch to seven parameters however many rows it has
+    await this.pool.query(
+      'INSERT INTO index_prices (index_id, date, close, open, high, low, volume) ' +
+      'SELECT $1, d::date, c, o, h, l, v ' +
+      'FROM unnest($2::text[], $3::float8[], $4::float8[], $5::float8[], $6::float8[], $7::float8[]) AS t(d, c, o, h, l, v) ' +
+      'ON CONFLICT (index_id, date) DO UPDATE SET close = EXCLUDED.close, ' +
+      'open = COALESCE(EXCLUDED.open, index_prices.open), high = COALESCE(EXCLUDED.high, index_prices.high), ' +
+      'low = COALESCE(EXCLUDED.low, index_prices.low), volume = COALESCE(EXCLUDED.volume, index_prices.volume)',
+      [
+        result.rows[0].id,
+        prices.map(row => row.date),
+        prices.map(row => row.close),
+        prices.map(row => row.open ?? null),
+        prices.map(row => row.high ?? null),
+        prices.map(row => row.low ?? null),
+        prices.map(row => row.volume ?? null)
+      ]
+    );
+  }
+
+  async loadPrices(range: DateRange = {}): Promise<IndexPrice[]> {
+    const filter = rangeFilter(range, 0);
+    const result = await this.pool.query<IndexPrice>(
+      "SELECT i.name AS \"index\", to_char(p.date, 'YYYY-MM-DD') AS date, p.close FROM index_prices p " +
+      `JOIN indices i ON i.id = p.index_id WHERE TRUE${filter.sql} ORDER BY p.date, i.id`,
+      filter.params
+    );
+    return result.rows;
+  }
+
+  async loadIndexPrices(index: string, range: DateRange = {}): Promise<PriceRow[]> {
+    const filter = rangeFilter(range, 1);
+    const result = await this.pool.query<PriceRow>(
+      "SELECT to_char(p.date, 'YYYY-MM-DD') AS date, p.close, p.open, p.high, p.low, p.volume FROM index_prices p " +
+      `JOIN indices i ON i.id = p.index_id WHERE i.name = $1${filter.sql} ORDER BY p.date`,
+      [index, ...filter.params]
+    );
+    return result.rows;
+  }
+
+  async insertTicks(index: string, ticks: TickRow[]): Promise<void> {
+    const result = await this.pool.query<{ id: number }>('SELECT id FROM indices WHERE name = $1', [index]);
+    if (result.rows.length === 0) throw new Error(`Unknown index: ${index}`);
+
+    await this.pool.query(
+      'INSERT INTO index_ticks (index_id, time, price) ' +
+      'SELECT $1, t::timestamptz, p FROM unnest($2::text[], $3::float8[]) AS u(t, p) ' +
+      'ON CONFLICT (index_id, time) DO NOTHING',
+      [result.rows[0].id, ticks.map(row => row.time), ticks.map(row => row.price)]
+    );
+  }
+
+  async loadTicks(index: string, range: TimeRange): Promise<TickRow[]> {
+    const result = await this.pool.query<TickRow>(
+      "SELECT to_char(t.time AT TIME ZONE 'UTC', 'YYYY-MM-DD\"T\"HH24:MI:SS.MS\"Z\"') AS time, t.price " +
+      'FROM index_ticks t JOIN indices i ON i.id = t.index_id ' +
+      'WHERE i.name = $1 AND t.time >= $2::timestamptz AND ($3::timestamptz IS NULL OR t.time <= $3::timestamptz) ' +
+      'ORDER BY t.time',
+      [index, range.from, range.to || null]
+    );
+    return result.rows;
+  }
+
+  async deleteTicksBefore(time: string): Promise<number> {
+    const result = await this.pool.query('DELETE FROM index_ticks WHERE time < $1::timestamptz', [time]);
+    return result.rowCount ?? 0;
+  }
+
+  async readWideSheet(): Promise<WideSheet | null> {
+    const columns = await this.pool.query<{ column_name: string }>(
+      "SELECT column_name FROM information_schema.columns WHERE table_name = 'sheet1' ORDER BY ordinal_position"
+    );
+    const dateColumn = columns.rows.find(row => row.column_name.toLowerCase() === 'date');
+    if (!dateColumn) return null;
+
+    const rows = await this.pool.query('SELECT * FROM sheet1');
+    return {
+      dateColumn: dateColumn.column_name,
+      indices: columns.rows.map(row => row.column_name).filter(name => name !== dateColumn.column_name),
+      rows: rows.rows
+    };
+  }
+
+  async loadRiskFreeRates(): Promise<RiskFreeRateRow[] | null> {
+    try {
+      const result = await this.pool.query<{ date: string; rate: string | number }>(
+        'SELECT date, rate FROM risk_free_rates ORDER BY date'
+      );
+      return result.rows.map(row => ({ date: row.date, rate: parseFloat(String(row.rate)) }));
+    } catch (err) {
+      // 42P01: the table hasn't been created yet
+      if ((err as { code?: string }).code === '42P01') return null;
+      throw err;
+    }
+  }
+
+  async upsertRiskFreeRates(rates: RiskFreeRateRow[]): Promise<void> {
+    await this.pool.query(
+      'CREATE TABLE IF NOT EXISTS risk_free_rates (date TEXT PRIMARY KEY, rate DOUBLE PRECISION NOT NULL)'
+    );
+    await this.pool.query(
+      'INSERT INTO risk_free_rates (date, rate) SELECT d, r FROM unnest($1::text[], $2::float8[]) AS t(d, r) ' +
+      'ON CONFLICT (date) DO UPDATE SET rate = EXCLUDED.rate',
+      [rates.map(row => row.date), rates.map(row => row.rate)]
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Data access for the API routes. Every route reads index prices and risk-free rates
+ * through an IndexRepository, so the server runs the same way on a local SQLite file
+ * and on the production Postgres database.
+ *
+ * Prices are stored in long format: an `indices` table with one row per index and an
+ * `index_prices(index_id, date, close, open, high, low, volume)` table keyed on index and
+ * date, with dates as YYYY-MM-DD text so they sort and compare as strings. Only the close
+ * is required; most of the history predates the sources that provide the rest. Each
+ * `indices` row also holds the index's catalogue entry: display name, symbol, provider,
+ * category, base and variant. Intraday prices recorded from the live market stream go in
+ * `index_ticks(index_id, time, price)` and are kept for a few sessions only.
+ */
+import type { IndexInfo } from '../../src/shared/api';
+
+export interface RiskFreeRateRow {
+  date: string;
+  rate: number;
+}
+
+/** Closing price of an index on a trading day */
+export interface IndexPrice {
+  index: string;
+  date: string;
+  close: number;
+}
+
+/**
+ * Prices of an index on a trading day. Only the close is required; open, high, low and
+ * volume are null where unknown.
+ */
+export interface PriceRow {
+  date: string;
+  close: number;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  volume?: number | null;
+}
+
+/** Intraday price of an index, at an instant given as an ISO-8601 UTC timestamp */
+export interface TickRow {
+  time: string;
+  price: number;
+}
+
+/** Inclusive ISO-8601 bounds on the instants to load; the end may be left open */
+export interface TimeRange {
+  from: string;
+  to?: string | null;
+}
+
+/** Inclusive YYYY-MM-DD bounds on the dates to load; either end may be left open */
+export interface DateRange {
+  from?: string | null;
+  to?: string | null;
+}
+
+/** Contents of the legacy wide Sheet1 table: a date column and one column per index */
+export interface WideSheet {
+  dateColumn: string;
+  indices: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface IndexRepository {
+  /** Which backend the repository reads from, for logging */
+  readonly kind: 'postgres' | 'sqlite';
+
+  /** Checks the database can be reached */
+  ping(): Promise<void>;
+
+  /** Creates the indices, index_prices and index_ticks tables if they don't exist */
+  ensureSchema(): Promise<void>;
+
+  /** Index names in the order they were added */
+  listIndices(): Promise<string[]>;
+
+  /** Catalogue entries of all indices in the order they were added */
+  listCatalogue(): Promise<IndexInfo[]>;
+
+  /** Names of indices that were added without a catalogue entry */
+  listUncataloguedIndices(): Promise<string[]>;
+
+  /** Adds an index with its catalogue entry if it isn't already listed */
+  addIndex(info: IndexInfo): Promise<void>;
+
+  /** Replaces the catalogue entry of an index */
+  updateIndexInfo(info: IndexInfo): Promise<void>;
+
+  /**
+   * Inserts prices for an index, replacing the close of dates that are already stored.
+   * Open, high, low and volume are only replaced when the new row has them.
+   */
+  upsertPrices(index: string, prices: PriceRow[]): Promise<void>;
+
+  /** Prices of every index within the range, sorted by date */
+  loadPrices(range?: DateRange): Promise<IndexPrice[]>;
+
+  /** Prices of one index within the range, sorted by date */
+  loadIndexPrices(index: string, range?: DateRange): Promise<PriceRow[]>;
+
+  /** Stores intraday prices of an index, keeping prices already stored for an instant */
+  insertTicks(index: string, ticks: TickRow[]): Promise<void>;
+
+  /** Intraday prices of one index within the range, sorted by time */
+  loadTicks(index: string, range: TimeRange): Promise<TickRow[]>;
+
+  /** Deletes the intraday prices of every index from before an instant */
+  deleteTicksBefore(time: string): Promise<number>;
+
+  /** The legacy Sheet1 table, or null when it doesn't exist */
+  readWideSheet(): Promise<WideSheet | null>;
+
+  /** Risk-free rates sorted by date, or null without a risk_free_rates table */
+  loadRiskFreeRates(): Promise<RiskFreeRateRow[] | null>;
+
+  /**
+   * Stores risk-free rates, creating the risk_free_rates table if it doesn't exist and
+   * replacing the rate of dates that are already stored
+   */
+  upsertRiskFreeRates(rates: RiskFreeRateRow[]): Promise<void>;
+
+  close(): Promise<void>;
+}
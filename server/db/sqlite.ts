@@ -0,0 +1,248 @@
+import Database from 'better-sqlite3';
+import type { IndexInfo } from '../../src/shared/api';
+import type {
+  DateRange,
+  IndexPrice,
+  IndexRepository,
+  PriceRow,
+  RiskFreeRateRow,
+  TickRow,
+  TimeRange,
+  WideSheet
+} from './repository';
+
+// Catalogue columns of the indices table, added to tables created before they existed
+const CATALOGUE_COLUMNS: [string, string][] = [
+  ['display_name', 'TEXT'],
+  ['symbol', 'TEXT'],
+  ['provider', "TEXT NOT NULL DEFAULT 'Other'"],
+  ['category', "TEXT NOT NULL DEFAULT 'broad'"],
+  ['base_value', 'REAL'],
+  ['base_date', 'TEXT'],
+  ['currency', "TEXT NOT NULL DEFAULT 'INR'"],
+  ['variant', "TEXT NOT NULL DEFAULT 'PRI'"]
+];
+
+// Session columns of the index_prices table besides the close, all optional
+const PRICE_COLUMNS: [string, string][] = [
+  ['open', 'REAL'],
+  ['high', 'REAL'],
+  ['low', 'REAL'],
+  ['volume', 'REAL']
+];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS indices (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    ${CATALOGUE_COLUMNS.map(([column, type]) => `${column} ${type}`).join(',\n    ')}
+  );
+  CREATE TABLE IF NOT EXISTS index_prices (
+    index_id INTEGER NOT NULL REFERENCES indices(id),
+    date TEXT NOT NULL,
+    close REAL NOT NULL,
+    ${PRICE_COLUMNS.map(([column, type]) => `${column} ${type}`).join(',\n    ')},
+    PRIMARY KEY (index_id, date)
+  );
+  CREATE INDEX IF NOT EXISTS index_prices_date ON index_prices(date);
+  CREATE TABLE IF NOT EXISTS index_ticks (
+    index_id INTEGER NOT NULL REFERENCES indices(id),
+    time TEXT NOT NULL,
+    price REAL NOT NULL,
+    PRIMARY KEY (index_id, time)
+  );
+`;
+
+const CATALOGUE_SELECT = `
+  SELECT name, COALESCE(display_name, name) AS displayName, symbol, provider, category,
+    base_value AS baseValue, base_date AS baseDate, currency, variant
+  FROM indices`;
+
+/**
+ * Builds the date conditions and parameters for a range filter
+ */
+function rangeFilter(range: DateRange): { sql: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (range.from) {
+    conditions.push('p.date >= ?');
+    params.push(range.from);
+  }
+  if (range.to) {
+    conditions.push('p.date <= ?');
+    params.push(range.to);
+  }
+  return { sql: conditions.map(condition => ` AND ${condition}`).join(''), params };
+}
+
+/**
+ * Reads and writes prices in a local SQLite file such as database.db, the source
+ * migrate-to-postgres.js copies into Postgres
+ */
+export class SqliteRepository implements IndexRepository {
+  readonly kind = 'sqlite';
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename, { fileMustExist: true });
+  }
+
+  async ping(): Promise<void> {
+    this.db.prepare('SELECT 1').get();
+  }
+
+  async ensureSchema(): Promise<void> {
+    this.db.exec(SCHEMA);
+    this.addMissingColumns('indices', CATALOGUE_COLUMNS);
+    this.addMissingColumns('index_prices', PRICE_COLUMNS);
+  }
+
+  private addMissingColumns(table: string, columns: [string, string][]): void {
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name)
+    );
+    columns
+      .filter(([column]) => !existing.has(column))
+      .forEach(([column, type]) => this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`));
+  }
+
+  async listIndices(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT name FROM indices ORDER BY id').all() as { name: string }[];
+    return rows.map(row => row.name);
+  }
+
+  async listCatalogue(): Promise<IndexInfo[]> {
+    return this.db.prepare(`${CATALOGUE_SELECT} ORDER BY id`).all() as IndexInfo[];
+  }
+
+  async listUncataloguedIndices(): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT name FROM indices WHERE display_name IS NULL ORDER BY id')
+      .all() as { name: string }[];
+    return rows.map(row => row.name);
+  }
+
+  async addIndex(info: IndexInfo): Promise<void> {
+    this.db
+      .prepare(
+        'INSERT INTO indices (name, display_name, symbol, provider, category, base_value, base_date, currency, variant) ' +
+        'VALUES (@name, @displayName, @symbol, @provider, @category, @baseValue, @baseDate, @currency, @variant) ' +
+        'ON CONFLICT (name) DO NOTHING'
+      )
+      .run(info);
+  }
+
+  async updateIndexInfo(info: IndexInfo): Promise<void> {
+    this.db
+      .prepare(
+        'UPDATE indices SET display_name = @displayName, symbol = @symbol, provider = @provider, ' +
+        'category = @category, base_value = @baseValue, base_date = @baseDate, currency = @currency, ' +
+        'variant = @variant WHERE name = @name'
+      )
+      .run(info);
+  }
+
+  async upsertPrices(index: string, prices: PriceRow[]): Promise<void> {
+    const indexRow = this.db.prepare('SELECT id FROM indices WHERE name = ?').get(index) as { id: number } | undefined;
+    if (!indexRow) throw new Error(`Unknown index: ${index}`);
+
+    const insert = this.db.prepare(
+      'INSERT INTO index_prices (index_id, date, close, open, high, low, volume) VALUES (?, ?, ?, ?, ?, ?, ?) ' +
+      'ON CONFLICT (index_id, date) DO UPDATE SET close = excluded.close, ' +
+      'open = COALESCE(excluded.open, open), high = COALESCE(excluded.high, high), ' +
+      'low = COALESCE(excluded.low, low), volume = COALESCE(excluded.volume, volume)'
+    );
+    this.db.transaction((rows: PriceRow[]) => {
+      rows.forEach(row =>
+        insert.run(indexRow.id, row.date, row.close, row.open ?? null, row.high ?? null, row.low ?? null, row.volume ?? null)
+      );
+    })(prices);
+  }
+
+  async loadPrices(range: DateRange = {}): Promise<IndexPrice[]> {
+    const filter = rangeFilter(range);
+    return this.db
+      .prepare(
+        'SELECT i.name AS "index", p.date, p.close FROM index_prices p ' +
+        `JOIN indices i ON i.id = p.index_id WHERE 1 = 1${filter.sql} ORDER BY p.date, i.id`
+      )
+      .all(...filter.params) as IndexPrice[];
+  }
+
+  async loadIndexPrices(index: string, range: DateRange = {}): Promise<PriceRow[]> {
+    const filter = rangeFilter(range);
+    return this.db
+      .prepare(
+        'SELECT p.date, p.close, p.open, p.high, p.low, p.volume FROM index_prices p JOIN indices i ON i.id = p.index_id ' +
+        `WHERE i.name = ?${filter.sql} ORDER BY p.date`
+      )
+      .all(index, ...filter.params) as PriceRow[];
+  }
+
+  async insertTicks(index: string, ticks: TickRow[]): Promise<void> {
+    const indexRow = this.db.prepare('SELECT id FROM indices WHERE name = ?').get(index) as { id: number } | undefined;
+    if (!indexRow) throw new Error(`Unknown index: ${index}`);
+
+    const insert = this.db.prepare(
+      'INSERT INTO index_ticks (index_id, time, price) VALUES (?, ?, ?) ON CONFLICT (index_id, time) DO NOTHING'
+    );
+    this.db.transaction((rows: TickRow[]) => {
+      rows.forEach(row => insert.run(indexRow.id, row.time, row.price));
+    })(ticks);
+  }
+
+  async loadTicks(index: string, range: TimeRange): Promise<TickRow[]> {
+    // Timestamps from toISOString all have the same length, so they compare as strings
+    return this.db
+      .prepare(
+        'SELECT t.time, t.price FROM index_ticks t JOIN indices i ON i.id = t.index_id ' +
+        'WHERE i.name = ? AND t.time >= ? AND t.time <= ? ORDER BY t.time'
+      )
+      .all(index, range.from, range.to || '9999') as TickRow[];
+  }
+
+  async deleteTicksBefore(time: string): Promise<number> {
+    return this.db.prepare('DELETE FROM index_ticks WHERE time < ?').run(time).changes;
+  }
+
+  async readWideSheet(): Promise<WideSheet | null> {
+    const columns = this.db.prepare('PRAGMA table_info(Sheet1)').all() as { name: string }[];
+    if (columns.length === 0) return null;
+
+    const dateColumn = columns.find(column => column.name.toLowerCase() === 'date');
+    if (!dateColumn) return null;
+
+    return {
+      dateColumn: dateColumn.name,
+      indices: columns.map(column => column.name).filter(name => name !== dateColumn.name),
+      rows: this.db.prepare('SELECT * FROM Sheet1').all() as Record<string, unknown>[]
+    };
+  }
+
+  async loadRiskFreeRates(): Promise<RiskFreeRateRow[] | null> {
+    const table = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'risk_free_rates'")
+      .get();
+    if (!table) return null;
+
+    const rows = this.db.prepare('SELECT date, rate FROM risk_free_rates ORDER BY date').all() as {
+      date: string;
+      rate: string | number;
+    }[];
+    return rows.map(row => ({ date: row.date, rate: parseFloat(String(row.rate)) }));
+  }
+
+  async upsertRiskFreeRates(rates: RiskFreeRateRow[]): Promise<void> {
+    this.db.exec('CREATE TABLE IF NOT EXISTS risk_free_rates (date TEXT PRIMARY KEY, rate REAL NOT NULL)');
+    const insert = this.db.prepare(
+      'INSERT INTO risk_free_rates (date, rate) VALUES (?, ?) ON CONFLICT (date) DO UPDATE SET rate = excluded.rate'
+    );
+    this.db.transaction((rows: RiskFreeRateRow[]) => {
+      rows.forEach(row => insert.run(row.date, row.rate));
+    })(rates);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Runs the end-of-day update once against the database the environment points at (see
+ * server/db/index.ts), with closes from the provider QUOTE_PROVIDER names.
+ *
+ * Usage: npm run eod -- [--backfill-days 30]
+ *
+ * Useful to backfill after the server was down for longer than its own catch-up covers.
+ */
+import { createRepository } from './db';
+import { runEodUpdate } from './eod/update';
+import { createQuoteProvider } from './quotes';
+
+function parseArgs(args: string[]): { backfillDays?: number } {
+  const i = args.indexOf('--backfill-days');
+  if (i === -1) return {};
+
+  const backfillDays = parseInt(args[i + 1], 10);
+  if (!(backfillDays > 0)) {
+    throw new Error('Usage: npm run eod -- [--backfill-days 30]');
+  }
+  return { backfillDays };
+}
+
+async function main() {
+  const { backfillDays } = parseArgs(process.argv.slice(2));
+  const provider = createQuoteProvider();
+
+  const repository = createRepository();
+  try {
+    await repository.ensureSchema();
+    const result = await runEodUpdate(repository, provider, { backfillDays });
+    console.log(`End-of-day update from ${result.provider}`);
+    result.indices.forEach(index => {
+      if (index.error !== null) {
+        console.log(`  ${index.index} (${index.symbol}): failed, ${index.error}`);
+      } else if (index.fromDate === null) {
+        console.log(`  ${index.index} (${index.symbol}): up to date to ${index.toDate}`);
+      } else {
+        console.log(`  ${index.index} (${index.symbol}): saved ${index.saved} prices, ${index.fromDate} to ${index.toDate}`);
+      }
+    });
+    console.log(`Saved ${result.saved} prices; ${result.failed.length} indices failed`);
+    if (result.failed.length > 0) process.exitCode = 1;
+  } finally {
+    await repository.close();
+  }
+}
+
+main().catch(err => {
+  console.error('End-of-day update failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+/**
+ * Runs the end-of-day update on a cron schedule in IST, with one-off retries when
+ * indices fail.
+ */
+import schedule from 'node-schedule';
+import { MARKET_TIME_ZONE } from '../../src/shared/dates';
+import type { IndexRepository } from '../db/repository';
+import type { QuoteProvider } from '../quotes';
+import { runEodUpdate, type EodUpdateOptions, type EodUpdateResult } from './update';
+
+export interface EodScheduleOptions extends EodUpdateOptions {
+  // Cron rule in IST; weekdays at 18:00 by default
+  rule?: string;
+  // Minutes to wait before rerunning after indices failed
+  retryMinutes?: number;
+  // Reruns after a failed scheduled run
+  maxRetries?: number;
+  // Called after a run that saved prices
+  onUpdated?: (result: EodUpdateResult) => void;
+}
+
+export interface EodSchedule {
+  job: schedule.Job;
+  // Runs the update now, unless one is already running
+  run: () => Promise<EodUpdateResult | null>;
+}
+
+export const DEFAULT_EOD_RULE = '0 18 * * 1-5';
+
+/**
+ * Schedules end-of-day updates
+ * @param repository Repository to write prices to
+ * @param provider Source of the closes
+ * @param options Schedule, retry and update settings
+ * @returns The scheduled job, and a function to run the update outside the schedule
+ */
+export function scheduleEodUpdates(
+  repository: IndexRepository,
+  provider: QuoteProvider,
+  options: EodScheduleOptions = {}
+): EodSchedule {
+  const { rule = DEFAULT_EOD_RULE, retryMinutes = 30, maxRetries = 3, onUpdated, ...updateOptions } = options;
+  let running = false;
+
+  const run = async (): Promise<EodUpdateResult | null> => {
+    if (running) return null;
+    running = true;
+    try {
+      const result = await runEodUpdate(repository, provider, updateOptions);
+      console.log(`End-of-day update from ${result.provider}: saved ${result.saved} prices`);
+      result.indices
+        .filter(index => index.error !== null)
+        .forEach(index => console.error(`End-of-day update failed for ${index.index} (${index.symbol}): ${index.error}`));
+      if (result.saved > 0) onUpdated?.(result);
+      return result;
+    } catch (err) {
+      console.error('End-of-day update failed:', err);
+      return null;
+    } finally {
+      running = false;
+    }
+  };
+
+  // The next run fills in whatever a failed one missed, but retrying sooner keeps
+  // the latest session from being a day behind
+  const runWithRetries = async (retry = 0) => {
+    const result = await run();
+    const failed = result === null || result.failed.length > 0;
+    if (failed && retry < maxRetries) {
+      schedule.scheduleJob(new Date(Date.now() + retryMinutes * 60 * 1000), () => runWithRetries(retry + 1));
+    }
+  };
+
+  const job = schedule.scheduleJob({ rule, tz: MARKET_TIME_ZONE }, () => runWithRetries());
+  return { job, run };
+}
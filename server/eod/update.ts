@@ -0,0 +1,170 @@
+/**
+ * End-of-day price updates: saves the daily closes of every index with a quote symbol
+ * into index_prices.
+ *
+ * Each run fills in every completed session since the index's last stored price, up to
+ * a backfill limit, so a failed or missed run is made up by the next one. Fetches are
+ * retried with exponential backoff, and an index that still fails doesn't stop the rest.
+ */
+import { addDays, marketDateOf, marketMinutesOf, parseIsoDate, toIsoDate } from '../../src/shared/dates';
+import {
+  exchangeForProvider,
+  getTradingCalendar,
+  isTradingDay,
+  nextTradingDay,
+  tradingDayOnOrAfter,
+  tradingDayOnOrBefore,
+  type TradingCalendar
+} from '../../src/shared/tradingCalendar';
+import type { IndexInfo } from '../../src/shared/api';
+import { storedNamesBySymbol } from '../db/catalogue';
+import type { IndexRepository } from '../db/repository';
+import type { QuoteProvider } from '../quotes';
+
+export interface EodUpdateOptions {
+  // Time the run is for, now by default
+  now?: Date;
+  // Calendar days to look back for an index without recent prices
+  backfillDays?: number;
+  // Attempts per index before giving up until the next run
+  attempts?: number;
+  // Wait before the first retry, doubled for each one after it
+  retryDelayMs?: number;
+}
+
+export interface EodIndexResult {
+  index: string;
+  symbol: string;
+  fromDate: string | null;
+  toDate: string;
+  saved: number;
+  error: string | null;
+}
+
+export interface EodUpdateResult {
+  provider: string;
+  indices: EodIndexResult[];
+  saved: number;
+  failed: string[];
+}
+
+// Closing prices are final a little after the 15:30 IST close
+const SESSION_FINAL_MINUTES = 16 * 60;
+
+const DEFAULT_OPTIONS = {
+  backfillDays: 30,
+  attempts: 3,
+  retryDelayMs: 5000
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Finds the latest session whose closing prices are final
+ * @param now Current time
+ * @param calendar Exchange calendar
+ * @returns Today once prices are final on a trading day, otherwise the previous trading day
+ */
+export function lastCompletedSession(now: Date, calendar: TradingCalendar = getTradingCalendar()): Date {
+  const today = marketDateOf(now);
+  return marketMinutesOf(now) >= SESSION_FINAL_MINUTES
+    ? tradingDayOnOrBefore(today, calendar)
+    : tradingDayOnOrBefore(addDays(today, -1), calendar);
+}
+
+/**
+ * Calls a function until it succeeds, waiting longer after each failure
+ */
+async function withRetry<T>(fn: () => Promise<T>, attempts: number, delayMs: number): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= attempts) throw err;
+      await sleep(delayMs * 2 ** (attempt - 1));
+    }
+  }
+}
+
+/**
+ * Saves the closes of one index from its last stored price up to the latest completed session
+ */
+async function updateIndex(
+  repository: IndexRepository,
+  provider: QuoteProvider,
+  info: IndexInfo & { symbol: string },
+  now: Date,
+  options: typeof DEFAULT_OPTIONS
+): Promise<EodIndexResult> {
+  const calendar = getTradingCalendar(exchangeForProvider(info.provider));
+  const session = lastCompletedSession(now, calendar);
+  const toDate = toIsoDate(session);
+  const earliest = addDays(session, -options.backfillDays);
+
+  const stored = await repository.loadIndexPrices(info.name, { from: toIsoDate(earliest) });
+  const lastStored = stored.length > 0 ? parseIsoDate(stored[stored.length - 1].date) : null;
+  const from = lastStored ? nextTradingDay(lastStored, calendar) : tradingDayOnOrAfter(earliest, calendar);
+  if (from > session) {
+    return { index: info.name, symbol: info.symbol, fromDate: null, toDate, saved: 0, error: null };
+  }
+
+  const fromDate = toIsoDate(from);
+  try {
+    const closes = await withRetry(
+      () => provider.getDailyCloses(info.symbol, { from: fromDate, to: toDate }),
+      options.attempts,
+      options.retryDelayMs
+    );
+    // Providers sometimes return a bar for a holiday, repeating the previous close
+    const rows = closes.filter(row => {
+      const date = parseIsoDate(row.date);
+      return date !== null && isTradingDay(date, calendar);
+    });
+    if (rows.length > 0) {
+      await repository.upsertPrices(info.name, rows);
+    }
+    return { index: info.name, symbol: info.symbol, fromDate, toDate, saved: rows.length, error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { index: info.name, symbol: info.symbol, fromDate, toDate, saved: 0, error };
+  }
+}
+
+/**
+ * Saves the latest daily closes of every index with a quote symbol
+ * @param repository Repository to write prices to
+ * @param provider Source of the closes
+ * @param options Run time, backfill limit and retry settings
+ * @returns What was saved for each index, and which indices failed
+ */
+export async function runEodUpdate(
+  repository: IndexRepository,
+  provider: QuoteProvider,
+  options: EodUpdateOptions = {}
+): Promise<EodUpdateResult> {
+  const settings = {
+    backfillDays: options.backfillDays ?? DEFAULT_OPTIONS.backfillDays,
+    attempts: options.attempts ?? DEFAULT_OPTIONS.attempts,
+    retryDelayMs: options.retryDelayMs ?? DEFAULT_OPTIONS.retryDelayMs
+  };
+  const now = options.now ?? new Date();
+
+  // Indices stored under two names for one symbol get the closes once, under one name
+  const catalogue = await repository.listCatalogue();
+  const names = storedNamesBySymbol(catalogue);
+  const quoted = catalogue.filter(
+    (info): info is IndexInfo & { symbol: string } => info.symbol !== null && names.get(info.symbol) === info.name
+  );
+
+  const indices: EodIndexResult[] = [];
+  for (const info of quoted) {
+    indices.push(await updateIndex(repository, provider, info, now, settings));
+  }
+
+  return {
+    provider: provider.name,
+    indices,
+    saved: indices.reduce((sum, result) => sum + result.saved, 0),
+    failed: indices.filter(result => result.error !== null).map(result => result.index)
+  };
+}
@@ -0,0 +1,13 @@
+import { app, repository } from './app';
+
+const PORT = process.env.PORT || 3001;
+
+// Start the server
+app.listen(PORT, () => {
+  console.log(`Server running on port ${PORT}`);
+});
+
+// Close database connections on exit
+process.on('SIGINT', () => {
+  repository.close().finally(() => process.exit(0));
+});
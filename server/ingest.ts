@@ -0,0 +1,89 @@
+/**
+ * Loads a CSV or XLSX file of index history into the database the environment points at
+ * (see server/db/index.ts) and prints what changed.
+ *
+ * Usage: npm run ingest -- <file> [--index "NIFTY 50"] [--dry-run]
+ *
+ * --index names the index when the file has no Index Name column, and --dry-run reports
+ * what would change without writing anything. A running server picks up the new prices
+ * within five minutes, when its price table is next refreshed.
+ */
+import fs from 'fs';
+import path from 'path';
+import { createRepository } from './db';
+import { IngestError, ingestPrices } from './ingestion/ingest';
+import type { IngestReport } from '../src/shared/api';
+
+function parseArgs(args: string[]): { file: string; index?: string; dryRun: boolean } {
+  let file: string | undefined;
+  let index: string | undefined;
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dry-run') {
+      dryRun = true;
+    } else if (args[i] === '--index') {
+      index = args[++i];
+    } else if (!file) {
+      file = args[i];
+    }
+  }
+
+  if (!file || (index !== undefined && !index.trim())) {
+    throw new IngestError('Usage: npm run ingest -- <file> [--index "NIFTY 50"] [--dry-run]');
+  }
+  return { file, index: index?.trim(), dryRun };
+}
+
+function printReport(report: IngestReport) {
+  console.log(`${report.dryRun ? 'Dry run of' : 'Ingested'} ${report.format.toUpperCase()} file`);
+
+  report.indices.forEach(index => {
+    console.log(`\n${index.index}${index.newIndex ? ' (new index)' : ''}: ${index.fromDate} to ${index.toDate}`);
+    console.log(`  ${index.rows} rows: ${index.inserted} inserted, ${index.updated.length} updated, ${index.unchanged} unchanged`);
+    index.updated.forEach(change => {
+      console.log(`  updated ${change.date}: ${change.previousClose} -> ${change.close}`);
+    });
+    index.duplicates.forEach(duplicate => {
+      const kind = duplicate.conflicting ? 'conflicting duplicate' : 'duplicate';
+      console.log(`  ${kind} ${duplicate.date} on rows ${duplicate.rows.join(', ')}; kept row ${duplicate.rows[0]}`);
+    });
+    index.gaps.forEach(gap => {
+      console.log(`  gap of ${gap.tradingDays} trading day${gap.tradingDays > 1 ? 's' : ''}: ${gap.fromDate} to ${gap.toDate}`);
+    });
+    if (index.nonTradingDays.length > 0) {
+      console.log(`  prices on non-trading days: ${index.nonTradingDays.join(', ')}`);
+    }
+    const returns = Object.entries(index.returns)
+      .map(([window, value]) => `${window} ${value === null ? 'n/a' : `${value}%`}`)
+      .join(', ');
+    console.log(`  latest returns: ${returns}`);
+  });
+
+  if (report.rejectedRows.length > 0) {
+    console.log(`\nRejected ${report.rejectedRows.length} rows:`);
+    report.rejectedRows.forEach(rejected => console.log(`  row ${rejected.row}: ${rejected.message}`));
+  }
+}
+
+async function main() {
+  const { file, index, dryRun } = parseArgs(process.argv.slice(2));
+  const content = fs.readFileSync(path.resolve(file));
+
+  const repository = createRepository();
+  try {
+    const report = await ingestPrices(repository, content, { index, dryRun });
+    printReport(report);
+  } finally {
+    await repository.close();
+  }
+}
+
+main().catch(err => {
+  if (err instanceof IngestError) {
+    console.error(err.message);
+  } else {
+    console.error('Ingestion failed:', err);
+  }
+  process.exit(1);
+});
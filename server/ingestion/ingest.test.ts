@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteRepository } from '../db/sqlite';
+import { IngestError, ingestPrices, parseSheetDate } from './ingest';
+
+describe('parseSheetDate', () => {
+  it('reads the date formats of NSE files', () => {
+    expect(parseSheetDate('05-Jan-2024')).toBe('2024-01-05');
+    expect(parseSheetDate('5 January 2024')).toBe('2024-01-05');
+    expect(parseSheetDate('05-01-2024')).toBe('2024-01-05');
+    expect(parseSheetDate('5/1/2024')).toBe('2024-01-05');
+    expect(parseSheetDate('2024-01-05T00:00:00')).toBe('2024-01-05');
+    expect(parseSheetDate(new Date(Date.UTC(2024, 0, 5)))).toBe('2024-01-05');
+  });
+
+  it('rejects dates that do not exist or are not dates', () => {
+    expect(parseSheetDate('31-Feb-2024')).toBeNull();
+    expect(parseSheetDate('05-Foo-2024')).toBeNull();
+    expect(parseSheetDate('13/13/2024')).toBeNull();
+    expect(parseSheetDate('Jan 5, 2024')).toBeNull();
+    expect(parseSheetDate(45296)).toBeNull();
+    expect(parseSheetDate(new Date(NaN))).toBeNull();
+  });
+});
+
+describe('ingestPrices', () => {
+  let dir: string;
+  let repository: SqliteRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circle-wealth-'));
+    const filename = path.join(dir, 'test.db');
+    fs.writeFileSync(filename, '');
+    repository = new SqliteRepository(filename);
+  });
+
+  afterEach(async () => {
+    await repository.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // NSE was shut for Holi on 25 March 2024 and for Good Friday on the 29th
+  const csv = [
+    'Index Name,Date,Close',
+    'NIFTY 50,20-Mar-2024,"22,000.50"',
+    'NIFTY 50,21-Mar-2024,22100',
+    'NIFTY 50,21-Mar-2024,22150',
+    'NIFTY 50,22-Mar-2024,22200',
+    'NIFTY 50,22-Mar-2024,22200',
+    'NIFTY 50,26-Mar-2024,22300',
+    'NIFTY 50,28-Mar-2024,22400',
+    'NIFTY 50,31-Mar-2024,22400',
+    'NIFTY 50,not a date,22500',
+    'NIFTY 50,01-Apr-2024,-1',
+    ',02-Apr-2024,22500'
+  ].join('\n');
+
+  it('reports duplicates, gaps and rejected rows', async () => {
+    const report = await ingestPrices(repository, Buffer.from(csv));
+
+    expect(report.rejectedRows).toEqual([
+      { row: 10, message: 'Invalid date: not a date' },
+      { row: 11, message: 'Invalid close: -1' },
+      { row: 12, message: 'Missing index name' }
+    ]);
+    const [nifty] = report.indices;
+    expect(nifty).toMatchObject({
+      index: 'NIFTY 50',
+      newIndex: true,
+      fromDate: '2024-03-20',
+      toDate: '2024-03-31',
+      rows: 8,
+      inserted: 6,
+      duplicates: [
+        { date: '2024-03-21', rows: [3, 4], conflicting: true },
+        { date: '2024-03-22', rows: [5, 6], conflicting: false }
+      ],
+      gaps: [{ fromDate: '2024-03-27', toDate: '2024-03-27', tradingDays: 1 }],
+      nonTradingDays: ['2024-03-31']
+    });
+
+    // The first of the duplicated rows is the one kept
+    const stored = await repository.loadIndexPrices('NIFTY 50');
+    expect(stored.map(price => [price.date, price.close])).toEqual([
+      ['2024-03-20', 22000.5],
+      ['2024-03-21', 22100],
+      ['2024-03-22', 22200],
+      ['2024-03-26', 22300],
+      ['2024-03-28', 22400],
+      ['2024-03-31', 22400]
+    ]);
+  });
+
+  it('compares a second file with the stored history', async () => {
+    await ingestPrices(repository, Buffer.from(csv));
+    const update = 'Date,Close\n2024-03-22,22250\n2024-03-26,22300\n2024-04-02,22600\n';
+    const report = await ingestPrices(repository, Buffer.from(update), { index: 'NIFTY 50', dryRun: true });
+
+    expect(report.indices[0]).toMatchObject({
+      newIndex: false,
+      inserted: 1,
+      updated: [{ date: '2024-03-22', previousClose: 22200, close: 22250 }],
+      unchanged: 1,
+      // Gaps are checked from the last stored price before the file, 21 March
+      gaps: [
+        { fromDate: '2024-03-27', toDate: '2024-03-27', tradingDays: 1 },
+        { fromDate: '2024-04-01', toDate: '2024-04-01', tradingDays: 1 }
+      ]
+    });
+    expect(await repository.loadIndexPrices('NIFTY 50')).toHaveLength(6);
+  });
+
+  it('rejects files without the columns it needs', async () => {
+    await expect(ingestPrices(repository, Buffer.from('Day,Value\n1,2\n'))).rejects.toThrow(
+      new IngestError('The file is missing the Date and Close columns')
+    );
+    await expect(ingestPrices(repository, Buffer.from('Date,Close\n2024-01-05,100\n'))).rejects.toThrow(
+      'The file has no Index Name column, so the index must be named'
+    );
+    await expect(ingestPrices(repository, Buffer.from('Date,Close\n'))).rejects.toThrow('The file has no data rows');
+  });
+});
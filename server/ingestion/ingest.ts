@@ -0,0 +1,337 @@
+/**
+ * Ingestion of index history from NSE-style CSV or XLSX files, for the admin endpoint
+ * and `npm run ingest`.
+ *
+ * A file needs a date column and a close column, and either an index name column or an
+ * index named by the caller. Open, high, low and volume columns are read when present.
+ * Rows with bad dates or prices are rejected one by one; the rest are compared with the
+ * stored history, upserted, and reported with duplicates, gaps against the exchange
+ * calendar, and the latest rolling returns once applied.
+ */
+import { marketToday, parseIsoDate, toIsoDate } from '../../src/shared/dates';
+import {
+  exchangeForProvider,
+  getTradingCalendar,
+  isTradingDay,
+  nextTradingDay,
+  tradingDayOnOrAfter,
+  type TradingCalendar
+} from '../../src/shared/tradingCalendar';
+import type {
+  IngestDuplicate,
+  IngestGap,
+  IngestIndexReport,
+  IngestPriceChange,
+  IngestRejectedRow,
+  IngestReport
+} from '../../src/shared/api';
+import { describeIndex } from '../db/catalogue';
+import type { IndexRepository, PriceRow } from '../db/repository';
+import {
+  DEFAULT_WINDOWS,
+  buildPriceTable,
+  computeRollingReturns,
+  latestReturns,
+  parsePrice,
+  parseWindow,
+  type RollingWindow
+} from '../rollingReturns';
+import { IngestError, readSheet, type Sheet } from './parse';
+
+export { IngestError };
+
+export interface IngestOptions {
+  // Index the file holds, required when it has no index name column
+  index?: string;
+  // Validate and report without writing anything
+  dryRun?: boolean;
+}
+
+interface ValidRow {
+  row: number;
+  index: string;
+  date: string;
+  close: number;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  volume: number | null;
+}
+
+const SESSION_FIELDS = ['open', 'high', 'low', 'volume'] as const;
+
+// Header names accepted for each column, compared lower-case with all but letters removed
+const COLUMN_NAMES = {
+  index: ['indexname', 'index'],
+  date: ['date', 'historicaldate', 'timestamp'],
+  close: ['close', 'closeprice', 'closingprice', 'closingindexvalue', 'closeindexvalue'],
+  open: ['open', 'openprice', 'openingindexvalue', 'openindexvalue'],
+  high: ['high', 'highprice', 'highindexvalue'],
+  low: ['low', 'lowprice', 'lowindexvalue'],
+  volume: ['volume', 'sharestraded', 'tradedvolume', 'totaltradedquantity']
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const RETURN_WINDOWS = DEFAULT_WINDOWS.map(label => parseWindow(label) as RollingWindow);
+
+/**
+ * Finds a column by any of its accepted header names
+ * @returns Position of the column, or -1 if the file doesn't have it
+ */
+function findColumn(headers: string[], names: string[]): number {
+  return headers.findIndex(header => names.includes(header.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+/**
+ * Parses a date cell as NSE files write them: 05-Jan-2024, 05 Jan 2024, 05-01-2024 (day
+ * first), YYYY-MM-DD, or a date-formatted Excel cell
+ * @returns The date as YYYY-MM-DD, or null if it isn't a valid date
+ */
+export function parseSheetDate(value: unknown): string | null {
+  // exceljs reads date cells as UTC midnight of the day shown
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (iso) return validDate(iso[1], iso[2], iso[3]);
+
+  const named = text.match(/^(\d{1,2})[- ]([A-Za-z]{3})[A-Za-z]*[- ](\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    return month > 0 ? validDate(named[3], String(month), named[1]) : null;
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (dayFirst) return validDate(dayFirst[3], dayFirst[2], dayFirst[1]);
+
+  return null;
+}
+
+function validDate(year: string, month: string, day: string): string | null {
+  const date = parseIsoDate(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`);
+  return date ? toIsoDate(date) : null;
+}
+
+/**
+ * Checks the columns of a sheet and turns its rows into prices, rejecting invalid rows
+ * @throws IngestError when the sheet is missing a required column
+ */
+function validateRows(sheet: Sheet, options: IngestOptions): { rows: ValidRow[]; rejected: IngestRejectedRow[] } {
+  if (sheet.rows.length === 0) {
+    throw new IngestError('The file has no data rows');
+  }
+
+  const dateColumn = findColumn(sheet.headers, COLUMN_NAMES.date);
+  const closeColumn = findColumn(sheet.headers, COLUMN_NAMES.close);
+  const indexColumn = findColumn(sheet.headers, COLUMN_NAMES.index);
+  const sessionColumns = SESSION_FIELDS.map(field => findColumn(sheet.headers, COLUMN_NAMES[field]));
+  const missing = [dateColumn === -1 && 'Date', closeColumn === -1 && 'Close'].filter(Boolean);
+  if (missing.length > 0) {
+    throw new IngestError(`The file is missing the ${missing.join(' and ')} column${missing.length > 1 ? 's' : ''}`);
+  }
+  if (!options.index && indexColumn === -1) {
+    throw new IngestError('The file has no Index Name column, so the index must be named');
+  }
+
+  const today = toIsoDate(marketToday());
+  const rows: ValidRow[] = [];
+  const rejected: IngestRejectedRow[] = [];
+
+  sheet.rows.forEach(({ row, cells }) => {
+    const index = options.index || String(cells[indexColumn] ?? '').trim();
+    const date = parseSheetDate(cells[dateColumn]);
+    const close = parsePrice(cells[closeColumn]);
+    // Session values are optional, so a bad one is dropped rather than rejecting the row
+    const [open, high, low, volume] = sessionColumns.map((column, i) => {
+      const value = column === -1 ? null : parsePrice(cells[column]);
+      const valid = value !== null && (SESSION_FIELDS[i] === 'volume' ? value >= 0 : value > 0);
+      return valid ? value : null;
+    });
+
+    if (!index) {
+      rejected.push({ row, message: 'Missing index name' });
+    } else if (!date) {
+      rejected.push({ row, message: `Invalid date: ${String(cells[dateColumn] ?? '')}` });
+    } else if (date > today) {
+      rejected.push({ row, message: `Date is in the future: ${date}` });
+    } else if (close === null || close <= 0) {
+      rejected.push({ row, message: `Invalid close: ${String(cells[closeColumn] ?? '')}` });
+    } else {
+      rows.push({ row, index, date, close, open, high, low, volume });
+    }
+  });
+
+  return { rows, rejected };
+}
+
+/**
+ * Keeps the first row for each date, listing the dates that appear more than once
+ */
+function removeDuplicates(rows: ValidRow[]): { unique: ValidRow[]; duplicates: IngestDuplicate[] } {
+  const byDate = new Map<string, ValidRow[]>();
+  rows.forEach(row => {
+    const sameDate = byDate.get(row.date);
+    if (sameDate) {
+      sameDate.push(row);
+    } else {
+      byDate.set(row.date, [row]);
+    }
+  });
+
+  const unique: ValidRow[] = [];
+  const duplicates: IngestDuplicate[] = [];
+  byDate.forEach((sameDate, date) => {
+    unique.push(sameDate[0]);
+    if (sameDate.length > 1) {
+      duplicates.push({
+        date,
+        rows: sameDate.map(row => row.row),
+        conflicting: sameDate.some(row => row.close !== sameDate[0].close)
+      });
+    }
+  });
+
+  return { unique: unique.sort((a, b) => a.date.localeCompare(b.date)), duplicates };
+}
+
+/**
+ * Finds runs of trading days between two dates that have no price
+ */
+function findGaps(fromDate: string, toDate: string, priced: Set<string>, calendar: TradingCalendar): IngestGap[] {
+  const end = parseIsoDate(toDate) as Date;
+  const gaps: IngestGap[] = [];
+  let current: IngestGap | null = null;
+
+  for (let day = tradingDayOnOrAfter(parseIsoDate(fromDate) as Date, calendar); day <= end; day = nextTradingDay(day, calendar)) {
+    const date = toIsoDate(day);
+    if (priced.has(date)) {
+      current = null;
+    } else if (current) {
+      current.toDate = date;
+      current.tradingDays++;
+    } else {
+      current = { fromDate: date, toDate: date, tradingDays: 1 };
+      gaps.push(current);
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Compares the rows of one index with its stored history and applies them
+ */
+async function ingestIndex(
+  repository: IndexRepository,
+  index: string,
+  rows: ValidRow[],
+  knownIndices: string[],
+  dryRun: boolean
+): Promise<IngestIndexReport> {
+  const newIndex = !knownIndices.includes(index);
+  const stored = newIndex ? [] : await repository.loadIndexPrices(index);
+  const history = new Map(stored.map(price => [price.date, price.close]));
+  const storedRows = new Map(stored.map(price => [price.date, price]));
+
+  const { unique, duplicates } = removeDuplicates(rows);
+  const changes: PriceRow[] = [];
+  const updated: IngestPriceChange[] = [];
+  let inserted = 0;
+
+  unique.forEach(row => {
+    const { date, close } = row;
+    const previousClose = history.get(date);
+    // Only session values the file has can change, since missing ones are kept on upsert
+    const previous = storedRows.get(date);
+    const sessionChanged = SESSION_FIELDS.some(field => row[field] !== null && row[field] !== (previous?.[field] ?? null));
+
+    if (previousClose === undefined) {
+      inserted++;
+    } else if (previousClose !== close || sessionChanged) {
+      updated.push({ date, previousClose, close });
+    } else {
+      return;
+    }
+    changes.push({ date, close, open: row.open, high: row.high, low: row.low, volume: row.volume });
+    history.set(date, close);
+  });
+
+  const info = describeIndex(index);
+  const calendar = getTradingCalendar(exchangeForProvider(info.provider));
+  const fromDate = unique[0].date;
+  const toDate = unique[unique.length - 1].date;
+  // Check for gaps from the last stored price before the file, so a missed week shows up
+  const lastStoredBefore = stored.filter(price => price.date < fromDate).pop();
+
+  if (!dryRun && changes.length > 0) {
+    if (newIndex) await repository.addIndex(info);
+    await repository.upsertPrices(index, changes);
+  }
+
+  // Returns are computed on demand from the prices, so recomputing them is a matter of
+  // running the rolling returns over the history as it stands after the upload
+  const table = buildPriceTable(
+    Array.from(history, ([date, close]) => ({ index, date, close })),
+    [index]
+  );
+  const returns: Record<string, number | null> = {};
+  RETURN_WINDOWS.forEach(window => {
+    returns[window.label] = latestReturns(computeRollingReturns(table, [index], window, {}, calendar))[index];
+  });
+
+  return {
+    index,
+    newIndex,
+    fromDate,
+    toDate,
+    rows: rows.length,
+    inserted,
+    updated,
+    unchanged: unique.length - changes.length,
+    duplicates,
+    gaps: findGaps(lastStoredBefore?.date ?? fromDate, toDate, new Set(history.keys()), calendar),
+    nonTradingDays: unique.filter(row => !isTradingDay(parseIsoDate(row.date) as Date, calendar)).map(row => row.date),
+    returns
+  };
+}
+
+/**
+ * Validates a CSV or XLSX file of index history and upserts it into the prices store
+ * @param repository Repository to write prices to
+ * @param content File contents
+ * @param options Index the file holds, and whether to only report what would change
+ * @returns What was read, rejected and changed for each index in the file
+ * @throws IngestError when the file can't be ingested at all
+ */
+export async function ingestPrices(
+  repository: IndexRepository,
+  content: Buffer,
+  options: IngestOptions = {}
+): Promise<IngestReport> {
+  const sheet = await readSheet(content);
+  const { rows, rejected } = validateRows(sheet, options);
+  const dryRun = options.dryRun ?? false;
+
+  const byIndex = new Map<string, ValidRow[]>();
+  rows.forEach(row => {
+    const indexRows = byIndex.get(row.index);
+    if (indexRows) {
+      indexRows.push(row);
+    } else {
+      byIndex.set(row.index, [row]);
+    }
+  });
+
+  await repository.ensureSchema();
+  const knownIndices = await repository.listIndices();
+  const indices: IngestIndexReport[] = [];
+  for (const [index, indexRows] of byIndex) {
+    indices.push(await ingestIndex(repository, index, indexRows, knownIndices, dryRun));
+  }
+
+  return { format: sheet.format, dryRun, indices, rejectedRows: rejected };
+}
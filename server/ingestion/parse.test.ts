@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { IngestError, detectFormat, readSheet } from './parse';
+
+describe('detectFormat', () => {
+  it('tells XLSX files by their zip header', () => {
+    expect(detectFormat(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14]))).toBe('xlsx');
+    expect(detectFormat(Buffer.from('Date,Close\n'))).toBe('csv');
+  });
+});
+
+describe('readSheet', () => {
+  it('reads quoted CSV cells with commas, quotes and line breaks', async () => {
+    const csv = '﻿Index Name,Date,Close\r\n"NIFTY 50","05-Jan-2024","21,710.80"\r\n"Say ""hi""",x,"two\nlines"\n';
+    const sheet = await readSheet(Buffer.from(csv));
+
+    expect(sheet.format).toBe('csv');
+    expect(sheet.headers).toEqual(['Index Name', 'Date', 'Close']);
+    expect(sheet.rows).toEqual([
+      { row: 2, cells: ['NIFTY 50', '05-Jan-2024', '21,710.80'] },
+      { row: 3, cells: ['Say "hi"', 'x', 'two\nlines'] }
+    ]);
+  });
+
+  it('skips blank lines but keeps the line numbers of the rows after them', async () => {
+    const sheet = await readSheet(Buffer.from('\nDate,Close\n\n,\n2024-01-05,100'));
+    expect(sheet.headers).toEqual(['Date', 'Close']);
+    expect(sheet.rows).toEqual([{ row: 5, cells: ['2024-01-05', '100'] }]);
+  });
+
+  it('rejects a zip archive that is not a workbook', async () => {
+    const content = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('not a workbook')]);
+    await expect(readSheet(content)).rejects.toThrow(new IngestError('The file is not a readable XLSX workbook'));
+  });
+});
@@ -0,0 +1,140 @@
+import ExcelJS from 'exceljs';
+
+export type SheetFormat = 'csv' | 'xlsx';
+
+/** A file that can't be ingested at all, e.g. one without a date column */
+export class IngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+/** A data row of an uploaded file, numbered as a spreadsheet shows it */
+export interface SheetRow {
+  row: number;
+  cells: unknown[];
+}
+
+/** The header and data rows of an uploaded file, with cells as strings, numbers or Dates */
+export interface Sheet {
+  format: SheetFormat;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+/**
+ * Tells CSV and XLSX files apart by content: XLSX files are zip archives
+ */
+export function detectFormat(content: Buffer): SheetFormat {
+  return content.length >= 4 && content.readUInt32LE(0) === 0x04034b50 ? 'xlsx' : 'csv';
+}
+
+/**
+ * Splits CSV text into rows of cells, allowing quoted cells with commas, quotes and line breaks
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Reads a CSV file; the first non-empty line is the header
+ */
+function readCsv(content: Buffer): Sheet {
+  const text = content.toString('utf8').replace(/^\uFEFF/, '');
+  const numbered = parseCsvRows(text)
+    .map((cells, i) => ({ row: i + 1, cells: cells.map(cell => cell.trim()) }))
+    .filter(line => line.cells.some(cell => cell !== ''));
+
+  const [header, ...rows] = numbered;
+  return { format: 'csv', headers: header ? header.cells : [], rows };
+}
+
+/**
+ * Reduces an Excel cell to a plain value: formulas to their result, rich text to its text
+ */
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== 'object') return value;
+  if ('result' in value) return cellValue(value.result as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return value.text;
+  return null;
+}
+
+/**
+ * Reads the first worksheet of an XLSX file; the first non-empty row is the header
+ * @throws IngestError when the file is a zip archive but not a workbook exceljs can read
+ */
+async function readXlsx(content: Buffer): Promise<Sheet> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content);
+  } catch {
+    throw new IngestError('The file is not a readable XLSX workbook');
+  }
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return { format: 'xlsx', headers: [], rows: [] };
+
+  const numbered: SheetRow[] = [];
+  worksheet.eachRow(row => {
+    // row.values is 1-based, with nothing at position 0
+    const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+    const cells = Array.from(values, value => {
+      const plain = cellValue(value ?? null);
+      return typeof plain === 'string' ? plain.trim() : plain;
+    });
+    if (cells.some(cell => cell !== null && cell !== '')) {
+      numbered.push({ row: row.number, cells });
+    }
+  });
+
+  const [header, ...rows] = numbered;
+  return { format: 'xlsx', headers: header ? header.cells.map(cell => String(cell ?? '')) : [], rows };
+}
+
+/**
+ * Reads an uploaded CSV or XLSX file into a header and data rows
+ * @param content File contents
+ * @returns The sheet, with CSV cells as strings and XLSX cells as their typed values
+ * @throws IngestError when an XLSX file can't be read
+ */
+export async function readSheet(content: Buffer): Promise<Sheet> {
+  return detectFormat(content) === 'xlsx' ? readXlsx(content) : readCsv(content);
+}
@@ -0,0 +1,71 @@
+/**
+ * Loads a historical risk-free rate series into the database the environment points at
+ * (see server/db/index.ts), Postgres or the local SQLite file.
+ *
+ * Usage: npm run load-rates -- <file.csv>
+ *
+ * The CSV needs a header row with a date column and a rate column (also accepted:
+ * "yield"), e.g. a 91-day T-bill or repo rate series:
+ *
+ *   date,rate
+ *   2015-01-02,8.25
+ *   2015-01-09,8.21
+ *
+ * Dates may be YYYY-MM-DD or MM/DD/YYYY and rates are annual percentages. Each rate
+ * applies from its date until the next one. Re-running the script updates existing dates.
+ */
+import fs from 'fs';
+import path from 'path';
+import { parseMarketDate, toIsoDate } from '../src/shared/dates';
+import { createRepository, type RiskFreeRateRow } from './db';
+
+function parseCsv(content: string): RiskFreeRateRow[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('CSV file has no data rows');
+  }
+
+  const header = lines[0].split(',').map(col => col.trim().replace(/^"|"$/g, '').toLowerCase());
+  const dateCol = header.indexOf('date');
+  const rateCol = header.findIndex(col => col === 'rate' || col === 'yield');
+  if (dateCol === -1 || rateCol === -1) {
+    throw new Error('CSV header must contain "date" and "rate" columns');
+  }
+
+  const rows: RiskFreeRateRow[] = [];
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const date = parseMarketDate(cells[dateCol]);
+    const rate = parseFloat((cells[rateCol] || '').replace('%', ''));
+
+    if (!date || !Number.isFinite(rate)) {
+      console.warn(`Skipping line ${i + 2}: ${line}`);
+      return;
+    }
+    rows.push({ date: toIsoDate(date), rate });
+  });
+
+  return rows;
+}
+
+async function main() {
+  const csvPath = process.argv[2];
+  if (!csvPath) {
+    throw new Error('Usage: npm run load-rates -- <file.csv>');
+  }
+
+  const rows = parseCsv(fs.readFileSync(path.resolve(csvPath), 'utf8'));
+  const repository = createRepository();
+  try {
+    console.log(`Loading ${rows.length} risk-free rates from ${csvPath} into ${repository.kind}...`);
+    await repository.upsertRiskFreeRates(rows);
+    console.log('Risk-free rates loaded successfully');
+  } finally {
+    await repository.close();
+  }
+}
+
+main().catch(err => {
+  console.error('Loading risk-free rates failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+/**
+ * Copies index prices from the wide Sheet1 table into the indices and index_prices
+ * tables of the database the environment points at (see server/db/index.ts).
+ *
+ * Usage: npm run migrate
+ */
+import { createRepository } from './db';
+import { migrateWideSheet } from './db/migrate';
+
+async function main() {
+  const repository = createRepository();
+  try {
+    const result = await migrateWideSheet(repository);
+    if (!result) {
+      console.log('No Sheet1 table found, nothing to migrate');
+      return;
+    }
+    console.log(`Migrated ${result.prices} prices for ${result.indices} indices into index_prices`);
+  } finally {
+    await repository.close();
+  }
+}
+
+main().catch(err => {
+  console.error('Migration failed:', err);
+  process.exit(1);
+});
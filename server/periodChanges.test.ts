@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { computePeriodChanges, periodStart, type PeriodChange } from './periodChanges';
+import type { PriceTable } from './rollingReturns';
+
+function priceTable(dates: string[], values: PriceTable['values']): PriceTable {
+  const parsed = dates.map(date => new Date(`${date}T00:00:00Z`));
+  return { dates: parsed, times: parsed.map(date => date.getTime()), values };
+}
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const summary = (changes: PeriodChange[]) =>
+  Object.fromEntries(changes.map(change => [change.period, change.change]));
+
+describe('periodStart', () => {
+  it('measures YTD from the last day of the previous year', () => {
+    expect(periodStart('YTD', day('2024-03-15'))).toEqual(day('2023-12-31'));
+    expect(periodStart('1W', day('2024-03-15'))).toEqual(day('2024-03-08'));
+    expect(periodStart('1Y', day('2024-02-29'))).toEqual(day('2023-02-28'));
+  });
+});
+
+describe('computePeriodChanges', () => {
+  const table = priceTable(['2023-01-09', '2023-12-29', '2024-01-03', '2024-01-10'], {
+    'NIFTY 50': [100, 200, 210, 220],
+    // No close on the last trading day of 2023
+    'NIFTY IT': [50, null, 60, 66],
+    'NIFTY BANK': [null, null, null, null]
+  });
+
+  it('measures from the close on or before each reference date', () => {
+    const changes = computePeriodChanges(table, 'NIFTY 50', 231, day('2024-01-10'));
+
+    expect(summary(changes)).toEqual({ '1W': 10, '1M': null, '3M': null, '6M': null, YTD: 15.5, '1Y': 131 });
+    // 31 December 2023 was a Sunday
+    expect(changes[4]).toEqual({ period: 'YTD', change: 15.5, referenceDate: day('2023-12-29'), referenceClose: 200 });
+    expect(changes[5].referenceDate).toEqual(day('2023-01-09'));
+  });
+
+  it('leaves out changes with no close within a week of the reference date', () => {
+    expect(summary(computePeriodChanges(table, 'NIFTY IT', 66, day('2024-01-10')))).toMatchObject({ '1W': 10, YTD: null });
+
+    // A close 7 days before the target is still near enough, 8 days before isn't
+    const sparse = priceTable(['2024-01-01', '2024-01-20'], { 'NIFTY 50': [100, 120] });
+    expect(computePeriodChanges(sparse, 'NIFTY 50', 110, day('2024-01-15'))[0]).toMatchObject({ change: 10, referenceClose: 100 });
+    expect(computePeriodChanges(sparse, 'NIFTY 50', 110, day('2024-01-16'))[0].change).toBeNull();
+  });
+
+  it('uses the last stored close for targets after it', () => {
+    const [week] = computePeriodChanges(table, 'NIFTY 50', 242, day('2024-01-20'));
+    expect(week).toEqual({ period: '1W', change: 10, referenceDate: day('2024-01-10'), referenceClose: 220 });
+  });
+
+  it('returns every period without a change for an index without closes', () => {
+    expect(Object.values(summary(computePeriodChanges(table, 'NIFTY BANK', 100, day('2024-01-10'))))).toEqual(
+      [null, null, null, null, null, null]
+    );
+  });
+});
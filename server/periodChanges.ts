@@ -0,0 +1,92 @@
+/**
+ * Point-to-point changes of an index over standard periods, measured from the stored
+ * close on the period's reference date to the latest price.
+ *
+ * The reference date is the close on or before the same date a week, one to twelve
+ * months earlier, or for YTD the last close of the previous year. When the stored
+ * history has no price near enough to that date the change is left out rather than
+ * measured against an older one.
+ */
+import { addDays, addMonths, daysBetween } from '../src/shared/dates';
+import { findClosestTradingDay, type PriceTable } from './rollingReturns';
+
+export const CHANGE_PERIODS = ['1W', '1M', '3M', '6M', 'YTD', '1Y'] as const;
+export type ChangePeriod = typeof CHANGE_PERIODS[number];
+
+export interface PeriodChange {
+  period: ChangePeriod;
+  // Percentage change, rounded to 2 decimals
+  change: number | null;
+  referenceDate: Date | null;
+  referenceClose: number | null;
+}
+
+// A reference close may be this many calendar days before its target, enough to
+// cover the longest run of holidays and weekends
+const MAX_REFERENCE_GAP_DAYS = 7;
+
+/**
+ * Finds the target date a period's change is measured from
+ * @param period Change period
+ * @param asOf Market date of the latest price
+ */
+export function periodStart(period: ChangePeriod, asOf: Date): Date {
+  switch (period) {
+    case '1W':
+      return addDays(asOf, -7);
+    case '1M':
+      return addMonths(asOf, -1);
+    case '3M':
+      return addMonths(asOf, -3);
+    case '6M':
+      return addMonths(asOf, -6);
+    case 'YTD':
+      return new Date(Date.UTC(asOf.getUTCFullYear() - 1, 11, 31));
+    case '1Y':
+      return addMonths(asOf, -12);
+  }
+}
+
+/**
+ * Finds an index's latest stored close on or before a date
+ * @returns Position in the table, or null if there is none within MAX_REFERENCE_GAP_DAYS
+ */
+function referencePosition(table: PriceTable, values: (number | null)[], target: Date): number | null {
+  // Targets after the last stored date still resolve to the last date
+  const last = table.times.length - 1;
+  let i = last >= 0 && target.getTime() > table.times[last]
+    ? last
+    : findClosestTradingDay(table.times, target.getTime(), 0);
+  if (i === null) return null;
+
+  while (i >= 0 && values[i] === null) i--;
+  if (i < 0 || daysBetween(table.dates[i], target) > MAX_REFERENCE_GAP_DAYS) return null;
+  return i;
+}
+
+/**
+ * Measures an index's change over each standard period
+ * @param table Price table built from index_prices
+ * @param index Stored index name
+ * @param price Latest price, e.g. a live quote
+ * @param asOf Market date of the latest price
+ * @returns One change per period in CHANGE_PERIODS order, with nulls where history is missing
+ */
+export function computePeriodChanges(table: PriceTable, index: string, price: number, asOf: Date): PeriodChange[] {
+  const values = table.values[index] || [];
+
+  return CHANGE_PERIODS.map(period => {
+    const i = referencePosition(table, values, periodStart(period, asOf));
+    const close = i === null ? null : values[i];
+    if (i === null || close === null || close <= 0) {
+      return { period, change: null, referenceDate: null, referenceClose: null };
+    }
+
+    return {
+      period,
+      change: Math.round((price / close - 1) * 10000) / 100,
+      referenceDate: table.dates[i],
+      referenceClose: close
+    };
+  });
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QuoteCache } from './cache';
+import type { Quote, QuoteProvider } from './provider';
+
+// A provider whose price goes up by one on every request, and that fails when told to
+function testProvider() {
+  let price = 100;
+  const state = { fail: false };
+  const getQuote = vi.fn(async (symbol: string): Promise<Quote> => {
+    if (state.fail) throw new Error('Upstream unavailable');
+    price++;
+    return {
+      symbol,
+      price,
+      previousClose: null,
+      changePercent: 0,
+      open: null,
+      dayHigh: null,
+      dayLow: null,
+      yearHigh: null,
+      yearLow: null,
+      time: new Date()
+    };
+  });
+  const provider: QuoteProvider = {
+    name: 'test',
+    getDailyCloses: async () => [],
+    getQuote
+  };
+  return { provider, getQuote, state };
+}
+
+describe('QuoteCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-10T04:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const options = { ttlMs: 60_000, staleWhileRevalidateMs: 600_000 };
+
+  it('serves a quote from the cache until the TTL passes', async () => {
+    const { provider, getQuote } = testProvider();
+    const cache = new QuoteCache(provider, options);
+
+    expect(await cache.get('^NSEI')).toMatchObject({ quote: { price: 101 }, stale: false });
+    vi.advanceTimersByTime(59_999);
+    expect(await cache.get('^NSEI')).toMatchObject({ quote: { price: 101 }, stale: false });
+    expect(getQuote).toHaveBeenCalledTimes(1);
+    expect(cache.metrics()).toMatchObject({ symbols: 1, hits: 1, misses: 1 });
+  });
+
+  it('serves a stale quote while one request refreshes it in the background', async () => {
+    const { provider, getQuote } = testProvider();
+    const cache = new QuoteCache(provider, options);
+    await cache.get('^NSEI');
+
+    vi.advanceTimersByTime(61_000);
+    const [first, second] = await Promise.all([cache.get('^NSEI'), cache.get('^NSEI')]);
+    expect(first).toMatchObject({ quote: { price: 101 }, stale: true });
+    expect(second).toMatchObject({ quote: { price: 101 }, stale: true });
+    expect(getQuote).toHaveBeenCalledTimes(2);
+
+    await vi.waitFor(async () => expect(await cache.get('^NSEI')).toMatchObject({ quote: { price: 102 }, stale: false }));
+    expect(cache.metrics()).toMatchObject({ staleHits: 2 });
+  });
+
+  it('waits for the provider once a quote is past the stale window', async () => {
+    const { provider } = testProvider();
+    const cache = new QuoteCache(provider, options);
+    await cache.get('^NSEI');
+
+    vi.advanceTimersByTime(660_000);
+    expect(await cache.get('^NSEI')).toMatchObject({ quote: { price: 102 }, stale: false });
+    expect(cache.metrics()).toMatchObject({ misses: 2, staleHits: 0 });
+  });
+
+  it('falls back to the last good quote when the provider fails', async () => {
+    const { provider, state } = testProvider();
+    const cache = new QuoteCache(provider, options);
+    const fetched = await cache.get('^NSEI');
+
+    state.fail = true;
+    vi.advanceTimersByTime(3_600_000);
+    const fallback = await cache.get('^NSEI');
+    expect(fallback).toMatchObject({ quote: { price: 101 }, stale: true });
+    expect(fallback.fetchedAt).toEqual(fetched.fetchedAt);
+    expect(cache.metrics()).toMatchObject({ fallbacks: 1, errors: 1, lastError: '^NSEI: Upstream unavailable' });
+  });
+
+  it('rejects when a symbol has never been fetched and the provider fails', async () => {
+    const { provider, state } = testProvider();
+    state.fail = true;
+    const cache = new QuoteCache(provider, options);
+
+    await expect(cache.get('^NSEI')).rejects.toThrow('Upstream unavailable');
+    expect(cache.metrics()).toMatchObject({ symbols: 0, misses: 1, fallbacks: 0, errors: 1 });
+  });
+});
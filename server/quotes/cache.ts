@@ -0,0 +1,138 @@
+/**
+ * In-memory cache of latest quotes in front of a QuoteProvider, so dashboard polls from
+ * every client share one upstream request per symbol per TTL.
+ *
+ * A quote younger than the TTL is served as is. Up to the stale window after that it is
+ * still served immediately while a single background request refreshes it. Older quotes,
+ * and symbols never fetched, wait for the provider. When the provider fails, the last
+ * good quote is served whatever its age, flagged as stale.
+ */
+import type { Quote, QuoteProvider } from './provider';
+
+export interface QuoteCacheOptions {
+  // How long a quote is served without asking the provider
+  ttlMs: number;
+  // How long past the TTL a quote is served while it refreshes in the background
+  staleWhileRevalidateMs: number;
+}
+
+export interface CachedQuote {
+  quote: Quote;
+  // When the quote was fetched from the provider
+  fetchedAt: Date;
+  // Older than the TTL: being refreshed, or the last good quote after a failure
+  stale: boolean;
+}
+
+export interface QuoteCacheMetrics {
+  provider: string;
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+  symbols: number;
+  // Served fresh from the cache
+  hits: number;
+  // Served past the TTL while refreshing in the background
+  staleHits: number;
+  // Waited for the provider
+  misses: number;
+  // Served the last good quote because the provider failed
+  fallbacks: number;
+  // Provider requests that failed, including background refreshes
+  errors: number;
+  lastError: string | null;
+}
+
+export const DEFAULT_QUOTE_CACHE_OPTIONS: QuoteCacheOptions = {
+  ttlMs: 60 * 1000,
+  staleWhileRevalidateMs: 10 * 60 * 1000
+};
+
+interface Entry {
+  quote: Quote;
+  fetchedAt: number;
+}
+
+export class QuoteCache {
+  private readonly entries = new Map<string, Entry>();
+  private readonly pending = new Map<string, Promise<Entry>>();
+  private readonly counts = { hits: 0, staleHits: 0, misses: 0, fallbacks: 0, errors: 0 };
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly provider: QuoteProvider,
+    private readonly options: QuoteCacheOptions = DEFAULT_QUOTE_CACHE_OPTIONS
+  ) {}
+
+  /**
+   * Gets the latest quote of a symbol
+   * @param symbol Quote symbol
+   * @returns The quote and how fresh it is; rejects only when the provider fails and
+   * the symbol has never been fetched
+   */
+  async get(symbol: string): Promise<CachedQuote> {
+    const entry = this.entries.get(symbol);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < this.options.ttlMs) {
+      this.counts.hits++;
+      return this.toCached(entry, false);
+    }
+
+    if (entry && age < this.options.ttlMs + this.options.staleWhileRevalidateMs) {
+      this.counts.staleHits++;
+      // Failures are counted by fetch and the quote is served again on the next request
+      this.fetch(symbol).catch(() => undefined);
+      return this.toCached(entry, true);
+    }
+
+    this.counts.misses++;
+    try {
+      return this.toCached(await this.fetch(symbol), false);
+    } catch (err) {
+      if (!entry) throw err;
+      this.counts.fallbacks++;
+      return this.toCached(entry, true);
+    }
+  }
+
+  metrics(): QuoteCacheMetrics {
+    return {
+      provider: this.provider.name,
+      ttlMs: this.options.ttlMs,
+      staleWhileRevalidateMs: this.options.staleWhileRevalidateMs,
+      symbols: this.entries.size,
+      ...this.counts,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Requests a quote from the provider, sharing the request between concurrent callers
+   */
+  private fetch(symbol: string): Promise<Entry> {
+    const inFlight = this.pending.get(symbol);
+    if (inFlight) return inFlight;
+
+    const request = this.provider.getQuote(symbol)
+      .then(quote => {
+        const entry = { quote, fetchedAt: Date.now() };
+        this.entries.set(symbol, entry);
+        return entry;
+      })
+      .catch(err => {
+        this.counts.errors++;
+        this.lastError = `${symbol}: ${err instanceof Error ? err.message : String(err)}`;
+        throw err;
+      })
+      .finally(() => {
+        this.pending.delete(symbol);
+      });
+
+    this.pending.set(symbol, request);
+    return request;
+  }
+
+  private toCached(entry: Entry, stale: boolean): CachedQuote {
+    return { quote: entry.quote, fetchedAt: new Date(entry.fetchedAt), stale };
+  }
+}
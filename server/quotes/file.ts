@@ -0,0 +1,68 @@
+import fs from 'fs';
+import { z } from 'zod';
+import type { PriceRow } from '../db/repository';
+import { addDays, parseIsoDate, toIsoDate } from '../../src/shared/dates';
+import type { Quote, QuoteProvider, QuoteRange } from './provider';
+
+// Daily closes by quote symbol, e.g. { "closes": { "^NSEI": [{ "date": "2024-01-05", "close": 21710.8 }] } },
+// optionally with the session's open, high, low and volume
+const QuoteFileSchema = z.object({
+  closes: z.record(
+    z.string(),
+    z.array(z.object({
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format'),
+      close: z.number().positive(),
+      open: z.number().positive().optional(),
+      high: z.number().positive().optional(),
+      low: z.number().positive().optional(),
+      volume: z.number().nonnegative().optional()
+    }))
+  )
+});
+
+/**
+ * Reads closes from a JSON file instead of a quote service, for offline testing. The file
+ * is read on every request, so it can be edited while the server runs.
+ */
+export class FileQuoteProvider implements QuoteProvider {
+  readonly name = 'file';
+
+  constructor(private readonly filename: string) {}
+
+  async getDailyCloses(symbol: string, range: QuoteRange): Promise<PriceRow[]> {
+    const closes = await this.readCloses(symbol);
+    return closes.filter(row => row.date >= range.from && row.date <= range.to);
+  }
+
+  // The latest close stands in for the live price, with the day's range unknown
+  async getQuote(symbol: string): Promise<Quote> {
+    const closes = await this.readCloses(symbol);
+    if (closes.length === 0) {
+      throw new Error(`No closes for ${symbol} in ${this.filename}`);
+    }
+
+    const last = closes[closes.length - 1];
+    const previous = closes.length > 1 ? closes[closes.length - 2].close : null;
+    const lastDate = parseIsoDate(last.date) as Date;
+    const yearStart = toIsoDate(addDays(lastDate, -365));
+    const year = closes.filter(row => row.date > yearStart).map(row => row.close);
+
+    return {
+      symbol,
+      price: last.close,
+      previousClose: previous,
+      changePercent: previous ? (last.close / previous - 1) * 100 : 0,
+      open: null,
+      dayHigh: null,
+      dayLow: null,
+      yearHigh: Math.max(...year),
+      yearLow: Math.min(...year),
+      time: lastDate
+    };
+  }
+
+  private async readCloses(symbol: string): Promise<PriceRow[]> {
+    const { closes } = QuoteFileSchema.parse(JSON.parse(await fs.promises.readFile(this.filename, 'utf8')));
+    return [...(closes[symbol] || [])].sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
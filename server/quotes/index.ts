@@ -0,0 +1,60 @@
+import { FileQuoteProvider } from './file';
+import type { QuoteProvider } from './provider';
+import type { QuoteCache } from './cache';
+import { ReplayTickSource } from './replay';
+import { CachedQuoteSource, type TickSource } from './stream';
+import { YahooQuoteProvider } from './yahoo';
+
+export { DEFAULT_QUOTE_CACHE_OPTIONS, QuoteCache } from './cache';
+export type { CachedQuote, QuoteCacheMetrics, QuoteCacheOptions } from './cache';
+export type { Quote, QuoteProvider, QuoteRange } from './provider';
+export { QuoteStream } from './stream';
+export type { StreamEvent, StreamListener, Tick, TickSource } from './stream';
+
+/**
+ * Opens the quote provider the environment asks for: QUOTE_PROVIDER is yahoo (the
+ * default) or file, which reads the JSON file at QUOTE_FILE.
+ */
+export function createQuoteProvider(env: NodeJS.ProcessEnv = process.env): QuoteProvider {
+  const provider = env.QUOTE_PROVIDER || 'yahoo';
+
+  if (provider === 'yahoo') {
+    return new YahooQuoteProvider();
+  }
+
+  if (provider === 'file') {
+    if (!env.QUOTE_FILE) {
+      throw new Error('QUOTE_FILE is required when QUOTE_PROVIDER is file');
+    }
+    return new FileQuoteProvider(env.QUOTE_FILE);
+  }
+
+  throw new Error(`Unknown QUOTE_PROVIDER: ${provider}. Use yahoo or file`);
+}
+
+/**
+ * Opens the source of live ticks the environment asks for: the quote cache, or with
+ * QUOTE_STREAM=replay the recorded frames in the JSON file at QUOTE_REPLAY_FILE.
+ * @param cache Quote cache to poll
+ * @param symbols Quote symbols by index name
+ */
+export function createTickSource(
+  cache: QuoteCache,
+  symbols: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env
+): TickSource {
+  const source = env.QUOTE_STREAM || 'quotes';
+
+  if (source === 'quotes') {
+    return new CachedQuoteSource(cache, symbols);
+  }
+
+  if (source === 'replay') {
+    if (!env.QUOTE_REPLAY_FILE) {
+      throw new Error('QUOTE_REPLAY_FILE is required when QUOTE_STREAM is replay');
+    }
+    return new ReplayTickSource(env.QUOTE_REPLAY_FILE);
+  }
+
+  throw new Error(`Unknown QUOTE_STREAM: ${source}. Use quotes or replay`);
+}
@@ -0,0 +1,39 @@
+/**
+ * Sources of index prices from outside the database. The end-of-day job reads the closes
+ * of each index with a quote symbol through a QuoteProvider, and the market dashboard
+ * its latest quotes, so both run the same way against Yahoo Finance in production and
+ * against a local file in offline tests.
+ */
+import type { PriceRow } from '../db/repository';
+
+/** Inclusive YYYY-MM-DD bounds on the market dates to fetch */
+export interface QuoteRange {
+  from: string;
+  to: string;
+}
+
+/** Latest quote of a symbol; fields the provider doesn't know are null */
+export interface Quote {
+  symbol: string;
+  price: number;
+  previousClose: number | null;
+  changePercent: number;
+  open: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  yearHigh: number | null;
+  yearLow: number | null;
+  // When the price was last traded or published
+  time: Date;
+}
+
+export interface QuoteProvider {
+  /** Which provider the quotes come from, for logging */
+  readonly name: string;
+
+  /** Daily closes of a symbol within the range, sorted by market date, with open, high, low and volume where known */
+  getDailyCloses(symbol: string, range: QuoteRange): Promise<PriceRow[]>;
+
+  /** Latest quote of a symbol; rejects when the provider has none */
+  getQuote(symbol: string): Promise<Quote>;
+}
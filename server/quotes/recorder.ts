@@ -0,0 +1,70 @@
+/**
+ * Records the market stream's ticks into index_ticks, for intraday charts. Ticks are
+ * matched to stored indices by the catalogue's quote symbol, and deleted once they are
+ * older than the retention period.
+ */
+import { storedNamesBySymbol } from '../db/catalogue';
+import type { IndexRepository } from '../db/repository';
+import type { QuoteStream, Tick } from './stream';
+
+export interface TickRecorderOptions {
+  // Calendar days of ticks to keep; the 5D chart needs at least a week
+  retentionDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Starts recording ticks. The recorder listens to the stream for as long as it runs, so
+ * the stream keeps polling through market hours even with no dashboards open.
+ * @param stream Market stream to record
+ * @param repository Repository to write ticks to
+ * @param options Retention period
+ * @returns A function that stops recording
+ */
+export function recordTicks(
+  stream: QuoteStream,
+  repository: IndexRepository,
+  { retentionDays = 10 }: TickRecorderOptions = {}
+): () => void {
+  let names: Map<string, string> | null = null;
+
+  // Stored index names by quote symbol, reloaded when a tick has a symbol not seen before
+  const storedName = async (tick: Tick): Promise<string | undefined> => {
+    if (!names || !names.has(tick.symbol)) {
+      names = storedNamesBySymbol(await repository.listCatalogue());
+    }
+    return names.get(tick.symbol);
+  };
+
+  const record = async (tick: Tick) => {
+    try {
+      const index = await storedName(tick);
+      if (!index) return;
+      await repository.insertTicks(index, [{ time: tick.time.toISOString(), price: tick.price }]);
+    } catch (err) {
+      console.error(`Error recording tick for ${tick.index}:`, err);
+    }
+  };
+
+  const prune = async () => {
+    try {
+      const deleted = await repository.deleteTicksBefore(new Date(Date.now() - retentionDays * DAY_MS).toISOString());
+      if (deleted > 0) console.log(`Deleted ${deleted} ticks older than ${retentionDays} days`);
+    } catch (err) {
+      console.error('Error deleting old ticks:', err);
+    }
+  };
+
+  // Snapshots repeat ticks that were already recorded
+  const unsubscribe = stream.subscribe(event => {
+    if (event.type === 'tick') record(event.tick);
+  });
+  prune();
+  const pruneTimer = setInterval(prune, DAY_MS);
+
+  return () => {
+    unsubscribe();
+    clearInterval(pruneTimer);
+  };
+}
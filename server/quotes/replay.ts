@@ -0,0 +1,42 @@
+import fs from 'fs';
+import { z } from 'zod';
+import type { Tick, TickSource } from './stream';
+
+// Frames of ticks played one per poll, e.g.
+// { "frames": [[{ "index": "NIFTY 50", "symbol": "^NSEI", "price": 21710.8, "changePercent": 0.4 }]] }
+const ReplayFileSchema = z.object({
+  frames: z.array(z.array(z.object({
+    index: z.string(),
+    symbol: z.string(),
+    price: z.number().positive(),
+    changePercent: z.number()
+  }))).min(1)
+});
+
+/**
+ * Replays recorded ticks from a JSON file instead of polling quotes, for offline testing
+ * and demos. The market counts as always open, each poll plays the next frame, and the
+ * file starts over after its last frame.
+ */
+export class ReplayTickSource implements TickSource {
+  readonly name = 'replay';
+  private frames: Omit<Tick, 'time'>[][] | null = null;
+  private position = 0;
+
+  constructor(private readonly filename: string) {}
+
+  isMarketOpen(): boolean {
+    return true;
+  }
+
+  async nextTicks(): Promise<Tick[]> {
+    if (!this.frames) {
+      this.frames = ReplayFileSchema.parse(JSON.parse(await fs.promises.readFile(this.filename, 'utf8'))).frames;
+    }
+
+    const frame = this.frames[this.position];
+    this.position = (this.position + 1) % this.frames.length;
+    const time = new Date();
+    return frame.map(tick => ({ ...tick, time }));
+  }
+}
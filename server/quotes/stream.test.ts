@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ReplayTickSource } from './replay';
+import { QuoteStream, type StreamEvent, type TickSource } from './stream';
+
+const FRAMES = [
+  [
+    { index: 'NIFTY 50', symbol: '^NSEI', price: 21710.8, changePercent: 0.4 },
+    { index: 'NIFTY IT', symbol: '^CNXIT', price: 35120.5, changePercent: -0.2 }
+  ],
+  [
+    { index: 'NIFTY 50', symbol: '^NSEI', price: 21725.1, changePercent: 0.47 },
+    { index: 'NIFTY IT', symbol: '^CNXIT', price: 35120.5, changePercent: -0.2 }
+  ]
+];
+
+let dir: string;
+let replayFile: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circle-wealth-'));
+  replayFile = path.join(dir, 'replay.json');
+  fs.writeFileSync(replayFile, JSON.stringify({ frames: FRAMES }));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Collects a listener's events, with their ticks reduced to index and price
+function record(stream: QuoteStream) {
+  const events: StreamEvent[] = [];
+  const unsubscribe = stream.subscribe(event => events.push(event));
+  const summary = () =>
+    events.map(event => {
+      if (event.type === 'snapshot') {
+        return { type: 'snapshot', open: event.open, ticks: event.ticks.map(tick => [tick.index, tick.price]) };
+      }
+      return event.type === 'status' ? event : { type: 'tick', tick: [event.tick.index, event.tick.price] };
+    });
+  return { events, summary, unsubscribe };
+}
+
+describe('ReplayTickSource', () => {
+  it('plays one frame per poll and starts over after the last', async () => {
+    const source = new ReplayTickSource(replayFile);
+    const prices = [];
+    for (let i = 0; i < 3; i++) {
+      prices.push((await source.nextTicks()).map(tick => tick.price));
+    }
+    expect(prices).toEqual([[21710.8, 35120.5], [21725.1, 35120.5], [21710.8, 35120.5]]);
+    expect(source.isMarketOpen()).toBe(true);
+  });
+
+  it('rejects a file without frames', async () => {
+    const emptyFile = path.join(dir, 'empty.json');
+    fs.writeFileSync(emptyFile, JSON.stringify({ frames: [] }));
+    await expect(new ReplayTickSource(emptyFile).nextTicks()).rejects.toThrow();
+  });
+});
+
+describe('QuoteStream', () => {
+  it('sends a snapshot, then only the ticks that changed', async () => {
+    const stream = new QuoteStream(new ReplayTickSource(replayFile), 10);
+    const { summary, unsubscribe } = record(stream);
+
+    await vi.waitFor(() => expect(summary().length).toBeGreaterThanOrEqual(4));
+    unsubscribe();
+
+    expect(summary().slice(0, 4)).toEqual([
+      { type: 'snapshot', open: true, ticks: [] },
+      { type: 'tick', tick: ['NIFTY 50', 21710.8] },
+      { type: 'tick', tick: ['NIFTY IT', 35120.5] },
+      // NIFTY IT is unchanged in the second frame
+      { type: 'tick', tick: ['NIFTY 50', 21725.1] }
+    ]);
+  });
+
+  it('gives a new listener a snapshot of the latest ticks', async () => {
+    const stream = new QuoteStream(new ReplayTickSource(replayFile), 1000);
+    const first = record(stream);
+    await vi.waitFor(() => expect(first.events.filter(event => event.type === 'tick')).toHaveLength(2));
+
+    const second = record(stream);
+    expect(second.summary()).toEqual([
+      { type: 'snapshot', open: true, ticks: [['NIFTY 50', 21710.8], ['NIFTY IT', 35120.5]] }
+    ]);
+    first.unsubscribe();
+    second.unsubscribe();
+  });
+
+  it('reports the market closing and opening', async () => {
+    let open = true;
+    const replay = new ReplayTickSource(replayFile);
+    const source: TickSource = { name: 'replay', isMarketOpen: () => open, nextTicks: () => replay.nextTicks() };
+    const stream = new QuoteStream(source, 10);
+    const { events, unsubscribe } = record(stream);
+
+    await vi.waitFor(() => expect(events.some(event => event.type === 'tick')).toBe(true));
+    open = false;
+    await vi.waitFor(() => expect(events).toContainEqual({ type: 'status', open: false }));
+    open = true;
+    await vi.waitFor(() => expect(events).toContainEqual({ type: 'status', open: true }));
+    unsubscribe();
+
+    const statuses = events.filter(event => event.type === 'status');
+    expect(statuses).toEqual([{ type: 'status', open: false }, { type: 'status', open: true }]);
+  });
+
+  it('stops polling once the last listener leaves', async () => {
+    const replay = new ReplayTickSource(replayFile);
+    const nextTicks = vi.spyOn(replay, 'nextTicks');
+    const stream = new QuoteStream(replay, 10);
+    const { unsubscribe } = record(stream);
+
+    await vi.waitFor(() => expect(nextTicks.mock.calls.length).toBeGreaterThanOrEqual(2));
+    unsubscribe();
+    const calls = nextTicks.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(nextTicks).toHaveBeenCalledTimes(calls);
+  });
+});
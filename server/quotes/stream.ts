@@ -0,0 +1,139 @@
+/**
+ * Live index ticks for the dashboard. A QuoteStream polls a TickSource while anyone is
+ * listening and pushes each change to its listeners, which the server forwards to
+ * browsers as Server-Sent Events.
+ *
+ * Outside trading hours the stream only reports that the market is closed, after one
+ * fetch so new listeners still get the closing prices.
+ */
+import { getTradingCalendar, isMarketOpen, type TradingCalendar } from '../../src/shared/tradingCalendar';
+import type { QuoteCache } from './cache';
+
+export interface Tick {
+  index: string;
+  symbol: string;
+  price: number;
+  changePercent: number;
+  time: Date;
+}
+
+export interface TickSource {
+  /** Where the ticks come from, for logging */
+  readonly name: string;
+
+  /** Whether ticks are expected at an instant */
+  isMarketOpen(now: Date): boolean;
+
+  /** Latest tick of each index it can price */
+  nextTicks(): Promise<Tick[]>;
+}
+
+export type StreamEvent =
+  | { type: 'snapshot'; open: boolean; ticks: Tick[] }
+  | { type: 'status'; open: boolean }
+  | { type: 'tick'; tick: Tick };
+
+export type StreamListener = (event: StreamEvent) => void;
+
+/**
+ * Ticks from the quote cache, so streaming shares its upstream requests with
+ * /api/market-indices
+ */
+export class CachedQuoteSource implements TickSource {
+  readonly name = 'quotes';
+
+  constructor(
+    private readonly cache: QuoteCache,
+    // Quote symbols by index name
+    private readonly symbols: Record<string, string>,
+    private readonly calendar: TradingCalendar = getTradingCalendar()
+  ) {}
+
+  isMarketOpen(now: Date): boolean {
+    return isMarketOpen(now, this.calendar);
+  }
+
+  async nextTicks(): Promise<Tick[]> {
+    const ticks = await Promise.all(
+      Object.entries(this.symbols).map(async ([index, symbol]): Promise<Tick | null> => {
+        try {
+          const { quote } = await this.cache.get(symbol);
+          return { index, symbol, price: quote.price, changePercent: quote.changePercent, time: quote.time };
+        } catch {
+          // Already counted by the cache; the index is left out until it has a quote
+          return null;
+        }
+      })
+    );
+    return ticks.filter((tick): tick is Tick => tick !== null);
+  }
+}
+
+export class QuoteStream {
+  private readonly listeners = new Set<StreamListener>();
+  private readonly latest = new Map<string, Tick>();
+  private open: boolean | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly source: TickSource,
+    private readonly intervalMs: number
+  ) {}
+
+  /**
+   * Adds a listener, which first gets a snapshot of the latest ticks if there are any
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: StreamListener): () => void {
+    this.listeners.add(listener);
+    if (this.open !== null) {
+      listener({ type: 'snapshot', open: this.open, ticks: [...this.latest.values()] });
+    }
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.intervalMs);
+      this.poll();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  private emit(event: StreamEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private async poll() {
+    // A slow source shouldn't pile up requests
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const open = this.source.isMarketOpen(new Date());
+      const first = this.open === null;
+      if (open !== this.open) {
+        this.open = open;
+        this.emit(first ? { type: 'snapshot', open, ticks: [] } : { type: 'status', open });
+      }
+      if (!open && this.latest.size > 0) return;
+
+      const ticks = await this.source.nextTicks();
+      ticks.forEach(tick => {
+        const previous = this.latest.get(tick.index);
+        if (previous && previous.price === tick.price && previous.changePercent === tick.changePercent) return;
+        this.latest.set(tick.index, tick);
+        this.emit({ type: 'tick', tick });
+      });
+    } catch (err) {
+      console.error(`Error polling ${this.source.name} for the market stream:`, err);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
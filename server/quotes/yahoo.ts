@@ -0,0 +1,48 @@
+import yahooFinance from 'yahoo-finance2';
+import { addDays, marketDateOf, parseIsoDate, toIsoDate } from '../../src/shared/dates';
+import type { PriceRow } from '../db/repository';
+import type { Quote, QuoteProvider, QuoteRange } from './provider';
+
+export class YahooQuoteProvider implements QuoteProvider {
+  readonly name = 'yahoo';
+
+  async getDailyCloses(symbol: string, range: QuoteRange): Promise<PriceRow[]> {
+    // period2 is exclusive, so ask for the day after the range ends
+    const to = parseIsoDate(range.to) as Date;
+    const result = await yahooFinance.chart(symbol, {
+      period1: range.from,
+      period2: toIsoDate(addDays(to, 1)),
+      interval: '1d',
+      return: 'array'
+    });
+
+    // Daily bars are stamped with the session's opening time, which falls on its IST date.
+    // Indices without traded volume report it as 0.
+    return result.quotes.flatMap(quote => {
+      const date = toIsoDate(marketDateOf(quote.date));
+      return quote.close !== null && quote.close > 0 && date >= range.from && date <= range.to
+        ? [{ date, close: quote.close, open: quote.open, high: quote.high, low: quote.low, volume: quote.volume || null }]
+        : [];
+    });
+  }
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const quote = await yahooFinance.quote(symbol);
+    if (!quote || quote.regularMarketPrice === undefined) {
+      throw new Error(`No quote for ${symbol}`);
+    }
+
+    return {
+      symbol,
+      price: quote.regularMarketPrice,
+      previousClose: quote.regularMarketPreviousClose ?? null,
+      changePercent: quote.regularMarketChangePercent ?? 0,
+      open: quote.regularMarketOpen ?? null,
+      dayHigh: quote.regularMarketDayHigh ?? null,
+      dayLow: quote.regularMarketDayLow ?? null,
+      yearHigh: quote.fiftyTwoWeekHigh ?? null,
+      yearLow: quote.fiftyTwoWeekLow ?? null,
+      time: quote.regularMarketTime ?? new Date()
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { computeRollingReturns, findClosestTradingDay, latestReturns, parseWindow, type PriceTable } from './rollingReturns';
+
+function priceTable(dates: string[], values: PriceTable['values']): PriceTable {
+  const parsed = dates.map(date => new Date(`${date}T00:00:00Z`));
+  return { dates: parsed, times: parsed.map(date => date.getTime()), values };
+}
+
+// B only starts trading on the second date
+const table = priceTable(['2023-01-02', '2023-06-30', '2023-07-03', '2024-01-02'], {
+  A: [100, 110, 111, 121],
+  B: [null, 50, 55, 60]
+});
+
+const isoDates = (dates: Date[]) => dates.map(date => date.toISOString().slice(0, 10));
+
+describe('parseWindow', () => {
+  it('reads years, months and the legacy labels', () => {
+    expect(parseWindow('3Y')).toEqual({ label: '3Y', months: 36 });
+    expect(parseWindow('3Yr')).toEqual({ label: '3Y', months: 36 });
+    expect(parseWindow(' 5yrs ')).toEqual({ label: '5Y', months: 60 });
+    expect(parseWindow('18M')).toEqual({ label: '18M', months: 18 });
+    expect(parseWindow('1Y6M')).toEqual({ label: '18M', months: 18 });
+  });
+
+  it('labels whole years in years', () => {
+    expect(parseWindow('12M')).toEqual({ label: '1Y', months: 12 });
+  });
+
+  it('rejects empty and unknown windows', () => {
+    ['', '0M', '0Y', 'Y', '3W', 'abc'].forEach(input => expect(parseWindow(input)).toBeNull());
+  });
+});
+
+describe('findClosestTradingDay', () => {
+  const times = [1, 3, 5, 7];
+
+  // The same cases give the same positions in process_database.py's find_closest_trading_day
+  it('matches the Python rules', () => {
+    expect(findClosestTradingDay(times, 5, 0)).toBe(2);
+    expect(findClosestTradingDay(times, 4, 0)).toBe(1);
+    expect(findClosestTradingDay(times, 3, 1)).toBe(1);
+    expect(findClosestTradingDay(times, 8, 0)).toBeNull();
+    expect(findClosestTradingDay(times, 2, 1)).toBeNull();
+    expect(findClosestTradingDay(times, 5, 4)).toBeNull();
+  });
+});
+
+describe('computeRollingReturns', () => {
+  it('does not annualise windows under a year', () => {
+    const series = computeRollingReturns(table, ['A', 'B'], { label: '6M', months: 6 });
+
+    // 2 July 2023 is a Sunday, so the first window ends on Friday 30 June
+    expect(isoDates(series.fromDates)).toEqual(['2023-01-02', '2023-06-30']);
+    expect(isoDates(series.toDates)).toEqual(['2023-06-30', '2023-07-03']);
+    // The second window is 3 days long, under half of what was asked for
+    expect(series.returns).toEqual({ A: [10, null], B: [null, null] });
+  });
+
+  it('annualises windows of a year or more over 365.25-day years', () => {
+    const series = computeRollingReturns(table, ['A'], { label: '1Y', months: 12 });
+    const expected = Math.round((Math.pow(1.21, 365.25 / 365) - 1) * 100 * 100) / 100;
+    expect(series.returns.A).toEqual([expected]);
+  });
+
+  it('stops at windows whose target date is after the last date', () => {
+    // 2 July 2023 is a Sunday after the last date, though 30 June isn't
+    const friday = priceTable(['2022-12-30', '2023-01-02', '2023-06-30'], { A: [100, 101, 110] });
+    const series = computeRollingReturns(friday, ['A'], { label: '6M', months: 6 });
+    expect(isoDates(series.fromDates)).toEqual(['2022-12-30']);
+    expect(isoDates(series.toDates)).toEqual(['2023-06-30']);
+  });
+
+  it('only starts windows inside the range', () => {
+    const series = computeRollingReturns(table, ['A'], { label: '6M', months: 6 }, { fromDate: new Date('2023-03-01T00:00:00Z') });
+    expect(isoDates(series.fromDates)).toEqual(['2023-06-30']);
+  });
+
+  it('finds the latest return of each index', () => {
+    const series = computeRollingReturns(table, ['A', 'B'], { label: '6M', months: 6 });
+    expect(latestReturns(series)).toEqual({ A: 10, B: null });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Rolling returns computed on demand from the raw index prices in index_prices.
+ *
+ * This replaces the offline precomputation in process_database.py and keeps its
+ * rules: each window ends on the closest trading day on or before the target date,
+ * windows whose actual length is under half the requested length are dropped, and
+ * returns are annualised using 365.25-day years. Trading days come from the exchange
+ * calendar, so a window never ends on a holiday even if a stray price exists for it.
+ */
+import { addMonths, daysBetween, parseMarketDate } from '../src/shared/dates';
+import { getTradingCalendar, tradingDayOnOrBefore, type TradingCalendar } from '../src/shared/tradingCalendar';
+import type { IndexPrice } from './db/repository';
+
+export interface RollingWindow {
+  label: string;
+  months: number;
+}
+
+export interface PriceTable {
+  dates: Date[];
+  times: number[];
+  values: Record<string, (number | null)[]>;
+}
+
+export interface RollingReturnSeries {
+  window: RollingWindow;
+  fromDates: Date[];
+  toDates: Date[];
+  returns: Record<string, (number | null)[]>;
+}
+
+export interface RollingRange {
+  fromDate?: Date | null;
+  toDate?: Date | null;
+}
+
+export const DEFAULT_WINDOWS = ['1Y', '3Y', '5Y', '7Y', '10Y'];
+
+/**
+ * Parses a window such as "3Y", "18M", "1Y6M" or the legacy "3Yr"
+ * @param input Window label from a request
+ * @returns The window in months with a normalised label, or null if it is not valid
+ */
+export function parseWindow(input: string): RollingWindow | null {
+  const match = input.trim().toUpperCase().match(/^(?:(\d+)\s*Y(?:R|RS)?)?\s*(?:(\d+)\s*M)?$/);
+  if (!match || (match[1] === undefined && match[2] === undefined)) return null;
+
+  const years = parseInt(match[1] || '0', 10);
+  const extraMonths = parseInt(match[2] || '0', 10);
+  const months = years * 12 + extraMonths;
+  if (months <= 0) return null;
+
+  // Label whole-year windows in years so "12M" and "1Y" share a key
+  return { label: months % 12 === 0 ? `${months / 12}Y` : `${months}M`, months };
+}
+
+/**
+ * Parses a price cell, which may be stored as text with thousands separators
+ */
+export function parsePrice(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const price = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+  return isFinite(price) ? price : null;
+}
+
+/**
+ * Builds a date-sorted price table from long-format prices
+ * @param prices One row per index and date
+ * @param indices Indices to include
+ * @returns Dates and prices per index, with null where an index has no price
+ */
+export function buildPriceTable(prices: IndexPrice[], indices: string[]): PriceTable {
+  const byTime = new Map<number, Date>();
+  const parsed = prices
+    .map(row => ({ row, date: parseMarketDate(row.date) }))
+    .filter((entry): entry is { row: IndexPrice; date: Date } => entry.date !== null);
+  parsed.forEach(entry => byTime.set(entry.date.getTime(), entry.date));
+
+  const times = Array.from(byTime.keys()).sort((a, b) => a - b);
+  const position = new Map(times.map((time, i) => [time, i]));
+
+  const values: Record<string, (number | null)[]> = {};
+  indices.forEach(index => {
+    values[index] = new Array(times.length).fill(null);
+  });
+  parsed.forEach(({ row, date }) => {
+    const series = values[row.index];
+    if (series) series[position.get(date.getTime()) as number] = row.close;
+  });
+
+  return {
+    dates: times.map(time => byTime.get(time) as Date),
+    times,
+    values
+  };
+}
+
+/**
+ * Finds the closest trading day to the target date, as find_closest_trading_day did:
+ * the target itself if it traded, otherwise the latest trading day before it.
+ * @param times Sorted trading day timestamps
+ * @param target Target timestamp
+ * @param startIndex Position of the window's start date
+ * @returns Index of the trading day, or null if the target is after the last available date
+ */
+export function findClosestTradingDay(times: number[], target: number, startIndex: number): number | null {
+  if (startIndex >= times.length || target > times[times.length - 1]) return null;
+
+  let low = startIndex;
+  let high = times.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (times[mid] <= target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low - 1 >= startIndex ? low - 1 : null;
+}
+
+/**
+ * Calculates the return between two prices, annualised for windows of a year or more
+ * @returns Return as a percentage rounded to 2 decimals, or null when the window is too short
+ */
+function windowReturn(
+  startValue: number | null,
+  endValue: number | null,
+  actualDays: number,
+  window: RollingWindow
+): number | null {
+  if (startValue === null || endValue === null || startValue === 0 || actualDays <= 0) return null;
+
+  const actualYears = actualDays / 365.25;
+  const requestedYears = window.months / 12;
+  if (actualYears < requestedYears * 0.5) return null;
+
+  const totalReturn = endValue / startValue - 1;
+  const result = window.months >= 12
+    ? (Math.pow(1 + totalReturn, 1 / actualYears) - 1) * 100
+    : totalReturn * 100;
+
+  return isFinite(result) ? Math.round(result * 100) / 100 : null;
+}
+
+/**
+ * Computes rolling returns for a window, one point per start date whose window fits in the data
+ * @param table Price table built from index_prices
+ * @param indices Indices to compute returns for
+ * @param window Rolling window length
+ * @param range Optional range of start dates to include
+ * @param calendar Exchange calendar windows end on, NSE by default
+ * @returns Start and end dates of each window with the return of every index over it
+ */
+export function computeRollingReturns(
+  table: PriceTable,
+  indices: string[],
+  window: RollingWindow,
+  range: RollingRange = {},
+  calendar: TradingCalendar = getTradingCalendar()
+): RollingReturnSeries {
+  const fromTime = range.fromDate ? range.fromDate.getTime() : -Infinity;
+  const toTime = range.toDate ? range.toDate.getTime() : Infinity;
+
+  const result: RollingReturnSeries = { window, fromDates: [], toDates: [], returns: {} };
+  indices.forEach(index => {
+    result.returns[index] = [];
+  });
+
+  for (let i = 0; i < table.dates.length; i++) {
+    const time = table.times[i];
+    if (time < fromTime) continue;
+    if (time > toTime) break;
+
+    // As in process_database.py, windows stop once their target date is past the last
+    // date, even when the trading day before the target isn't
+    const targetDate = addMonths(table.dates[i], window.months);
+    if (targetDate.getTime() > table.times[table.times.length - 1]) break;
+
+    const target = tradingDayOnOrBefore(targetDate, calendar).getTime();
+    const toIndex = findClosestTradingDay(table.times, target, i);
+    if (toIndex === null) break;
+
+    const actualDays = daysBetween(table.dates[i], table.dates[toIndex]);
+    result.fromDates.push(table.dates[i]);
+    result.toDates.push(table.dates[toIndex]);
+
+    indices.forEach(index => {
+      const prices = table.values[index] || [];
+      result.returns[index].push(windowReturn(prices[i] ?? null, prices[toIndex] ?? null, actualDays, window));
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Finds the most recent rolling return for each index
+ * @param series Rolling returns for a window
+ * @returns Latest available return per index, or null if the index has none
+ */
+export function latestReturns(series: RollingReturnSeries): Record<string, number | null> {
+  const latest: Record<string, number | null> = {};
+
+  Object.entries(series.returns).forEach(([index, values]) => {
+    latest[index] = null;
+    for (let i = values.length - 1; i >= 0; i--) {
+      if (values[i] !== null) {
+        latest[index] = values[i];
+        break;
+      }
+    }
+  });
+
+  return latest;
+}
@@ -6,10 +6,18 @@ import { StatsCard } from './components/StatsCard';
 import { BreakdownTable } from './components/BreakdownTable';
 import { SectorBreakdown } from './components/SectorBreakdown';
 import { MarketNews } from './components/MarketNews';
+import { MarketStatusBadge } from './components/LiveQuote';
 import { RollingReturnsPage } from './pages/RollingReturnsPage';
 import { IndexComparison } from './pages/IndexComparison';
 import { ProfilePage } from './pages/ProfilePage';
-import { apiService } from './services/api';
+import { PortfolioBuilder } from './pages/PortfolioBuilder';
+import { DrawdownPage } from './pages/DrawdownPage';
+import { CorrelationPage } from './pages/CorrelationPage';
+import { DataQualityPage } from './pages/DataQualityPage';
+import { apiService, type ChartRange, type ChartResponse, type MarketTick, type PeriodChange } from './services/api';
+import { CHART_RANGES } from './shared/api';
+import { formatMarketDate } from './shared/dates';
+import { combineCharts, toChartPoints } from './utils/portfolioChart';
 
 // Define interfaces for our data structure
 interface IndexDetails {
@@ -29,6 +37,7 @@ interface IndexInfo {
   percentage: string;
   change: number;
   details: IndexDetails;
+  changes?: PeriodChange[];
 }
 
 interface IndexDataType {
@@ -60,7 +69,8 @@ const animationStyles = `
 `;
 
 function App() {
-  const [currentPage, setCurrentPage] = useState<'dashboard' | 'data' | 'comparison' | 'profile'>('dashboard');
+  const [currentPage, setCurrentPage] = useState<'dashboard' | 'data' | 'drawdown' | 'comparison' | 'correlation' | 'portfolio' | 'quality' | 'profile'>('dashboard');
+  const [drawdownIndex, setDrawdownIndex] = useState<string | undefined>(undefined);
 
   // Fallback index data
   const fallbackIndexData: IndexDataType = {
@@ -175,14 +185,15 @@ function App() {
   };
 
   const [isTimeDropdownOpen, setIsTimeDropdownOpen] = useState(false);
-  const [timePeriod, setTimePeriod] = useState<30 | 60 | 90>(30);
+  const [chartRange, setChartRange] = useState<ChartRange>('1M');
   const [selectedIndex, setSelectedIndex] = useState<string | null>(null);
   const [liveIndexData, setLiveIndexData] = useState<IndexDataType>({});
   const [loading, setLoading] = useState<boolean>(true);
   const [marketSentiment, setMarketSentiment] = useState<any>(fallbackSentiment);
-  const [selectedIndexTimeSeries, setSelectedIndexTimeSeries] = useState<any[]>([]);
+  const [charts, setCharts] = useState<Record<string, ChartResponse>>({});
   const timeDropdownRef = useRef<HTMLDivElement>(null);
   const [inceptionDates, setInceptionDates] = useState<Record<string, string>>({});
+  const [marketOpen, setMarketOpen] = useState<boolean | null>(null);
 
   // Fetch real-time market data
   useEffect(() => {
@@ -204,7 +215,8 @@ function App() {
             value: index.value,
             percentage: index.allocation,
             change: changeValue,
-            details: index.details || fallbackIndexData[name]?.details
+            details: index.details || fallbackIndexData[name]?.details,
+            changes: index.changes
           };
         });
         
@@ -242,20 +254,61 @@ function App() {
     };
   }, []);
 
+  // Update the allocation cards in place as live ticks arrive between refreshes
+  useEffect(() => {
+    const applyTicks = (ticks: MarketTick[]) => {
+      setLiveIndexData(prev => {
+        const updated = { ...prev };
+        ticks.forEach(tick => {
+          if (!updated[tick.index]) return;
+          updated[tick.index] = {
+            ...updated[tick.index],
+            value: tick.price.toLocaleString('en-IN', { maximumFractionDigits: 2 }),
+            change: parseFloat(tick.changePercent.toFixed(2))
+          };
+        });
+        return updated;
+      });
+    };
+
+    return apiService.subscribeToMarketStream(event => {
+      if (event.type === 'tick') {
+        applyTicks([event.tick]);
+      } else {
+        setMarketOpen(event.open);
+        if (event.type === 'snapshot') applyTicks(event.ticks);
+      }
+    });
+  }, []);
+
   const handleIndexCardClick = (name: string) => {
-    if (selectedIndex === name) {
-      setSelectedIndex(null); // Deselect if already selected
-      // Reset to portfolio chart when deselecting
-      setSelectedIndexTimeSeries([]);
-    } else {
-      setSelectedIndex(name); // Select the new card
-      // Generate time series data for the selected index
-      generateIndexTimeSeries(name);
-    }
+    // Deselecting goes back to the portfolio chart
+    setSelectedIndex(selectedIndex === name ? null : name);
   };
 
   // Use either live data or fallback
   const indexData = Object.keys(liveIndexData).length > 0 ? liveIndexData : fallbackIndexData;
+  const indexNames = Object.keys(indexData).join('|');
+
+  // Fetch the chart of every index in the allocation for the selected range; the
+  // portfolio chart combines them all
+  useEffect(() => {
+    let cancelled = false;
+    const names = indexNames.split('|');
+
+    Promise.all(names.map(name => apiService.getChart(name, chartRange))).then(responses => {
+      if (cancelled) return;
+      const loaded: Record<string, ChartResponse> = {};
+      responses.forEach((response, i) => {
+        if (response) loaded[names[i]] = response;
+      });
+      setCharts(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [indexNames, chartRange]);
 
   // Calculate portfolio value and change from allocation data
   const calculatePortfolioValue = () => {
@@ -286,87 +339,18 @@ function App() {
     };
   };
   
-  // Generate historical portfolio data based on the allocation
-  const generatePortfolioTimeSeries = () => {
-    const data = [];
-    const currentValue = parseFloat(calculatePortfolioValue().totalValue);
-    
-    // Generate dates going back from today based on the selected time period
-    const today = new Date();
-    
-    // Map out a value for each day with small variations based on the indexes' performance
-    for (let i = timePeriod; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(today.getDate() - i);
-      // Format date as "yyyy-MM-dd" (ISO format)
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      const dateStr = `${year}-${month}-${day}`;
-      
-      // Use a simple function to generate historical values with some randomness
-      // but following the trend of the overall change
-      let factor = 0;
-      Object.entries(indexData).forEach(([name, data]) => {
-        const percentage = parseFloat(data.percentage) / 100;
-        factor += data.change * percentage;
-      });
-      
-      // Create a scaling factor with some randomness
-      const dayProgress = (timePeriod - i) / timePeriod;
-      const randomFactor = 0.92 + (Math.random() * 0.16); // Between 0.92 and 1.08
-      const scalingFactor = 1 + ((factor / 100) * dayProgress * randomFactor);
-      
-      // Calculate the simulated value for this date
-      const baseValue = currentValue / scalingFactor;
-      const value = Math.round(baseValue * 100) / 100;
-      
-      data.push({ date: dateStr, value });
-    }
-    
-    return data;
-  };
-
-  // Generate historical index data for a specific index
-  const generateIndexTimeSeries = (indexName: string) => {
-    const data = [];
-    const indexInfo = indexData[indexName];
-    if (!indexInfo) return;
-    
-    const currentValue = parseFloat(indexInfo.value.replace(/,/g, ''));
-    const indexChange = indexInfo.change;
-    
-    // Generate dates going back from today based on the selected time period
-    const today = new Date();
-    
-    // Map out a value for each day with variations based on the index performance
-    for (let i = timePeriod; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(today.getDate() - i);
-      // Format date as "yyyy-MM-dd" (ISO format)
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      const dateStr = `${year}-${month}-${day}`;
-      
-      // Create a scaling factor with some randomness
-      const dayProgress = (timePeriod - i) / timePeriod;
-      const randomFactor = 0.92 + (Math.random() * 0.16); // Between 0.92 and 1.08
-      const scalingFactor = 1 + ((indexChange / 100) * dayProgress * randomFactor);
-      
-      // Calculate the simulated value for this date
-      const baseValue = currentValue / scalingFactor;
-      const value = Math.round(baseValue * 100) / 100;
-      
-      data.push({ date: dateStr, value });
-    }
-    
-    setSelectedIndexTimeSeries(data);
-  };
-
   // Get portfolio data
   const portfolioData = calculatePortfolioValue();
-  const portfolioTimeSeries = generatePortfolioTimeSeries();
+  const portfolioTimeSeries = combineCharts(
+    Object.entries(indexData)
+      .filter(([name]) => charts[name])
+      .map(([name, data]) => ({
+        bars: charts[name].bars,
+        interval: charts[name].interval,
+        weight: parseFloat(data.percentage) / 100
+      }))
+  );
+  const selectedIndexTimeSeries = selectedIndex ? toChartPoints(charts[selectedIndex]?.bars || []) : [];
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -421,7 +405,7 @@ function App() {
                 <button
                   onClick={() => setCurrentPage('data')}
                   className={`px-3 py-2 text-sm font-medium transition-colors ${
-                    currentPage === 'data'
+                    currentPage === 'data' || currentPage === 'drawdown'
                       ? 'border-b-2 border-indigo-500 text-indigo-600'
                       : 'text-gray-500 hover:text-gray-700'
                   }`}
@@ -438,6 +422,36 @@ function App() {
                 >
                   Rolling Returns
                 </button>
+                <button
+                  onClick={() => setCurrentPage('correlation')}
+                  className={`px-3 py-2 text-sm font-medium transition-colors ${
+                    currentPage === 'correlation'
+                      ? 'border-b-2 border-indigo-500 text-indigo-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Correlation
+                </button>
+                <button
+                  onClick={() => setCurrentPage('portfolio')}
+                  className={`px-3 py-2 text-sm font-medium transition-colors ${
+                    currentPage === 'portfolio'
+                      ? 'border-b-2 border-indigo-500 text-indigo-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Portfolio Builder
+                </button>
+                <button
+                  onClick={() => setCurrentPage('quality')}
+                  className={`px-3 py-2 text-sm font-medium transition-colors ${
+                    currentPage === 'quality'
+                      ? 'border-b-2 border-indigo-500 text-indigo-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Data Quality
+                </button>
               </div>
             </div>
             <div className="flex items-center space-x-4">
@@ -499,31 +513,27 @@ function App() {
                       onClick={() => setIsTimeDropdownOpen(!isTimeDropdownOpen)}
                       className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 glassmorphic-light px-3 py-1 rounded-md"
                     >
-                      <span>{timePeriod} Days</span>
+                      <span>{chartRange}</span>
                       <ChevronDown size={16} />
                     </button>
                     {isTimeDropdownOpen && (
                       <div className="absolute right-0 mt-2 w-40 glassmorphic-light rounded-md shadow-lg z-10">
                         <div className="py-1">
-                          {[30, 60, 90].map((period) => (
+                          {CHART_RANGES.map((range) => (
                             <button
-                              key={period}
+                              key={range}
                               className={`block px-4 py-2 text-sm w-full text-left ${
-                                timePeriod === period
+                                chartRange === range
                                   ? 'bg-indigo-50 text-indigo-600'
                                   : 'text-gray-700 hover:bg-indigo-50 hover:text-indigo-600'
                               }`}
                               onClick={() => {
-                                setTimePeriod(period as 30 | 60 | 90);
+                                setChartRange(range);
                                 setIsTimeDropdownOpen(false);
-                                // Regenerate chart data when time period changes
-                                if (selectedIndex) {
-                                  generateIndexTimeSeries(selectedIndex);
-                                }
                               }}
                             >
-                              {period} Days
-                              {timePeriod === period && (
+                              {range}
+                              {chartRange === range && (
                                 <Check className="inline ml-2" size={16} />
                               )}
                             </button>
@@ -534,9 +544,9 @@ function App() {
                   </div>
                 </div>
                 {selectedIndex && selectedIndexTimeSeries.length > 0 ? (
-                  <PerformanceChart data={selectedIndexTimeSeries} />
+                  <PerformanceChart data={selectedIndexTimeSeries} period={chartRange} />
                 ) : (
-                  <PerformanceChart data={portfolioTimeSeries} />
+                  <PerformanceChart data={portfolioTimeSeries} period={chartRange} />
                 )}
               </div>
 
@@ -571,7 +581,10 @@ function App() {
             {/* Right Column */}
             <div className="space-y-8">
               <div>
-                <h3 className="text-xl font-semibold mb-4">Allocation</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold">Allocation</h3>
+                  <MarketStatusBadge open={marketOpen} />
+                </div>
                 {loading ? (
                   <div className="grid grid-cols-2 gap-4 mb-4">
                     {[...Array(6)].map((_, index) => (
@@ -658,17 +671,32 @@ function App() {
                         <p className="text-xs text-gray-500">52W Low</p>
                         <p className="font-medium">₹{indexData[selectedIndex].details.yearlyLow}</p>
                       </div>
-                      <div>
-                        <p className="text-xs text-gray-500">1M Change</p>
-                        <p className={`font-medium ${
-                          indexData[selectedIndex].details.monthlyChange.startsWith('+') 
-                            ? 'text-green-600' 
-                            : 'text-red-600'
-                        }`}>
-                          {indexData[selectedIndex].details.monthlyChange}
-                        </p>
-                      </div>
                     </div>
+
+                    {indexData[selectedIndex].changes && (
+                      <div className="grid grid-cols-3 gap-x-4 gap-y-3 mt-4 pt-4 border-t border-gray-200">
+                        {indexData[selectedIndex].changes?.map(periodChange => (
+                          <div
+                            key={periodChange.period}
+                            title={periodChange.referenceDate
+                              ? `Since the close of ${formatMarketDate(periodChange.referenceDate)}`
+                              : 'Not enough stored history'}
+                          >
+                            <p className="text-xs text-gray-500">{periodChange.period} Change</p>
+                            {periodChange.change === null ? (
+                              <p className="font-medium text-gray-400">N/A</p>
+                            ) : (
+                              <p className={`font-medium ${periodChange.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {periodChange.change >= 0 ? '+' : ''}{periodChange.change.toFixed(2)}%
+                              </p>
+                            )}
+                            {periodChange.referenceDate && (
+                              <p className="text-xs text-gray-400">vs {formatMarketDate(periodChange.referenceDate)}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     
                     <div className="mt-4 pt-4 border-t border-gray-200">
                       <button 
@@ -690,9 +718,26 @@ function App() {
           </div>
         </main>
       ) : currentPage === 'data' ? (
-        <RollingReturnsPage />
+        <RollingReturnsPage 
+          onViewDrawdowns={(index) => {
+            setDrawdownIndex(index);
+            setCurrentPage('drawdown');
+          }} 
+        />
+      ) : currentPage === 'drawdown' ? (
+        <DrawdownPage 
+          key={drawdownIndex} 
+          initialIndex={drawdownIndex} 
+          onBack={() => setCurrentPage('data')} 
+        />
       ) : currentPage === 'comparison' ? (
         <IndexComparison />
+      ) : currentPage === 'correlation' ? (
+        <CorrelationPage />
+      ) : currentPage === 'portfolio' ? (
+        <PortfolioBuilder />
+      ) : currentPage === 'quality' ? (
+        <DataQualityPage />
       ) : (
         <ProfilePage />
       )}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { apiService } from '../services/api';
+import { FlashOnChange, MarketStatusBadge } from './LiveQuote';
 
 interface IndexData {
   name: string;
@@ -14,6 +15,8 @@ export const BreakdownTable: React.FC = () => {
   const [indices, setIndices] = useState<IndexData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [stale, setStale] = useState<boolean>(false);
+  const [marketOpen, setMarketOpen] = useState<boolean | null>(null);
 
   useEffect(() => {
     const fetchIndices = async () => {
@@ -22,6 +25,7 @@ export const BreakdownTable: React.FC = () => {
         const response = await apiService.getMarketIndices();
         // Extract the indices array from the response
         setIndices(response.indices || []);
+        setStale(response.stale);
         setError(null);
       } catch (err) {
         console.error('Failed to fetch market indices:', err);
@@ -91,6 +95,24 @@ export const BreakdownTable: React.FC = () => {
     return () => clearInterval(intervalId);
   }, []);
 
+  // Update rows in place as live ticks arrive between refreshes
+  useEffect(() => {
+    return apiService.subscribeToMarketStream(event => {
+      if (event.type !== 'tick') {
+        setMarketOpen(event.open);
+      }
+      const ticks = event.type === 'tick' ? [event.tick] : event.type === 'snapshot' ? event.ticks : [];
+      if (ticks.length === 0) return;
+
+      setIndices(prev => prev.map(index => {
+        const tick = ticks.find(t => t.index === index.name);
+        if (!tick) return index;
+        const price = tick.price.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+        return { ...index, value: price, price, change: tick.changePercent.toFixed(2) + '%' };
+      }));
+    });
+  }, []);
+
   if (loading) {
     return (
       <div className="bg-white rounded-xl shadow-sm p-6 flex justify-center items-center h-64">
@@ -109,6 +131,16 @@ export const BreakdownTable: React.FC = () => {
           <p className="text-yellow-700 text-sm">{error}</p>
         </div>
       )}
+      {marketOpen !== null && (
+        <div className="flex justify-end px-6 py-3 border-b border-gray-100">
+          <MarketStatusBadge open={marketOpen} />
+        </div>
+      )}
+      {!error && stale && (
+        <div className="bg-yellow-50 p-4 border-b border-yellow-100">
+          <p className="text-yellow-700 text-sm">Live quotes are delayed. Showing the last available prices.</p>
+        </div>
+      )}
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           <tr>
@@ -142,7 +174,11 @@ export const BreakdownTable: React.FC = () => {
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">₹{index.value}</td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{index.allocation}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">₹{index.price}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                <FlashOnChange value={parseFloat(index.price.replace(/,/g, ''))} className="px-1 -mx-1">
+                  ₹{index.price}
+                </FlashOnChange>
+              </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm">
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                   index.change.startsWith('-') ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
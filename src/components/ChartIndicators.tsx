@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Plus, X } from 'lucide-react';
+import { indicatorStore } from '../services/indicatorStore';
+import {
+  INDICATORS,
+  describeIndicator,
+  fitParam,
+  indicatorPath,
+  type IndicatorConfig,
+  type IndicatorKind,
+  type IndicatorOutput,
+  type IndicatorParam
+} from '../utils/indicators';
+
+interface IndicatorPickerProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+// Dropdown to add, configure and remove the chart's indicators
+export const IndicatorPicker: React.FC<IndicatorPickerProps> = ({ indicators, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const add = (kind: IndicatorKind) => onChange([...indicators, indicatorStore.create(kind, indicators)]);
+
+  // A cleared or partly typed field isn't a number yet, so the last value is kept
+  const updateParam = (id: string, param: IndicatorParam, input: string) => {
+    const value = parseFloat(input);
+    if (isNaN(value)) return;
+    onChange(indicators.map(config =>
+      config.id === id ? { ...config, params: { ...config.params, [param.key]: fitParam(param, value) } } : config
+    ));
+  };
+
+  return (
+    <div className="relative inline-block mr-3" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center space-x-1 text-xs text-gray-600 hover:text-gray-800 glassmorphic-light px-2 py-0.5 rounded-md"
+      >
+        <span>Indicators{indicators.length > 0 ? ` (${indicators.length})` : ''}</span>
+        <ChevronDown size={14} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 glassmorphic-light rounded-md shadow-lg z-20 p-3 text-left">
+          {indicators.map(config => (
+            <div key={config.id} className="mb-3">
+              <div className="flex items-center justify-between text-xs font-medium text-gray-700">
+                <span className="flex items-center gap-1.5">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: config.color }} />
+                  {describeIndicator(config)}
+                </span>
+                <button
+                  onClick={() => onChange(indicators.filter(other => other.id !== config.id))}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${describeIndicator(config)}`}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+              <div className="flex gap-2 mt-1">
+                {INDICATORS[config.kind].params.map(param => (
+                  <label key={param.key} className="flex-1 text-[11px] text-gray-500">
+                    {param.label}
+                    <input
+                      type="number"
+                      min={param.min}
+                      max={param.max}
+                      step={param.step ?? 1}
+                      value={config.params[param.key]}
+                      onChange={e => updateParam(config.id, param, e.target.value)}
+                      className="w-full mt-0.5 px-1.5 py-0.5 text-xs text-gray-700 bg-white/60 border border-gray-200 rounded"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className={indicators.length > 0 ? 'border-t border-gray-200 pt-2' : ''}>
+            {Object.values(INDICATORS).map(definition => (
+              <button
+                key={definition.kind}
+                onClick={() => add(definition.kind)}
+                className="flex items-center w-full px-1 py-1 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-600 rounded"
+              >
+                <Plus size={12} className="mr-1.5" />
+                {definition.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface IndicatorPaneProps {
+  label: string;
+  output: IndicatorOutput;
+  // Point under the mouse in the main chart, whose values the pane shows
+  hoveredIndex: number | null;
+}
+
+// An indicator drawn below the chart on its own scale, e.g. RSI or MACD
+export const IndicatorPane: React.FC<IndicatorPaneProps> = ({ label, output, hoveredIndex }) => {
+  const values = [
+    ...output.lines.flatMap(line => line.values),
+    ...(output.histogram || []),
+    ...(output.guides || [])
+  ].filter((value): value is number => value !== null && Number.isFinite(value));
+  if (values.length === 0) return null;
+
+  const [min, max] = output.scale || [Math.min(...values), Math.max(...values)];
+  const range = max - min || 1;
+  const getY = (value: number): number => 95 - ((value - min) / range) * 90;
+
+  const length = output.lines[0]?.values.length ?? 0;
+  const shown = hoveredIndex ?? length - 1;
+  const barWidth = (100 / Math.max(length, 1)) * 0.6;
+
+  return (
+    <div className="relative h-16 w-full glassmorphic p-2 rounded-lg border-glass mt-2">
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-full overflow-visible">
+        {output.guides?.map(guide => (
+          <line
+            key={guide}
+            x1="0"
+            x2="100"
+            y1={getY(guide)}
+            y2={getY(guide)}
+            stroke="rgba(156, 163, 175, 0.6)"
+            strokeWidth="0.5"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {output.histogram?.map((value, i) =>
+          value === null ? null : (
+            <rect
+              key={i}
+              x={(i / Math.max(length - 1, 1)) * 100 - barWidth / 2}
+              y={Math.min(getY(value), getY(0))}
+              width={barWidth}
+              height={Math.abs(getY(value) - getY(0))}
+              fill={value >= 0 ? '#10B981' : '#EF4444'}
+              opacity="0.4"
+            />
+          )
+        )}
+        {output.lines.map(line => (
+          <path
+            key={line.label}
+            d={indicatorPath(line.values, getY)}
+            fill="none"
+            stroke={line.color}
+            strokeWidth="1.5"
+            strokeDasharray={line.dashed ? '4 3' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <div className="absolute left-2 top-1 text-[11px] text-gray-600 backdrop-blur-sm px-1 rounded">
+        {label}
+        {output.lines.map(line => {
+          const value = line.values[shown];
+          return value === null || value === undefined ? null : (
+            <span key={line.label} className="ml-2" style={{ color: line.color }}>
+              {value.toFixed(2)}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React from 'react';
 import { AlertTriangle, ChevronRight, TrendingUp, TrendingDown, Calendar } from 'lucide-react';
+import { formatMarketDate } from '../shared/dates';
+import { FlashOnChange } from './LiveQuote';
 
 interface IndexCardProps {
   name: string;
@@ -25,37 +27,8 @@ export const IndexCard: React.FC<IndexCardProps> = ({
   inceptionDate
 }) => {
   // Format the inception date
-  const formatDate = (dateStr?: string) => {
-    if (!dateStr) return 'N/A';
-    try {
-      // Handle dates in MM/DD/YYYY format
-      const parts = dateStr.split('/');
-      if (parts.length === 3) {
-        const month = parseInt(parts[0]) - 1;
-        const day = parseInt(parts[1]);
-        const year = parseInt(parts[2]);
-        const d = new Date(year, month, day);
-        return d.toLocaleDateString('en-US', { 
-          day: 'numeric',
-          month: 'short',
-          year: 'numeric'
-        });
-      }
-      
-      // Fall back to standard date parsing
-      const d = new Date(dateStr);
-      if (isNaN(d.getTime())) return dateStr; // Return original if invalid
-      
-      return d.toLocaleDateString('en-US', { 
-        day: 'numeric',
-        month: 'short',
-        year: 'numeric'
-      });
-    } catch (e) {
-      console.warn('Error formatting date:', e);
-      return dateStr; // Return original on error
-    }
-  };
+  const formatDate = (dateStr?: string) => (dateStr && formatMarketDate(dateStr)) || 'N/A';
+
 
   return (
     <div
@@ -82,7 +55,9 @@ export const IndexCard: React.FC<IndexCardProps> = ({
           <div>
             <p className="text-sm text-gray-600">Return</p>
             <p className={`font-semibold text-xl ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-              {value}
+              <FlashOnChange value={parseFloat(value.replace(/,/g, ''))} className="px-1 -mx-1">
+                {value}
+              </FlashOnChange>
             </p>
           </div>
           <div className={`px-2 py-1 rounded-full text-xs font-medium ${
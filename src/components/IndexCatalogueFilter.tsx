@@ -0,0 +1,63 @@
+import React from 'react';
+import type { IndexInfo } from '../services/api';
+import { INDEX_CATEGORIES, listProviders, type IndexFilter } from '../utils/indexCatalogue';
+
+interface IndexCatalogueFilterProps {
+  catalogue: IndexInfo[];
+  filter: IndexFilter;
+  onChange: (filter: IndexFilter) => void;
+  className?: string;
+}
+
+export const IndexCatalogueFilter: React.FC<IndexCatalogueFilterProps> = ({
+  catalogue,
+  filter,
+  onChange,
+  className = ''
+}) => {
+  const providers = listProviders(catalogue);
+  const categories = [{ value: 'all' as const, label: 'All' }, ...INDEX_CATEGORIES];
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap gap-1">
+        {categories.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ ...filter, category: value })}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+              filter.category === value
+                ? 'bg-indigo-500 text-white'
+                : 'glassmorphic-light text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {providers.length > 1 && (
+          <select
+            value={filter.provider}
+            onChange={(e) => onChange({ ...filter, provider: e.target.value })}
+            className="flex-1 px-2 py-1 text-xs glassmorphic-light rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="all">All providers</option>
+            {providers.map(provider => (
+              <option key={provider} value={provider}>{provider}</option>
+            ))}
+          </select>
+        )}
+        <select
+          value={filter.variant}
+          onChange={(e) => onChange({ ...filter, variant: e.target.value as IndexFilter['variant'] })}
+          className="flex-1 px-2 py-1 text-xs glassmorphic-light rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="all">Price and total return</option>
+          <option value="PRI">Price (PRI)</option>
+          <option value="TRI">Total return (TRI)</option>
+        </select>
+      </div>
+    </div>
+  );
+};
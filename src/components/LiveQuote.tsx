@@ -0,0 +1,50 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface FlashOnChangeProps {
+  value: number;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Flashes green or red for a second when the value goes up or down
+export const FlashOnChange: React.FC<FlashOnChangeProps> = ({ value, className = '', children }) => {
+  const previous = useRef(value);
+  const [flash, setFlash] = useState<{ direction: 'up' | 'down'; count: number } | null>(null);
+
+  useEffect(() => {
+    if (value === previous.current) return;
+    const direction = value > previous.current ? 'up' : 'down';
+    previous.current = value;
+    setFlash(prev => ({ direction, count: (prev?.count || 0) + 1 }));
+
+    const timer = setTimeout(() => setFlash(null), 1000);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  return (
+    // A new key restarts the animation when the value moves twice in the same direction
+    <span key={flash?.count} className={`${className} rounded ${flash ? `flash-${flash.direction}` : ''}`}>
+      {children}
+    </span>
+  );
+};
+
+interface MarketStatusBadgeProps {
+  // Null until the market stream has reported
+  open: boolean | null;
+}
+
+export const MarketStatusBadge: React.FC<MarketStatusBadgeProps> = ({ open }) => {
+  if (open === null) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium ${
+        open ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+      }`}
+    >
+      <span className={`w-2 h-2 rounded-full ${open ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`} />
+      {open ? 'Market open' : 'Market closed'}
+    </span>
+  );
+};
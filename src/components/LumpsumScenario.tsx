@@ -1,18 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
-  AreaChart, Area, XAxis, YAxis, CartesianGrid, 
-  Tooltip, ResponsiveContainer, ReferenceLine 
+  ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, 
+  Tooltip, ResponsiveContainer, ReferenceLine, Legend
 } from 'recharts';
+import { apiService } from '../services/api';
+import { formatMarketDate } from '../shared/dates';
+import { toPriceSeries, type PricePoint } from '../utils/financeUtils';
+import { computeLumpsumOutcomes, type LumpsumOutcomes } from '../utils/lumpsumOutcomes';
 
 interface LumpsumScenarioProps {
   period: string;
+  indices: string[];
+  startDate?: Date | null;
+  endDate?: Date | null;
 }
 
-const LumpsumScenario: React.FC<LumpsumScenarioProps> = ({ period }) => {
+const LumpsumScenario: React.FC<LumpsumScenarioProps> = ({ period, indices, startDate, endDate }) => {
   const [investment, setInvestment] = useState<string>("1000");
   const [isSaved, setIsSaved] = useState<boolean>(false);
   const [showMessage, setShowMessage] = useState<boolean>(false);
   const [windowSize, setWindowSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [selectedIndex, setSelectedIndex] = useState<string>(indices[0] || '');
+  const [priceSeries, setPriceSeries] = useState<Record<string, PricePoint[]>>({});
+  const [loading, setLoading] = useState<boolean>(false);
   
   // Add window resize listener
   useEffect(() => {
@@ -27,42 +37,81 @@ const LumpsumScenario: React.FC<LumpsumScenarioProps> = ({ period }) => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
   
-  // Generate some mock data for the chart
-  const generateChartData = () => {
-    try {
-      const data = [];
-      const years = parseInt(period?.replace('Y', '') || '1');
-      const months = years * 12;
-      const initialAmount = parseFloat(investment) || 1000;
-      
-      // Assume a conservative 10% annual growth rate for demonstration
-      const monthlyGrowthRate = Math.pow(1.10, 1/12) - 1;
-      
-      for (let i = 0; i <= months; i++) {
-        const growthFactor = Math.pow(1 + monthlyGrowthRate, i);
-        const currentValue = initialAmount * growthFactor;
-        
-        // Create date for x-axis - go backwards from today
-        const date = new Date();
-        date.setMonth(date.getMonth() - (months - i));
-        
-        data.push({
-          month: i,
-          value: currentValue,
-          date: `${date.toLocaleString('default', { month: 'short' })} ${date.getFullYear()}`
+  // Keep the selected index in sync with the indices chosen on the comparison page
+  useEffect(() => {
+    if (indices.length > 0 && !indices.includes(selectedIndex)) {
+      setSelectedIndex(indices[0]);
+    }
+  }, [indices, selectedIndex]);
+
+  // Fetch price history for any selected index we haven't loaded yet
+  useEffect(() => {
+    const missing = indices.filter(index => !priceSeries[index]);
+    if (missing.length === 0) return;
+
+    const fetchPrices = async () => {
+      setLoading(true);
+      try {
+        const results = await Promise.all(missing.map(index => apiService.getHistoricalData(index)));
+        setPriceSeries(prev => {
+          const next = { ...prev };
+          missing.forEach((index, i) => {
+            next[index] = toPriceSeries(results[i]);
+          });
+          return next;
         });
+      } catch (error) {
+        console.error('Error loading prices for lumpsum scenario:', error);
+      } finally {
+        setLoading(false);
       }
-      
-      return data;
-    } catch (err) {
-      console.error("Error generating chart data:", err);
-      // Return some fallback data
-      return [
-        { month: 0, value: 1000, date: 'Jan 2023' },
-        { month: 12, value: 1100, date: 'Jan 2024' }
-      ];
+    };
+
+    fetchPrices();
+  }, [indices, priceSeries]);
+
+  const getSafeInvestmentValue = () => {
+    try {
+      return parseFloat(investment) || 1000;
+    } catch {
+      return 1000;
     }
   };
+
+  const years = parseInt(period?.replace('Y', '') || '1') || 1;
+  const amount = getSafeInvestmentValue();
+
+  // Replay the investment from every start date in the window, for every selected index
+  const outcomes = useMemo(() => {
+    const result: Record<string, LumpsumOutcomes> = {};
+    indices.forEach(index => {
+      const series = priceSeries[index];
+      if (series) {
+        result[index] = computeLumpsumOutcomes(series, {
+          years,
+          amount,
+          windowStart: startDate,
+          windowEnd: endDate
+        });
+      }
+    });
+    return result;
+  }, [indices, priceSeries, years, amount, startDate, endDate]);
+
+  const selectedOutcomes = outcomes[selectedIndex];
+  
+  const generateChartData = () => {
+    if (!selectedOutcomes || !selectedOutcomes.best) return [];
+
+    return selectedOutcomes.bands.map(band => ({
+      month: band.month,
+      label: band.month % 12 === 0 ? `Year ${band.month / 12}` : `Month ${band.month}`,
+      band: [band.p10, band.p90],
+      best: selectedOutcomes.best!.values[band.month],
+      median: selectedOutcomes.median!.values[band.month],
+      worst: selectedOutcomes.worst!.values[band.month]
+    }));
+  };
   
   const chartData = generateChartData();
   
@@ -79,31 +128,12 @@ const LumpsumScenario: React.FC<LumpsumScenarioProps> = ({ period }) => {
     return `₹${value.toFixed(2)}`;
   };
   
-  const getSafeInvestmentValue = () => {
-    try {
-      return parseFloat(investment) || 1000;
-    } catch {
-      return 1000;
-    }
+  const formatDate = (date?: Date) => {
+    if (!date) return 'N/A';
+    return formatMarketDate(date);
   };
   
-  const getSafeFinalValue = () => {
-    try {
-      return chartData[chartData.length - 1]?.value || 0;
-    } catch {
-      return 0;
-    }
-  };
-  
-  const calculateGrowthPercentage = () => {
-    try {
-      const initialValue = getSafeInvestmentValue();
-      const finalValue = getSafeFinalValue();
-      return ((finalValue / initialValue) - 1) * 100;
-    } catch {
-      return 0;
-    }
-  };
+  const growthPercentage = (finalValue: number) => ((finalValue / amount) - 1) * 100;
   
   return (
     <div className="glassmorphic-card p-6 border-glass mb-8">
@@ -126,8 +156,20 @@ const LumpsumScenario: React.FC<LumpsumScenarioProps> = ({ period }) => {
               className="w-24 px-6 py-1 rounded border border-gray-300 text-right"
             />
           </div>
-          <span className="text-sm text-gray-500">for {period || '1Y'} |</span>
-          <span className="text-sm text-gray-500">Rolling returns chart</span>
+          <span className="text-sm text-gray-500">for {period || '1Y'} in</span>
+          <select
+            value={selectedIndex}
+            onChange={(e) => setSelectedIndex(e.target.value)}
+            className="px-2 py-1 rounded border border-gray-300 text-sm"
+          >
+            {indices.map(index => (
+              <option key={index} value={index}>{index}</option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-500">|</span>
+          <span className="text-sm text-gray-500">
+            Outcomes across {selectedOutcomes?.startCount || 0} historical start dates
+          </span>
         </div>
         
         <button 
@@ -144,88 +186,137 @@ const LumpsumScenario: React.FC<LumpsumScenarioProps> = ({ period }) => {
         </div>
       )}
       
-      <div className="mt-4 h-64">
-        <ResponsiveContainer 
-          width="100%" 
-          height="100%" 
-          key={`lumpsum-chart-${period}-${investment}-${windowSize.width}`}
-        >
-          <AreaChart 
-            data={chartData} 
-            margin={{ top: 15, right: 15, left: 15, bottom: 15 }}
-          >
-            <defs>
-              <linearGradient id="colorInvestment" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#10B981" stopOpacity={0.8}/>
-                <stop offset="95%" stopColor="#10B981" stopOpacity={0.1}/>
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
-            <XAxis 
-              dataKey="date" 
-              tick={{ fontSize: 10 }}
-              tickMargin={10}
-              interval="equidistantPreserveStart"
-              padding={{ left: 10, right: 10 }}
-              height={40}
-            />
-            <YAxis 
-              tickFormatter={(value) => `₹${value.toFixed(0)}`}
-              tick={{ fontSize: 10 }}
-              width={70}
-              padding={{ top: 15, bottom: 15 }}
-              domain={['auto', 'auto']}
-            />
-            <Tooltip 
-              formatter={(value: any) => [formatCurrency(value), 'Value']}
-              labelFormatter={(label) => `Date: ${label || ''}`}
-              contentStyle={{ 
-                fontSize: '12px',
-                padding: '8px',
-                border: '1px solid #e2e8f0',
-                borderRadius: '4px'
-              }}
-              cursor={{stroke: 'rgba(0,0,0,0.2)', strokeWidth: 1, strokeDasharray: '5 5'}}
-            />
-            <ReferenceLine 
-              y={getSafeInvestmentValue()} 
-              stroke="#666" 
-              strokeDasharray="3 3" 
-              label={{ 
-                value: 'Initial Investment', 
-                position: 'insideBottomRight',
-                fontSize: 10
-              }} 
-            />
-            <Area 
-              type="monotone" 
-              dataKey="value" 
-              stroke="#10B981" 
-              fillOpacity={1} 
-              fill="url(#colorInvestment)" 
-              isAnimationActive={false}
-            />
-          </AreaChart>
-        </ResponsiveContainer>
-      </div>
-      
-      <div className="mt-4 flex justify-between text-sm">
-        <div className="text-gray-500">
-          <div>Initial: <span className="font-medium">₹{getSafeInvestmentValue().toFixed(2)}</span></div>
-          <div>
-            Final: <span className="font-medium text-green-600">
-              ₹{getSafeFinalValue().toFixed(2)}
-            </span>
-          </div>
+      {loading && !selectedOutcomes ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-500"></div>
         </div>
-        <div className="text-gray-500">
-          <div>
-            Growth: <span className="font-medium text-green-600">
-              {calculateGrowthPercentage().toFixed(2)}%
-            </span>
-          </div>
-          <div>Period: <span className="font-medium">{period || '1Y'}</span></div>
+      ) : chartData.length === 0 ? (
+        <div className="flex justify-center items-center h-64 text-gray-500 text-sm text-center">
+          Not enough price history for {selectedIndex || 'this index'} to hold an investment for {period || '1Y'} within the selected date range.
         </div>
+      ) : (
+        <div className="mt-4 h-64">
+          <ResponsiveContainer 
+            width="100%" 
+            height="100%" 
+            key={`lumpsum-chart-${period}-${investment}-${selectedIndex}-${windowSize.width}`}
+          >
+            <ComposedChart 
+              data={chartData} 
+              margin={{ top: 15, right: 15, left: 15, bottom: 15 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+              <XAxis 
+                dataKey="label" 
+                tick={{ fontSize: 10 }}
+                tickMargin={10}
+                interval="equidistantPreserveStart"
+                padding={{ left: 10, right: 10 }}
+                height={40}
+              />
+              <YAxis 
+                tickFormatter={(value) => `₹${value.toFixed(0)}`}
+                tick={{ fontSize: 10 }}
+                width={70}
+                padding={{ top: 15, bottom: 15 }}
+                domain={['auto', 'auto']}
+              />
+              <Tooltip 
+                formatter={(value: number | number[], name: string) => [
+                  Array.isArray(value) ? `${formatCurrency(value[0])} - ${formatCurrency(value[1])}` : formatCurrency(value),
+                  name
+                ]}
+                labelFormatter={(label) => `${label || ''} after investing`}
+                contentStyle={{ 
+                  fontSize: '12px',
+                  padding: '8px',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '4px'
+                }}
+                cursor={{stroke: 'rgba(0,0,0,0.2)', strokeWidth: 1, strokeDasharray: '5 5'}}
+              />
+              <Legend iconType="circle" iconSize={8} />
+              <ReferenceLine 
+                y={amount} 
+                stroke="#666" 
+                strokeDasharray="3 3" 
+                label={{ 
+                  value: 'Initial Investment', 
+                  position: 'insideBottomRight',
+                  fontSize: 10
+                }} 
+              />
+              <Area 
+                type="monotone" 
+                dataKey="band" 
+                name="10th - 90th percentile"
+                stroke="none" 
+                fill="#10B981" 
+                fillOpacity={0.15} 
+                isAnimationActive={false}
+              />
+              <Line type="monotone" dataKey="best" name="Best" stroke="#10B981" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="median" name="Median" stroke="#3B82F6" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="worst" name="Worst" stroke="#EF4444" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="py-2 text-left font-medium">Index</th>
+              <th className="py-2 text-center font-medium">Start Dates</th>
+              <th className="py-2 text-center font-medium">Best</th>
+              <th className="py-2 text-center font-medium">Median</th>
+              <th className="py-2 text-center font-medium">Worst</th>
+              <th className="py-2 text-center font-medium">Chance of Loss</th>
+            </tr>
+          </thead>
+          <tbody>
+            {indices.map(index => {
+              const result = outcomes[index];
+              if (!result || !result.best || !result.median || !result.worst) {
+                return (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="py-2">{index}</td>
+                    <td colSpan={5} className="py-2 text-center text-gray-400">
+                      {priceSeries[index] ? 'Not enough history' : 'Loading...'}
+                    </td>
+                  </tr>
+                );
+              }
+              
+              const final = (path: typeof result.best) => path!.values[result.months];
+              
+              return (
+                <tr 
+                  key={index} 
+                  className={`border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${index === selectedIndex ? 'font-medium' : ''}`}
+                  onClick={() => setSelectedIndex(index)}
+                >
+                  <td className="py-2">{index}</td>
+                  <td className="py-2 text-center">{result.startCount}</td>
+                  <td className="py-2 text-center">
+                    <div className="text-green-600">{formatCurrency(final(result.best))} ({growthPercentage(final(result.best)).toFixed(1)}%)</div>
+                    <div className="text-xs text-gray-400">from {formatDate(result.best.startDate)}</div>
+                  </td>
+                  <td className="py-2 text-center">
+                    <div>{formatCurrency(final(result.median))} ({growthPercentage(final(result.median)).toFixed(1)}%)</div>
+                    <div className="text-xs text-gray-400">from {formatDate(result.median.startDate)}</div>
+                  </td>
+                  <td className="py-2 text-center">
+                    <div className="text-red-600">{formatCurrency(final(result.worst))} ({growthPercentage(final(result.worst)).toFixed(1)}%)</div>
+                    <div className="text-xs text-gray-400">from {formatDate(result.worst.startDate)}</div>
+                  </td>
+                  <td className="py-2 text-center">{result.lossProbability.toFixed(1)}%</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
     </div>
   );
@@ -0,0 +1,56 @@
+import React from 'react';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { fromLocalDate, marketToday, toLocalDate } from '../shared/dates';
+
+interface MarketDatePickerProps {
+  selected: Date | null;
+  onChange: (date: Date | null) => void;
+  minDate?: Date | null;
+  maxDate?: Date | null;
+  filterDate?: (date: Date) => boolean;
+  selectsStart?: boolean;
+  selectsEnd?: boolean;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  placeholderText?: string;
+  dateFormat?: string;
+  className?: string;
+  isClearable?: boolean;
+}
+
+const toPicker = (date: Date | null | undefined) => (date ? toLocalDate(date) : undefined);
+
+/**
+ * Date picker working in market dates (UTC midnight, see shared/dates). react-datepicker
+ * works in local midnight, so dates are converted on the way in and out; the latest
+ * selectable date defaults to today in IST.
+ */
+export const MarketDatePicker: React.FC<MarketDatePickerProps> = ({
+  selected,
+  onChange,
+  minDate,
+  maxDate,
+  filterDate,
+  startDate,
+  endDate,
+  dateFormat = 'MMM d, yyyy',
+  ...props
+}) => {
+  return (
+    <DatePicker
+      {...props}
+      selected={toPicker(selected) ?? null}
+      onChange={(date: Date | null) => onChange(date ? fromLocalDate(date) : null)}
+      minDate={toPicker(minDate)}
+      maxDate={toPicker(maxDate ?? marketToday())}
+      filterDate={filterDate && ((date: Date) => filterDate(fromLocalDate(date)))}
+      startDate={toPicker(startDate)}
+      endDate={toPicker(endDate)}
+      dateFormat={dateFormat}
+      showMonthDropdown
+      showYearDropdown
+      dropdownMode="select"
+    />
+  );
+};
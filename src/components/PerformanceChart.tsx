@@ -1,11 +1,44 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { formatMarketDate, formatMarketTime } from '../shared/dates';
 import { transformDateForRollingReturnsChart } from '../utils/dateUtils';
+import { indicatorStore } from '../services/indicatorStore';
+import {
+  INDICATORS,
+  computeIndicator,
+  describeIndicator,
+  indicatorPath,
+  sliceIndicator,
+  type IndicatorConfig
+} from '../utils/indicators';
+import { IndicatorPane, IndicatorPicker } from './ChartIndicators';
 
 interface ChartPoint {
   date: string;
   value: number;
+  // Session prices and volume where the data source has them, drawn as candles and a
+  // volume pane; value is the close
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  volume?: number | null;
 }
 
+interface Candle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// The point's candle, or null when it has a close only
+const candleOf = (point: ChartPoint): Candle | null =>
+  typeof point.open === 'number' && typeof point.high === 'number' && typeof point.low === 'number'
+    ? { open: point.open, high: point.high, low: point.low, close: point.value }
+    : null;
+
+const formatVolume = (volume: number): string =>
+  volume.toLocaleString('en-IN', { notation: 'compact', maximumFractionDigits: 1 });
+
 interface PerformanceChartProps {
   data: ChartPoint[];
   period?: string;
@@ -17,27 +50,19 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
   const [zoomRange, setZoomRange] = useState<[number, number] | null>(null);
   const [isZooming, setIsZooming] = useState<boolean>(false);
   const [startZoomX, setStartZoomX] = useState<number | null>(null);
+  const [mode, setMode] = useState<'line' | 'candle'>('line');
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(() => indicatorStore.getAll());
   const svgRef = useRef<SVGSVGElement>(null);
   
   if (!data || data.length < 2) {
     return <div className="h-48 flex items-center justify-center text-gray-500">No data available</div>;
   }
   
-  // Format date for display (convert YYYY-MM-DD to MMM DD format)
-  const formatDate = (dateStr: string): string => {
-    try {
-      const date = new Date(dateStr);
-      // Check if date is valid
-      if (isNaN(date.getTime())) return dateStr;
-      
-      return date.toLocaleDateString('en-US', { 
-        month: 'short', 
-        day: 'numeric'
-      });
-    } catch (e) {
-      return dateStr; // Return original if error
-    }
-  };
+  // Format date for display: MMM DD for YYYY-MM-DD dates, the IST time for intraday
+  // timestamps, with the day as well when the chart spans several sessions
+  const formatDate = (dateStr: string): string => dateStr.includes('T')
+    ? formatMarketTime(dateStr, period !== '1D') || dateStr
+    : formatMarketDate(dateStr, 'dayMonth') || dateStr;
   
   // Use the original dates but format them for display
   const transformedData = data.map(point => ({
@@ -50,8 +75,37 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
     ? transformedData.slice(zoomRange[0], zoomRange[1] + 1) 
     : transformedData;
   
-  // Get min and max values for scaling
-  const values = displayData.map(d => d.value);
+  // Indicators are computed over the whole series, so zooming doesn't change their warm-up
+  const shownIndicators = indicators.map(config => {
+    const output = computeIndicator(config, data);
+    return {
+      config,
+      placement: INDICATORS[config.kind].placement,
+      output: zoomRange ? sliceIndicator(output, zoomRange[0], zoomRange[1]) : output
+    };
+  });
+  const overlayLines = shownIndicators
+    .filter(indicator => indicator.placement === 'overlay')
+    .flatMap(({ config, output }) => output.lines.map(line => ({ ...line, key: `${config.id}-${line.label}` })));
+  const panes = shownIndicators.filter(indicator => indicator.placement === 'pane');
+
+  const changeIndicators = (next: IndicatorConfig[]) => {
+    setIndicators(next);
+    indicatorStore.save(next);
+  };
+
+  // Candles are drawn when chosen and the data has them; points without one show as a
+  // flat candle at the close
+  const hasCandles = data.some(point => candleOf(point) !== null);
+  const showCandles = mode === 'candle' && hasCandles;
+  const volumes = displayData.map(point => (typeof point.volume === 'number' ? point.volume : 0));
+  const maxVolume = Math.max(...volumes);
+
+  // Get min and max values for scaling; a gap or bad value must not stretch the scale to NaN
+  const values = [
+    ...(showCandles ? displayData.flatMap(d => [d.high ?? d.value, d.low ?? d.value]) : displayData.map(d => d.value)),
+    ...overlayLines.flatMap(line => line.values)
+  ].filter((value): value is number => value !== null && Number.isFinite(value));
   const minValue = Math.min(...values) * 0.95; // Add 5% padding
   const maxValue = Math.max(...values) * 1.05;
   const valueRange = maxValue - minValue;
@@ -75,6 +129,10 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
   
   // Create the fill path that goes to the bottom
   const fillPath = `${pathPoints} L 100 100 L 0 100 Z`;
+
+  // Bars take 60% of the space between points
+  const getX = (i: number): number => (i / (displayData.length - 1)) * 100;
+  const barWidth = (100 / displayData.length) * 0.6;
   
   // Format for display
   const formatCurrency = (value: number): string => {
@@ -175,6 +233,22 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
           </div>
         </div>
         <div className="text-sm text-gray-500">
+          <IndicatorPicker indicators={indicators} onChange={changeIndicators} />
+          {hasCandles && (
+            <div className="inline-flex mr-3 rounded-md glassmorphic-light text-xs overflow-hidden">
+              {(['line', 'candle'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-2 py-0.5 ${
+                    mode === option ? 'bg-indigo-50 text-indigo-600' : 'text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  {option === 'line' ? 'Line' : 'Candles'}
+                </button>
+              ))}
+            </div>
+          )}
           {displayData[0].displayDate} - {displayData[displayData.length - 1].displayDate}
           {zoomRange && (
             <button 
@@ -205,25 +279,69 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
           <line x1="0" y1="50" x2="100" y2="50" stroke="rgba(229, 231, 235, 0.3)" strokeWidth="0.5" />
           <line x1="0" y1="75" x2="100" y2="75" stroke="rgba(229, 231, 235, 0.3)" strokeWidth="0.5" />
           
-          {/* Fill area under the curve */}
-          <path
-            d={fillPath}
-            fill={`url(#gradient-${isUptrend ? 'up' : 'down'})`}
-            strokeWidth="0"
-            className="transition-opacity duration-500"
-          />
-          
-          {/* The line itself */}
-          <path
-            d={pathPoints}
-            fill="none"
-            stroke={isUptrend ? '#10B981' : '#EF4444'}
-            strokeWidth="1.5"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            className="drop-shadow-md"
-          />
+          {showCandles ? (
+            /* Candles: a wick from low to high and a body from open to close */
+            displayData.map((point, i) => {
+              const candle = candleOf(point) || { open: point.value, high: point.value, low: point.value, close: point.value };
+              const color = candle.close >= candle.open ? '#10B981' : '#EF4444';
+              const bodyTop = getY(Math.max(candle.open, candle.close));
+              return (
+                <g key={i}>
+                  <line
+                    x1={getX(i)}
+                    x2={getX(i)}
+                    y1={getY(candle.high)}
+                    y2={getY(candle.low)}
+                    stroke={color}
+                    strokeWidth="1"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <rect
+                    x={getX(i) - barWidth / 2}
+                    y={bodyTop}
+                    width={barWidth}
+                    height={Math.max(getY(Math.min(candle.open, candle.close)) - bodyTop, 0.3)}
+                    fill={color}
+                  />
+                </g>
+              );
+            })
+          ) : (
+            <>
+              {/* Fill area under the curve */}
+              <path
+                d={fillPath}
+                fill={`url(#gradient-${isUptrend ? 'up' : 'down'})`}
+                strokeWidth="0"
+                className="transition-opacity duration-500"
+              />
+
+              {/* The line itself */}
+              <path
+                d={pathPoints}
+                fill="none"
+                stroke={isUptrend ? '#10B981' : '#EF4444'}
+                strokeWidth="1.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="drop-shadow-md"
+              />
+            </>
+          )}
           
+          {/* Indicator overlays */}
+          {overlayLines.map(line => (
+            <path
+              key={line.key}
+              d={indicatorPath(line.values, getY)}
+              fill="none"
+              stroke={line.color}
+              strokeWidth="1.25"
+              strokeDasharray={line.dashed ? '4 3' : undefined}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+
           {/* Highlight data points on hover */}
           {displayData.map((point, i) => (
             <circle
@@ -299,10 +417,28 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
             }}
           >
             <div className="font-medium text-[11px] mb-1">Date: {hoveredPoint.displayDate}</div>
-            <div className="flex justify-between mt-1">
-              <span className="text-gray-600">Value:</span>
-              <span className="font-bold text-[11px]">{formatCurrency(hoveredPoint.value)}</span>
-            </div>
+            {(() => {
+              const candle = candleOf(hoveredPoint);
+              const rows: [string, string][] = candle
+                ? [
+                    ['Open', formatCurrency(candle.open)],
+                    ['High', formatCurrency(candle.high)],
+                    ['Low', formatCurrency(candle.low)],
+                    ['Close', formatCurrency(candle.close)]
+                  ]
+                : [['Value', formatCurrency(hoveredPoint.value)]];
+              if (typeof hoveredPoint.volume === 'number') rows.push(['Volume', formatVolume(hoveredPoint.volume)]);
+              overlayLines.forEach(line => {
+                const value = line.values[hoveredIndex];
+                if (value !== null && value !== undefined) rows.push([line.label, formatCurrency(value)]);
+              });
+              return rows.map(([label, value], i) => (
+                <div key={i} className="flex justify-between mt-1">
+                  <span className="text-gray-600">{label}:</span>
+                  <span className="font-bold text-[11px]">{value}</span>
+                </div>
+              ));
+            })()}
           </div>
         )}
         
@@ -314,6 +450,38 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, period
         )}
       </div>
       
+      {/* Volume pane, coloured by whether the session closed up */}
+      {maxVolume > 0 && (
+        <div className="relative h-12 w-full mt-1 px-2">
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-full overflow-visible">
+            {displayData.map((point, i) => {
+              if (volumes[i] === 0) return null;
+              const reference = point.open ?? (i > 0 ? displayData[i - 1].value : point.value);
+              const height = (volumes[i] / maxVolume) * 100;
+              return (
+                <rect
+                  key={i}
+                  x={getX(i) - barWidth / 2}
+                  y={100 - height}
+                  width={barWidth}
+                  height={height}
+                  fill={point.value >= reference ? '#10B981' : '#EF4444'}
+                  opacity={hoveredIndex === i ? 0.9 : 0.4}
+                />
+              );
+            })}
+          </svg>
+          <div className="absolute right-2 top-0 text-xs text-gray-500 backdrop-blur-sm px-1">
+            Vol {formatVolume(maxVolume)}
+          </div>
+        </div>
+      )}
+
+      {/* Indicators with their own scale */}
+      {panes.map(({ config, output }) => (
+        <IndicatorPane key={config.id} label={describeIndicator(config)} output={output} hoveredIndex={hoveredIndex} />
+      ))}
+
       {/* Date markers */}
       <div className="flex justify-between mt-2 text-xs text-gray-500">
         {displayData.filter((_, i) => i % Math.ceil(displayData.length / 5) === 0 || i === displayData.length - 1).map((point, i) => (
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  AreaChart, Area, XAxis, YAxis, CartesianGrid,
+  Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { Calendar } from 'lucide-react';
+import { apiService } from '../services/api';
+import { addMonths, formatMarketDate, marketToday } from '../shared/dates';
+import { toPriceSeries, type PricePoint } from '../utils/financeUtils';
+import { simulateSip } from '../utils/sipCalculator';
+import { MarketDatePicker } from './MarketDatePicker';
+
+interface SipScenarioProps {
+  indices: string[];
+}
+
+const SipScenario: React.FC<SipScenarioProps> = ({ indices }) => {
+  const [selectedIndex, setSelectedIndex] = useState<string>(indices[0] || '');
+  const [monthlyAmount, setMonthlyAmount] = useState<string>("10000");
+  const [stepUp, setStepUp] = useState<string>("0");
+  const [startDate, setStartDate] = useState<Date | null>(() => addMonths(marketToday(), -60));
+  const [priceSeries, setPriceSeries] = useState<Record<string, PricePoint[]>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Keep the selected index in sync with the indices chosen on the comparison page
+  useEffect(() => {
+    if (indices.length > 0 && !indices.includes(selectedIndex)) {
+      setSelectedIndex(indices[0]);
+    }
+  }, [indices, selectedIndex]);
+
+  // Fetch the price history for the selected index once
+  useEffect(() => {
+    if (!selectedIndex || priceSeries[selectedIndex]) return;
+
+    const fetchPrices = async () => {
+      setLoading(true);
+      try {
+        const historicalData = await apiService.getHistoricalData(selectedIndex);
+        setPriceSeries(prev => ({ ...prev, [selectedIndex]: toPriceSeries(historicalData) }));
+      } catch (error) {
+        console.error(`Error loading prices for ${selectedIndex}:`, error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPrices();
+  }, [selectedIndex, priceSeries]);
+
+  const series = useMemo(() => priceSeries[selectedIndex] || [], [priceSeries, selectedIndex]);
+
+  // Move the start date up when the selected index's history begins after it
+  useEffect(() => {
+    if (series.length > 0 && startDate && startDate.getTime() < series[0].time) {
+      setStartDate(series[0].date);
+    }
+  }, [series, startDate]);
+
+  const result = useMemo(() => simulateSip(series, {
+    monthlyAmount: parseFloat(monthlyAmount) || 0,
+    startDate: startDate || (series[0]?.date ?? marketToday()),
+    stepUpPercent: parseFloat(stepUp) || 0
+  }), [series, monthlyAmount, startDate, stepUp]);
+
+  const chartData = result.timeline.map(point => ({
+    date: formatMarketDate(point.date, 'month'),
+    invested: point.invested,
+    value: point.value
+  }));
+
+  const formatCurrency = (value: number) => {
+    return '₹' + value.toLocaleString('en-IN', { maximumFractionDigits: 0 });
+  };
+
+  const formatDate = (date: Date | null) => {
+    if (!date) return 'N/A';
+    return formatMarketDate(date);
+  };
+
+  const handleNumericChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Only allow numbers
+    if (/^\d*\.?\d*$/.test(e.target.value)) {
+      setter(e.target.value);
+    }
+  };
+
+  return (
+    <div className="glassmorphic-card p-6 border-glass mb-8">
+      <div className="flex flex-wrap items-baseline gap-2 mb-4">
+        <h3 className="text-lg font-medium text-gray-700">Scenario for SIP</h3>
+        <span className="text-sm text-gray-500">of</span>
+        <div className="relative">
+          <span className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
+          <input
+            type="text"
+            value={monthlyAmount}
+            onChange={handleNumericChange(setMonthlyAmount)}
+            className="w-28 px-6 py-1 rounded border border-gray-300 text-right"
+          />
+        </div>
+        <span className="text-sm text-gray-500">per month in</span>
+        <select
+          value={selectedIndex}
+          onChange={(e) => setSelectedIndex(e.target.value)}
+          className="px-2 py-1 rounded border border-gray-300 text-sm"
+        >
+          {indices.map(index => (
+            <option key={index} value={index}>{index}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">from</span>
+        <div className="relative datepicker-wrapper w-44">
+          <MarketDatePicker
+            selected={startDate}
+            onChange={setStartDate}
+            minDate={series[0]?.date}
+            className="px-2 py-1 rounded border border-gray-300 text-sm w-full"
+          />
+          <Calendar className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+        </div>
+        <span className="text-sm text-gray-500">stepping up</span>
+        <div className="relative">
+          <input
+            type="text"
+            value={stepUp}
+            onChange={handleNumericChange(setStepUp)}
+            className="w-16 pl-2 pr-6 py-1 rounded border border-gray-300 text-right"
+          />
+          <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500">%</span>
+        </div>
+        <span className="text-sm text-gray-500">every year</span>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : result.installments.length === 0 ? (
+        <div className="flex justify-center items-center h-64 text-gray-500 text-sm">
+          No price history is available for {selectedIndex || 'this index'} from the selected start date.
+        </div>
+      ) : (
+        <>
+          <div className="mt-4 h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart
+                data={chartData}
+                margin={{ top: 15, right: 15, left: 15, bottom: 15 }}
+              >
+                <defs>
+                  <linearGradient id="colorSipValue" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#6366F1" stopOpacity={0.8}/>
+                    <stop offset="95%" stopColor="#6366F1" stopOpacity={0.1}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 10 }}
+                  tickMargin={10}
+                  interval="equidistantPreserveStart"
+                  padding={{ left: 10, right: 10 }}
+                  height={40}
+                />
+                <YAxis
+                  tickFormatter={(value) => formatCurrency(value)}
+                  tick={{ fontSize: 10 }}
+                  width={80}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                  labelFormatter={(label) => `Date: ${label || ''}`}
+                  contentStyle={{
+                    fontSize: '12px',
+                    padding: '8px',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '4px'
+                  }}
+                />
+                <Legend iconType="circle" iconSize={8} />
+                <Area
+                  type="monotone"
+                  dataKey="value"
+                  name="Market Value"
+                  stroke="#6366F1"
+                  fillOpacity={1}
+                  fill="url(#colorSipValue)"
+                  isAnimationActive={false}
+                />
+                <Area
+                  type="stepAfter"
+                  dataKey="invested"
+                  name="Amount Invested"
+                  stroke="#9CA3AF"
+                  fill="none"
+                  strokeDasharray="4 4"
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="text-gray-500">
+              <div>Invested: <span className="font-medium text-gray-800">{formatCurrency(result.totalInvested)}</span></div>
+              <div>Installments: <span className="font-medium text-gray-800">{result.installments.length}</span></div>
+            </div>
+            <div className="text-gray-500">
+              <div>Units bought: <span className="font-medium text-gray-800">{result.totalUnits.toFixed(4)}</span></div>
+              <div>Avg. cost: <span className="font-medium text-gray-800">{(result.totalInvested / result.totalUnits).toFixed(2)}</span></div>
+            </div>
+            <div className="text-gray-500">
+              <div>
+                Value: <span className={`font-medium ${result.finalValue >= result.totalInvested ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(result.finalValue)}
+                </span>
+              </div>
+              <div>As of: <span className="font-medium text-gray-800">{formatDate(result.valuationDate)}</span></div>
+            </div>
+            <div className="text-gray-500">
+              <div>
+                XIRR: <span className={`font-medium ${(result.xirr ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {result.xirr !== null ? `${result.xirr.toFixed(2)}%` : 'N/A'}
+                </span>
+              </div>
+              <div>
+                Absolute: <span className={`font-medium ${result.absoluteReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {result.absoluteReturn.toFixed(2)}%
+                </span>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SipScenario;
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
+  ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Calendar, Search } from 'lucide-react';
+import {
+  apiService,
+  type CorrelationMatrix,
+  type ReturnFrequency,
+  type RollingCorrelation
+} from '../services/api';
+import { formatMarketDate, toIsoDate } from '../shared/dates';
+import { MarketDatePicker } from '../components/MarketDatePicker';
+
+const ROLLING_WINDOWS = ['3M', '6M', '1Y', '3Y'];
+const MAX_CHART_POINTS = 600;
+
+/**
+ * Blue for positive and red for negative correlations, stronger the further from 0
+ */
+const cellColor = (value: number | null) => {
+  if (value === null) return 'rgba(209, 213, 219, 0.4)';
+  const alpha = Math.min(1, Math.abs(value)) * 0.85 + 0.05;
+  return value >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+};
+
+export const CorrelationPage: React.FC = () => {
+  const [availableIndices, setAvailableIndices] = useState<string[]>([]);
+  const [selectedIndices, setSelectedIndices] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [frequency, setFrequency] = useState<ReturnFrequency>('monthly');
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [correlation, setCorrelation] = useState<CorrelationMatrix | null>(null);
+  const [matrixLoading, setMatrixLoading] = useState<boolean>(false);
+
+  const [indexA, setIndexA] = useState<string>('');
+  const [indexB, setIndexB] = useState<string>('');
+  const [rollingWindow, setRollingWindow] = useState<string>('1Y');
+  const [rolling, setRolling] = useState<RollingCorrelation | null>(null);
+  const [rollingLoading, setRollingLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchIndices = async () => {
+      const indices = await apiService.getAllIndices();
+      setAvailableIndices(indices);
+      // Start with a handful of indices so the heatmap isn't empty
+      const defaults = indices.slice(0, Math.min(5, indices.length));
+      setSelectedIndices(defaults);
+      setIndexA(defaults[0] || '');
+      setIndexB(defaults[1] || defaults[0] || '');
+    };
+
+    fetchIndices();
+  }, []);
+
+  const fromDate = startDate ? toIsoDate(startDate) : undefined;
+  const toDate = endDate ? toIsoDate(endDate) : undefined;
+
+  useEffect(() => {
+    if (selectedIndices.length === 0) {
+      setCorrelation(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchMatrix = async () => {
+      setMatrixLoading(true);
+      const result = await apiService.getCorrelationMatrix(selectedIndices, frequency, fromDate, toDate);
+      if (!cancelled) {
+        setCorrelation(result);
+        setMatrixLoading(false);
+      }
+    };
+
+    fetchMatrix();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIndices, frequency, fromDate, toDate]);
+
+  useEffect(() => {
+    if (!indexA || !indexB) return;
+
+    let cancelled = false;
+    const fetchRolling = async () => {
+      setRollingLoading(true);
+      const result = await apiService.getRollingCorrelation(indexA, indexB, rollingWindow, frequency, fromDate, toDate);
+      if (!cancelled) {
+        setRolling(result);
+        setRollingLoading(false);
+      }
+    };
+
+    fetchRolling();
+    return () => {
+      cancelled = true;
+    };
+  }, [indexA, indexB, rollingWindow, frequency, fromDate, toDate]);
+
+  const toggleIndexSelection = (index: string) => {
+    if (selectedIndices.includes(index)) {
+      setSelectedIndices(selectedIndices.filter(i => i !== index));
+    } else {
+      setSelectedIndices([...selectedIndices, index]);
+    }
+  };
+
+  // Thin the rolling series so long daily histories stay responsive
+  const rollingChartData = useMemo(() => {
+    if (!rolling) return [];
+    const step = Math.max(1, Math.floor(rolling.dates.length / MAX_CHART_POINTS));
+    return rolling.dates
+      .map((date, i) => ({
+        date: formatMarketDate(date, 'month') || date,
+        correlation: rolling.values[i]
+      }))
+      .filter((_, i) => i % step === 0 || i === rolling.dates.length - 1);
+  }, [rolling]);
+
+  const formatRangeDate = (date: string | null) => (date && formatMarketDate(date)) || '—';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-8 gap-4">
+        <h2 className="text-4xl font-light text-gray-700">Correlation</h2>
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">Returns</label>
+            <div className="flex rounded-lg overflow-hidden border border-gray-300">
+              {(['daily', 'monthly'] as ReturnFrequency[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFrequency(option)}
+                  className={`px-3 py-1 text-sm capitalize ${
+                    frequency === option ? 'bg-indigo-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">From</label>
+            <div className="relative datepicker-wrapper">
+              <MarketDatePicker
+                selected={startDate}
+                onChange={setStartDate}
+                maxDate={endDate}
+                placeholderText="Full history"
+                className="w-full px-2 py-1 rounded border border-gray-300 text-sm"
+                isClearable
+              />
+              <Calendar className="absolute right-8 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">To</label>
+            <div className="relative datepicker-wrapper">
+              <MarketDatePicker
+                selected={endDate}
+                onChange={setEndDate}
+                minDate={startDate}
+                placeholderText="Latest available date"
+                className="w-full px-2 py-1 rounded border border-gray-300 text-sm"
+                isClearable
+              />
+              <Calendar className="absolute right-8 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 mb-8">
+        {/* Index Selection */}
+        <div className="glassmorphic-card p-6 border-glass">
+          <h3 className="text-lg font-semibold mb-4 text-shadow-sm">Indices ({selectedIndices.length})</h3>
+          <div className="mb-4">
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search indices..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10 pr-4 py-2 w-full glassmorphic-light rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {availableIndices
+              .filter(index => index.toLowerCase().includes(searchQuery.toLowerCase()))
+              .map(index => (
+                <div
+                  key={index}
+                  className={`flex items-center p-3 rounded-lg cursor-pointer transition-all duration-300 ${
+                    selectedIndices.includes(index)
+                      ? 'glassmorphic-light border-glass'
+                      : 'bg-opacity-30 backdrop-blur-sm hover:bg-opacity-50'
+                  }`}
+                  onClick={() => toggleIndexSelection(index)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIndices.includes(index)}
+                    readOnly
+                    className="mr-3"
+                  />
+                  <span className="text-sm font-medium">{index}</span>
+                </div>
+              ))}
+          </div>
+        </div>
+
+        {/* Heatmap */}
+        <div className="glassmorphic-card p-6 border-glass lg:col-span-3">
+          <h3 className="text-lg font-semibold mb-1">Correlation Matrix</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Correlation of {frequency} returns
+            {correlation && correlation.fromDate
+              ? `, ${formatRangeDate(correlation.fromDate)} to ${formatRangeDate(correlation.toDate)}`
+              : ''}
+          </p>
+
+          {matrixLoading && !correlation ? (
+            <div className="flex justify-center items-center h-96">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+            </div>
+          ) : !correlation || correlation.matrix.length === 0 ? (
+            <div className="flex justify-center items-center h-96 text-gray-500 text-sm">
+              Select indices to compare their correlations.
+            </div>
+          ) : (
+            <div className={`overflow-x-auto ${matrixLoading ? 'opacity-60' : ''}`}>
+              <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+                <thead>
+                  <tr>
+                    <th />
+                    {correlation.indices.map(index => (
+                      <th key={index} className="px-2 py-1 font-medium text-gray-600 align-bottom max-w-[6rem]">
+                        {index}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {correlation.indices.map((rowIndex, a) => (
+                    <tr key={rowIndex}>
+                      <th className="px-2 py-1 font-medium text-gray-600 text-right whitespace-nowrap">{rowIndex}</th>
+                      {correlation.indices.map((columnIndex, b) => {
+                        const value = correlation.matrix[a][b];
+                        return (
+                          <td
+                            key={columnIndex}
+                            className={`w-16 h-10 text-center rounded ${
+                              value !== null && Math.abs(value) > 0.6 ? 'text-white' : 'text-gray-800'
+                            } ${a !== b ? 'cursor-pointer' : ''}`}
+                            style={{ backgroundColor: cellColor(value) }}
+                            title={`${rowIndex} / ${columnIndex}: ${
+                              value === null ? 'not enough overlapping returns' : value.toFixed(4)
+                            } (${correlation.observations[a][b]} returns)`}
+                            onClick={() => {
+                              if (a === b) return;
+                              setIndexA(rowIndex);
+                              setIndexB(columnIndex);
+                            }}
+                          >
+                            {value === null ? '—' : value.toFixed(2)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-3">
+                Each pair uses the dates both indices have prices for. Click a cell to chart its rolling correlation.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Rolling correlation */}
+      <div className="glassmorphic-card p-6 border-glass">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Rolling Correlation</h3>
+            <p className="text-sm text-gray-500">
+              Correlation of {frequency} returns over the trailing {rollingWindow} window
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={indexA}
+              onChange={(e) => setIndexA(e.target.value)}
+              className="px-2 py-1 rounded border border-gray-300 text-sm"
+            >
+              {availableIndices.map(index => (
+                <option key={index} value={index}>{index}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-500">vs</span>
+            <select
+              value={indexB}
+              onChange={(e) => setIndexB(e.target.value)}
+              className="px-2 py-1 rounded border border-gray-300 text-sm"
+            >
+              {availableIndices.map(index => (
+                <option key={index} value={index}>{index}</option>
+              ))}
+            </select>
+            <select
+              value={rollingWindow}
+              onChange={(e) => setRollingWindow(e.target.value)}
+              className="px-2 py-1 rounded border border-gray-300 text-sm"
+            >
+              {ROLLING_WINDOWS.map(window => (
+                <option key={window} value={window}>{window}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {rollingLoading && rollingChartData.length === 0 ? (
+          <div className="flex justify-center items-center h-80">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+          </div>
+        ) : rollingChartData.length === 0 ? (
+          <div className="flex justify-center items-center h-80 text-gray-500 text-sm">
+            Not enough overlapping history for a {rollingWindow} rolling correlation.
+          </div>
+        ) : (
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rollingChartData} margin={{ top: 15, right: 15, left: 15, bottom: 15 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 10 }}
+                  tickMargin={10}
+                  interval="equidistantPreserveStart"
+                  height={40}
+                />
+                <YAxis
+                  domain={[-1, 1]}
+                  tickFormatter={(value) => value.toFixed(1)}
+                  tick={{ fontSize: 10 }}
+                  width={40}
+                />
+                <Tooltip
+                  formatter={(value: number) => [value.toFixed(4), `${indexA} / ${indexB}`]}
+                  labelFormatter={(label) => `Date: ${label || ''}`}
+                  contentStyle={{
+                    fontSize: '12px',
+                    padding: '8px',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '4px'
+                  }}
+                />
+                <ReferenceLine y={0} stroke="#666" />
+                <Line
+                  type="monotone"
+                  dataKey="correlation"
+                  stroke="#3b82f6"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, RefreshCw, Search, XCircle } from 'lucide-react';
+import {
+  apiService,
+  type DataQualityQuery,
+  type DataQualityReport,
+  type IndexQuality,
+  type QualityIssue
+} from '../services/api';
+import { formatMarketDate } from '../shared/dates';
+
+const ISSUE_LABELS: Record<QualityIssue['kind'], string> = {
+  non_positive: 'Zero or negative price',
+  spike: 'One-day spike',
+  jump: 'Large move',
+  flat_run: 'Flat run',
+  gap: 'Missing prices',
+  stale: 'Stale series'
+};
+
+type SeverityFilter = 'all' | 'error' | 'warning';
+
+const countIssues = (quality: IndexQuality, severity: QualityIssue['severity']) =>
+  quality.issues.filter(issue => issue.severity === severity).length;
+
+export const DataQualityPage: React.FC = () => {
+  const [jumpPercent, setJumpPercent] = useState<string>('20');
+  const [flatDays, setFlatDays] = useState<string>('5');
+  const [gapDays, setGapDays] = useState<string>('7');
+  const [thresholds, setThresholds] = useState<DataQualityQuery>({});
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [failed, setFailed] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  // Run the checks on opening, with the server's default thresholds, and whenever they change
+  useEffect(() => {
+    let cancelled = false;
+    const fetchReport = async () => {
+      setLoading(true);
+      const result = await apiService.getDataQuality(thresholds);
+      if (!cancelled) {
+        setReport(result);
+        setFailed(result === null);
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [thresholds]);
+
+  // Empty fields fall back to the server's defaults
+  const runChecks = () => {
+    setThresholds({
+      jumpPercent: parseFloat(jumpPercent) || undefined,
+      flatDays: parseInt(flatDays, 10) || undefined,
+      gapDays: parseInt(gapDays, 10) || undefined
+    });
+  };
+
+  // Indices with errors first, then by number of issues
+  const rows = useMemo(() => {
+    if (!report) return [];
+    const query = searchQuery.trim().toLowerCase();
+    return report.indices
+      .filter(quality => !query || quality.index.toLowerCase().includes(query))
+      .map(quality => ({
+        ...quality,
+        issues: quality.issues.filter(issue => severityFilter === 'all' || issue.severity === severityFilter)
+      }))
+      .filter(quality => severityFilter === 'all' || quality.issues.length > 0)
+      .sort((a, b) => countIssues(b, 'error') - countIssues(a, 'error') || b.issues.length - a.issues.length);
+  }, [report, searchQuery, severityFilter]);
+
+  const totals = useMemo(() => {
+    const indices = report?.indices || [];
+    return {
+      indices: indices.length,
+      clean: indices.filter(quality => quality.issues.length === 0).length,
+      errors: indices.reduce((sum, quality) => sum + countIssues(quality, 'error'), 0),
+      warnings: indices.reduce((sum, quality) => sum + countIssues(quality, 'warning'), 0)
+    };
+  }, [report]);
+
+  const toggleExpanded = (index: string) => {
+    setExpanded(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+  };
+
+  const handleNumericChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Only allow numbers
+    if (/^\d*\.?\d*$/.test(e.target.value)) {
+      setter(e.target.value);
+    }
+  };
+
+  const formatRange = (issue: QualityIssue) =>
+    issue.fromDate === issue.toDate
+      ? formatMarketDate(issue.fromDate)
+      : `${formatMarketDate(issue.fromDate)} – ${formatMarketDate(issue.toDate)}`;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-8 gap-4">
+        <div>
+          <h2 className="text-4xl font-light text-gray-700">Data Quality</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Suspicious points in the stored index series, to fix before they reach rolling returns
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">Daily move over (%)</label>
+            <input
+              type="text"
+              value={jumpPercent}
+              onChange={handleNumericChange(setJumpPercent)}
+              className="w-24 px-2 py-1 rounded border border-gray-300 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">Flat for (days)</label>
+            <input
+              type="text"
+              value={flatDays}
+              onChange={handleNumericChange(setFlatDays)}
+              className="w-24 px-2 py-1 rounded border border-gray-300 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-500 mb-1">Gap over (days)</label>
+            <input
+              type="text"
+              value={gapDays}
+              onChange={handleNumericChange(setGapDays)}
+              className="w-24 px-2 py-1 rounded border border-gray-300 text-sm"
+            />
+          </div>
+          <button
+            onClick={runChecks}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-1.5 rounded bg-indigo-500 text-white text-sm hover:bg-indigo-600 disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+            Run checks
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        <div className="glassmorphic-card p-4 border-glass">
+          <div className="text-sm text-gray-500">Indices scanned</div>
+          <div className="text-2xl font-semibold">{totals.indices}</div>
+        </div>
+        <div className="glassmorphic-card p-4 border-glass">
+          <div className="text-sm text-gray-500">Without issues</div>
+          <div className="text-2xl font-semibold text-green-600">{totals.clean}</div>
+        </div>
+        <div className="glassmorphic-card p-4 border-glass">
+          <div className="text-sm text-gray-500">Errors</div>
+          <div className="text-2xl font-semibold text-red-600">{totals.errors}</div>
+        </div>
+        <div className="glassmorphic-card p-4 border-glass">
+          <div className="text-sm text-gray-500">Warnings</div>
+          <div className="text-2xl font-semibold text-amber-600">{totals.warnings}</div>
+        </div>
+      </div>
+
+      <div className="glassmorphic-card p-6 border-glass">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+            <input
+              type="text"
+              placeholder="Search indices..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-7 pr-2 py-1 rounded border border-gray-300 text-sm"
+            />
+          </div>
+          <select
+            value={severityFilter}
+            onChange={(e) => setSeverityFilter(e.target.value as SeverityFilter)}
+            className="px-2 py-1 rounded border border-gray-300 text-sm"
+          >
+            <option value="all">All indices</option>
+            <option value="error">With errors</option>
+            <option value="warning">With warnings</option>
+          </select>
+        </div>
+
+        {loading && !report ? (
+          <p className="text-sm text-gray-500">Scanning index series...</p>
+        ) : failed ? (
+          <p className="text-sm text-red-600">The data quality report could not be loaded.</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No indices match.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {rows.map(quality => {
+              const errors = countIssues(quality, 'error');
+              const warnings = countIssues(quality, 'warning');
+              const isExpanded = expanded.includes(quality.index);
+              return (
+                <div key={quality.index}>
+                  <button
+                    onClick={() => toggleExpanded(quality.index)}
+                    disabled={quality.issues.length === 0}
+                    className="w-full flex items-center justify-between py-3 text-left text-sm hover:bg-gray-50"
+                  >
+                    <div className="flex items-center gap-2">
+                      {quality.issues.length === 0 ? (
+                        <CheckCircle size={16} className="text-green-500" />
+                      ) : isExpanded ? (
+                        <ChevronDown size={16} className="text-gray-400" />
+                      ) : (
+                        <ChevronRight size={16} className="text-gray-400" />
+                      )}
+                      <span className="font-medium">{quality.index}</span>
+                      <span className="text-xs text-gray-400">
+                        {quality.prices} prices
+                        {quality.fromDate && quality.toDate
+                          ? `, ${formatMarketDate(quality.fromDate)} – ${formatMarketDate(quality.toDate)}`
+                          : ''}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {errors > 0 && (
+                        <span className="flex items-center gap-1 text-red-600">
+                          <XCircle size={14} /> {errors}
+                        </span>
+                      )}
+                      {warnings > 0 && (
+                        <span className="flex items-center gap-1 text-amber-600">
+                          <AlertTriangle size={14} /> {warnings}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+
+                  {isExpanded && quality.issues.length > 0 && (
+                    <table className="w-full text-sm mb-3">
+                      <tbody>
+                        {quality.issues.map((issue, i) => (
+                          <tr key={`${issue.kind}-${issue.fromDate}-${i}`} className="border-t border-gray-100">
+                            <td className="py-2 pl-8 w-48">
+                              <span
+                                className={`px-2 py-0.5 rounded-full text-xs ${
+                                  issue.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                                }`}
+                              >
+                                {ISSUE_LABELS[issue.kind]}
+                              </span>
+                            </td>
+                            <td className="py-2 w-64 text-gray-600">{formatRange(issue)}</td>
+                            <td className="py-2 text-gray-700">{issue.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
+  ResponsiveContainer, Legend, ReferenceLine
+} from 'recharts';
+import { ArrowLeft, Search } from 'lucide-react';
+import { apiService } from '../services/api';
+import { formatMarketDate } from '../shared/dates';
+import { toPriceSeries, type PricePoint } from '../utils/financeUtils';
+import { findDrawdowns, underwaterSeries } from '../utils/drawdowns';
+
+interface DrawdownPageProps {
+  initialIndex?: string;
+  onBack?: () => void;
+}
+
+const MAX_OVERLAY_INDICES = 5;
+const TOP_N_OPTIONS = [5, 10, 20];
+
+const colors = [
+  '#3b82f6',
+  '#ef4444',
+  '#10b981',
+  '#f59e0b',
+  '#8b5cf6'
+];
+
+export const DrawdownPage: React.FC<DrawdownPageProps> = ({ initialIndex, onBack }) => {
+  const [availableIndices, setAvailableIndices] = useState<string[]>([]);
+  const [selectedIndices, setSelectedIndices] = useState<string[]>(initialIndex ? [initialIndex] : []);
+  const [tableIndex, setTableIndex] = useState<string>(initialIndex || '');
+  const [topN, setTopN] = useState<number>(10);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [priceSeries, setPriceSeries] = useState<Record<string, PricePoint[]>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchIndices = async () => {
+      const indices = await apiService.getAllIndices();
+      setAvailableIndices(indices);
+      // Default to NIFTY 50 or the first index when we weren't sent here for a specific one
+      if (!initialIndex && indices.length > 0) {
+        const defaultIndex = indices.includes('NIFTY 50') ? 'NIFTY 50' : indices[0];
+        setSelectedIndices([defaultIndex]);
+        setTableIndex(defaultIndex);
+      }
+    };
+
+    fetchIndices();
+  }, [initialIndex]);
+
+  // Fetch price history for any selected index we haven't loaded yet
+  useEffect(() => {
+    const missing = selectedIndices.filter(index => !priceSeries[index]);
+    if (missing.length === 0) return;
+
+    const fetchPrices = async () => {
+      setLoading(true);
+      try {
+        const results = await Promise.all(missing.map(index => apiService.getHistoricalData(index)));
+        setPriceSeries(prev => {
+          const next = { ...prev };
+          missing.forEach((index, i) => {
+            next[index] = toPriceSeries(results[i]);
+          });
+          return next;
+        });
+      } catch (error) {
+        console.error('Error loading prices for drawdown analysis:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPrices();
+  }, [selectedIndices, priceSeries]);
+
+  const toggleIndexSelection = (index: string) => {
+    if (selectedIndices.includes(index)) {
+      if (selectedIndices.length === 1) return;
+      const remaining = selectedIndices.filter(i => i !== index);
+      setSelectedIndices(remaining);
+      if (tableIndex === index) {
+        setTableIndex(remaining[0]);
+      }
+    } else if (selectedIndices.length < MAX_OVERLAY_INDICES) {
+      setSelectedIndices([...selectedIndices, index]);
+    }
+  };
+
+  // Merge the underwater series of all selected indices by date, thinned for display
+  const chartData = useMemo(() => {
+    const byTime = new Map<number, Record<string, number | string>>();
+
+    selectedIndices.forEach(index => {
+      underwaterSeries(priceSeries[index] || []).forEach(point => {
+        const row = byTime.get(point.time) || {
+          time: point.time,
+          date: formatMarketDate(point.date, 'month')
+        };
+        row[index] = point.drawdown;
+        byTime.set(point.time, row);
+      });
+    });
+
+    const rows = Array.from(byTime.values()).sort((a, b) => (a.time as number) - (b.time as number));
+    const step = Math.max(1, Math.floor(rows.length / 600));
+    return rows.filter((_, i) => i % step === 0 || i === rows.length - 1);
+  }, [selectedIndices, priceSeries]);
+
+  const drawdowns = useMemo(
+    () => findDrawdowns(priceSeries[tableIndex] || [], topN),
+    [priceSeries, tableIndex, topN]
+  );
+
+  const formatDate = (date: Date | null) => {
+    if (!date) return 'Not recovered';
+    return formatMarketDate(date);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-8 gap-4">
+        <div className="flex items-center gap-4">
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="p-2 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+              title="Back to index values"
+            >
+              <ArrowLeft size={20} />
+            </button>
+          )}
+          <h2 className="text-4xl font-light text-gray-700">Drawdown Analysis</h2>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 mb-8">
+        {/* Index Selection */}
+        <div className="glassmorphic-card p-6 border-glass">
+          <h3 className="text-lg font-semibold mb-4 text-shadow-sm">Overlay Indices (Max {MAX_OVERLAY_INDICES})</h3>
+          <div className="mb-4">
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search indices..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10 pr-4 py-2 w-full glassmorphic-light rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {availableIndices
+              .filter(index => index.toLowerCase().includes(searchQuery.toLowerCase()))
+              .map(index => (
+                <div
+                  key={index}
+                  className={`flex items-center p-3 rounded-lg cursor-pointer transition-all duration-300 ${
+                    selectedIndices.includes(index)
+                      ? 'glassmorphic-light border-glass'
+                      : 'bg-opacity-30 backdrop-blur-sm hover:bg-opacity-50'
+                  }`}
+                  onClick={() => toggleIndexSelection(index)}
+                >
+                  <div
+                    className="w-4 h-4 rounded-full mr-3"
+                    style={{
+                      backgroundColor: selectedIndices.includes(index)
+                        ? colors[selectedIndices.indexOf(index) % colors.length]
+                        : '#d1d5db'
+                    }}
+                  />
+                  <span className="text-sm font-medium">{index}</span>
+                </div>
+              ))}
+          </div>
+        </div>
+
+        {/* Underwater chart */}
+        <div className="glassmorphic-card p-6 border-glass lg:col-span-3">
+          <h3 className="text-lg font-semibold mb-1">Underwater Chart</h3>
+          <p className="text-sm text-gray-500 mb-4">How far each index stood below its previous high</p>
+
+          {loading && chartData.length === 0 ? (
+            <div className="flex justify-center items-center h-96">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+            </div>
+          ) : chartData.length === 0 ? (
+            <div className="flex justify-center items-center h-96 text-gray-500 text-sm">
+              No price history is available for the selected indices.
+            </div>
+          ) : (
+            <div className="h-96">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 15, right: 15, left: 15, bottom: 15 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 10 }}
+                    tickMargin={10}
+                    interval="equidistantPreserveStart"
+                    height={40}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => `${value.toFixed(0)}%`}
+                    tick={{ fontSize: 10 }}
+                    width={50}
+                    domain={['auto', 0]}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]}
+                    labelFormatter={(label) => `Date: ${label || ''}`}
+                    contentStyle={{
+                      fontSize: '12px',
+                      padding: '8px',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '4px'
+                    }}
+                  />
+                  <Legend iconType="circle" iconSize={8} />
+                  <ReferenceLine y={0} stroke="#666" />
+                  {selectedIndices.map((index, i) => (
+                    <Line
+                      key={index}
+                      type="monotone"
+                      dataKey={index}
+                      name={index}
+                      stroke={colors[i % colors.length]}
+                      strokeWidth={1.5}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Top drawdowns */}
+      <div className="glassmorphic-card p-6 border-glass">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Largest Drawdowns</h3>
+            <p className="text-xs text-gray-500">Durations are in trading days</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={tableIndex}
+              onChange={(e) => setTableIndex(e.target.value)}
+              className="px-2 py-1 rounded border border-gray-300 text-sm"
+            >
+              {selectedIndices.map(index => (
+                <option key={index} value={index}>{index}</option>
+              ))}
+            </select>
+            <select
+              value={topN}
+              onChange={(e) => setTopN(parseInt(e.target.value, 10))}
+              className="px-2 py-1 rounded border border-gray-300 text-sm"
+            >
+              {TOP_N_OPTIONS.map(n => (
+                <option key={n} value={n}>Top {n}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {drawdowns.length === 0 ? (
+          <p className="text-sm text-gray-500">No drawdowns found for {tableIndex || 'this index'}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="py-2 text-left font-medium">#</th>
+                  <th className="py-2 text-right font-medium">Depth</th>
+                  <th className="py-2 text-right font-medium">Peak</th>
+                  <th className="py-2 text-right font-medium">Trough</th>
+                  <th className="py-2 text-right font-medium">Recovery</th>
+                  <th className="py-2 text-right font-medium">Peak to Trough</th>
+                  <th className="py-2 text-right font-medium">Days to Recover</th>
+                  <th className="py-2 text-right font-medium">Total Days</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drawdowns.map((drawdown, i) => (
+                  <tr key={drawdown.peakDate.getTime()} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-2">{i + 1}</td>
+                    <td className="py-2 text-right font-medium text-red-600">{drawdown.depth.toFixed(2)}%</td>
+                    <td className="py-2 text-right">
+                      <div>{formatDate(drawdown.peakDate)}</div>
+                      <div className="text-xs text-gray-400">{drawdown.peakValue.toFixed(2)}</div>
+                    </td>
+                    <td className="py-2 text-right">
+                      <div>{formatDate(drawdown.troughDate)}</div>
+                      <div className="text-xs text-gray-400">{drawdown.troughValue.toFixed(2)}</div>
+                    </td>
+                    <td className={`py-2 text-right ${drawdown.recoveryDate ? '' : 'text-amber-600'}`}>
+                      {formatDate(drawdown.recoveryDate)}
+                    </td>
+                    <td className="py-2 text-right">{drawdown.daysToTrough}</td>
+                    <td className="py-2 text-right">{drawdown.daysToRecover ?? '—'}</td>
+                    <td className="py-2 text-right">
+                      {drawdown.totalDays}{drawdown.recoveryDate ? '' : '+'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, 
   ResponsiveContainer, Legend, Label, ReferenceLine
 } from 'recharts';
 import { Calendar, Filter, ChevronDown, TrendingUp, ArrowDownRight, ArrowUpRight, Search } from 'lucide-react';
-import DatePicker from 'react-datepicker';
-import 'react-datepicker/dist/react-datepicker.css';
-import { apiService, type ComparisonData } from '../services/api';
+import { apiService, type ComparisonData, type IndexInfo } from '../services/api';
+import { formatMarketDate, marketToday, parseIsoDate, parseMarketDate, toIsoDate } from '../shared/dates';
 import { transformDateForRollingReturnsChart, formatChartDate } from '../utils/dateUtils';
+import { toPriceSeries, type PricePoint } from '../utils/financeUtils';
+import { DEFAULT_RISK_FREE_RATES, toRiskFreeRates, type RiskFreeRates } from '../utils/riskFreeRate';
+import {
+  computeBenchmarkStats,
+  rollingBenchmarkStats,
+  type BenchmarkStats
+} from '../utils/benchmarkStats';
+import {
+  DEFAULT_INDEX_FILTER,
+  groupByCategory,
+  matchesIndexFilter,
+  toCatalogueMap,
+  type IndexFilter
+} from '../utils/indexCatalogue';
+import { IndexCatalogueFilter } from '../components/IndexCatalogueFilter';
+import { MarketDatePicker } from '../components/MarketDatePicker';
 import RollingReturnsStats from '../components/RollingReturnsStats';
 import LumpsumScenario from '../components/LumpsumScenario';
+import SipScenario from '../components/SipScenario';
+
+type BenchmarkMetric = Exclude<keyof BenchmarkStats, 'observations'>;
+
+const BENCHMARK_METRICS: { key: BenchmarkMetric; label: string; unit: string }[] = [
+  { key: 'beta', label: 'Beta', unit: '' },
+  { key: 'alpha', label: "Jensen's Alpha", unit: '%' },
+  { key: 'rSquared', label: 'R²', unit: '' },
+  { key: 'trackingError', label: 'Tracking Error', unit: '%' },
+  { key: 'informationRatio', label: 'Information Ratio', unit: '' },
+  { key: 'upCapture', label: 'Up Capture', unit: '%' },
+  { key: 'downCapture', label: 'Down Capture', unit: '%' }
+];
+
+// Earliest date the range pickers offer
+const EARLIEST_DATE = parseIsoDate('2000-01-01') as Date;
+
+const formatMetric = (value: number | null, unit: string) =>
+  value === null ? 'N/A' : `${value.toFixed(2)}${unit}`;
 
 export const IndexComparison: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState<string>('1Y');
@@ -25,7 +59,12 @@ export const IndexComparison: React.FC = () => {
   const [showOnlyAlpha, setShowOnlyAlpha] = useState<boolean>(false);
   const [windowSize, setWindowSize] = useState({ width: window.innerWidth, height: window.innerHeight });
   const [searchQuery, setSearchQuery] = useState('');
+  const [catalogue, setCatalogue] = useState<IndexInfo[]>([]);
+  const [indexFilter, setIndexFilter] = useState<IndexFilter>(DEFAULT_INDEX_FILTER);
   const [inceptionDates, setInceptionDates] = useState<Record<string, string>>({});
+  const [priceSeries, setPriceSeries] = useState<Record<string, PricePoint[]>>({});
+  const [riskFreeRates, setRiskFreeRates] = useState<RiskFreeRates>(DEFAULT_RISK_FREE_RATES);
+  const [rollingMetric, setRollingMetric] = useState<BenchmarkMetric>('beta');
 
   const colors = [
     '#3b82f6',
@@ -53,7 +92,9 @@ export const IndexComparison: React.FC = () => {
     // Fetch available indices
     const fetchIndices = async () => {
       try {
-        const indices = await apiService.getAllIndices();
+        const entries = await apiService.getIndexCatalogue();
+        const indices = entries.map(info => info.name);
+        setCatalogue(entries);
         setAvailableIndices(indices);
         // Select first two indices by default
         if (indices.length >= 2) {
@@ -78,19 +119,10 @@ export const IndexComparison: React.FC = () => {
       
       setLoading(true);
       try {
-        // Format dates to strings for the API call
-        const formatDateForApi = (date: Date | null): string | undefined => {
-          if (!date) return undefined;
-          const mm = String(date.getMonth() + 1).padStart(2, '0');
-          const dd = String(date.getDate()).padStart(2, '0');
-          const yyyy = date.getFullYear();
-          return `${mm}/${dd}/${yyyy}`;
-        };
-        
         const data = await apiService.compareRollingReturns(
           selectedIndices, 
-          startDate ? formatDateForApi(startDate) : undefined, 
-          endDate ? formatDateForApi(endDate) : undefined
+          startDate ? toIsoDate(startDate) : undefined, 
+          endDate ? toIsoDate(endDate) : undefined
         );
         setComparisonData(data);
       } catch (error) {
@@ -121,6 +153,79 @@ export const IndexComparison: React.FC = () => {
     fetchInceptionDates();
   }, []);
 
+  useEffect(() => {
+    const fetchRiskFreeRate = async () => {
+      const info = await apiService.getRiskFreeRate();
+      setRiskFreeRates(toRiskFreeRates(info));
+    };
+    fetchRiskFreeRate();
+  }, []);
+
+  // Daily prices behind the regression statistics against the benchmark
+  useEffect(() => {
+    const missing = selectedIndices.filter(index => !priceSeries[index]);
+    if (missing.length === 0) return;
+
+    const fetchPrices = async () => {
+      try {
+        const results = await Promise.all(missing.map(index => apiService.getHistoricalData(index)));
+        setPriceSeries(prev => {
+          const next = { ...prev };
+          missing.forEach((index, i) => {
+            next[index] = toPriceSeries(results[i]);
+          });
+          return next;
+        });
+      } catch (error) {
+        console.error('Error loading prices for benchmark statistics:', error);
+      }
+    };
+
+    fetchPrices();
+  }, [selectedIndices, priceSeries]);
+
+  const comparedIndices = selectedIndices.filter(index => index !== benchmarkIndex);
+
+  const benchmarkStats = useMemo(() => {
+    const stats: Record<string, BenchmarkStats | null> = {};
+    const benchmarkSeries = priceSeries[benchmarkIndex];
+    if (!benchmarkSeries) return stats;
+
+    selectedIndices.forEach(index => {
+      if (index === benchmarkIndex || !priceSeries[index]) return;
+      stats[index] = computeBenchmarkStats(priceSeries[index], benchmarkSeries, riskFreeRates, startDate, endDate);
+    });
+    return stats;
+  }, [selectedIndices, benchmarkIndex, priceSeries, riskFreeRates, startDate, endDate]);
+
+  // Rolling statistics over the selected period's window, thinned for display
+  const rollingBenchmarkData = useMemo(() => {
+    const benchmarkSeries = priceSeries[benchmarkIndex];
+    const match = selectedPeriod.match(/^(\d+)([YM])$/);
+    if (!benchmarkSeries || !match) return [];
+    const months = parseInt(match[1], 10) * (match[2] === 'Y' ? 12 : 1);
+
+    const byTime = new Map<number, Record<string, number | string | null>>();
+    selectedIndices.forEach(index => {
+      if (index === benchmarkIndex || !priceSeries[index]) return;
+      rollingBenchmarkStats(priceSeries[index], benchmarkSeries, riskFreeRates, months, startDate, endDate)
+        .forEach(point => {
+          const row = byTime.get(point.time) || {
+            time: point.time,
+            date: formatMarketDate(point.date, 'month')
+          };
+          row[index] = point[rollingMetric];
+          byTime.set(point.time, row);
+        });
+    });
+
+    const rows = Array.from(byTime.values()).sort((a, b) => (a.time as number) - (b.time as number));
+    const step = Math.max(1, Math.floor(rows.length / 600));
+    return rows.filter((_, i) => i % step === 0 || i === rows.length - 1);
+  }, [selectedIndices, benchmarkIndex, priceSeries, riskFreeRates, selectedPeriod, startDate, endDate, rollingMetric]);
+
+  const rollingMetricInfo = BENCHMARK_METRICS.find(metric => metric.key === rollingMetric) || BENCHMARK_METRICS[0];
+
   // Transform data for line chart
   const getLineData = () => {
     if (!comparisonData?.comparisonData || !comparisonData.comparisonData[selectedPeriod]) {
@@ -136,26 +241,6 @@ export const IndexComparison: React.FC = () => {
       return [];
     }
     
-    // Helper function to convert date string to timestamp
-    const dateToTimestamp = (dateStr: string): number => {
-      try {
-        // Handle MM/DD/YYYY format
-        const parts = dateStr.split('/');
-        if (parts.length === 3) {
-          const month = parseInt(parts[0]) - 1;
-          const day = parseInt(parts[1]);
-          const year = parseInt(parts[2]);
-          return new Date(year, month, day).getTime();
-        }
-        
-        // Fall back to standard date parsing
-        return new Date(dateStr).getTime();
-      } catch (e) {
-        console.warn('Error converting date to timestamp:', e);
-        return 0;
-      }
-    };
-    
     // Create array of data points with dates and values for each index
     for (let i = 0; i < dates.length; i++) {
       // Original date from data
@@ -165,7 +250,7 @@ export const IndexComparison: React.FC = () => {
       const transformedDate = transformDateForRollingReturnsChart(originalDate, selectedPeriod);
       
       const dataPoint: any = {
-        date: dateToTimestamp(transformedDate), // Convert to timestamp for sorting
+        date: parseMarketDate(transformedDate)?.getTime() ?? 0, // Convert to timestamp for sorting
         formattedDate: formatDate(transformedDate || ''),
         originalDate: originalDate,
         rawDate: transformedDate || ''
@@ -210,6 +295,14 @@ export const IndexComparison: React.FC = () => {
     return selectedData.sort((a, b) => a.date - b.date);
   };
 
+  const catalogueByName = useMemo(() => toCatalogueMap(catalogue), [catalogue]);
+
+  // Indices matching the search and catalogue filter, grouped by category
+  const indexGroups = useMemo(() => groupByCategory(
+    availableIndices.filter(index => matchesIndexFilter(index, catalogueByName[index], searchQuery, indexFilter)),
+    catalogueByName
+  ), [availableIndices, catalogueByName, searchQuery, indexFilter]);
+
   const toggleIndexSelection = (index: string) => {
     if (selectedIndices.includes(index)) {
       // Don't remove if it's the last one
@@ -252,53 +345,10 @@ export const IndexComparison: React.FC = () => {
   };
   
   // Format date for display
-  const formatDate = (date: string) => {
-    if (!date) return '';
-    try {
-      // Handle dates in MM/DD/YYYY format
-      const parts = date.split('/');
-      if (parts.length === 3) {
-        const month = parseInt(parts[0]) - 1;
-        const day = parseInt(parts[1]);
-        const year = parseInt(parts[2]);
-        const d = new Date(year, month, day);
-        return d.toLocaleDateString('en-US', { 
-          month: 'short', 
-          day: 'numeric',
-          year: 'numeric'
-        });
-      }
-      
-      // Fall back to standard date parsing
-      const d = new Date(date);
-      if (isNaN(d.getTime())) return date; // Return original if invalid
-      
-      return d.toLocaleDateString('en-US', { 
-        month: 'short', 
-        day: 'numeric',
-        year: 'numeric'
-      });
-    } catch (e) {
-      console.warn('Error formatting date:', e);
-      return date; // Return original on error
-    }
-  };
+  const formatDate = (date: string) => formatMarketDate(date) || date;
   
   // Format date for x-axis ticks to prevent overlapping
-  const formatXAxisTick = (timestamp: number) => {
-    try {
-      const date = new Date(timestamp);
-      if (isNaN(date.getTime())) return ''; // Return empty if invalid
-      
-      return date.toLocaleDateString('en-US', { 
-        month: 'short',
-        year: '2-digit'
-      });
-    } catch (e) {
-      console.warn('Error formatting tick:', e);
-      return ''; // Return empty on error
-    }
-  };
+  const formatXAxisTick = (timestamp: number) => formatMarketDate(new Date(timestamp), 'monthShort');
   
   // Custom tooltip for the line chart
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -366,56 +416,75 @@ export const IndexComparison: React.FC = () => {
                 />
               </div>
             </div>
-            <div className="space-y-2 max-h-60 overflow-y-auto">
-              {availableIndices
-                .filter(index => 
-                  index.toLowerCase().includes(searchQuery.toLowerCase())
-                )
-                .map(index => (
-                  <div 
-                    key={index}
-                    className={`flex items-center justify-between p-3 rounded-lg cursor-pointer transition-all duration-300 ${
-                      selectedIndices.includes(index) 
-                        ? 'glassmorphic-light border-glass' 
-                        : 'bg-opacity-30 backdrop-blur-sm hover:bg-opacity-50'
-                    }`}
-                    onClick={() => toggleIndexSelection(index)}
-                  >
-                    <div className="flex items-center">
+            <IndexCatalogueFilter
+              catalogue={catalogue}
+              filter={indexFilter}
+              onChange={setIndexFilter}
+              className="mb-4"
+            />
+            <div className="space-y-4 max-h-80 overflow-y-auto">
+              {indexGroups.map(group => (
+                <div key={group.category}>
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    {group.label} ({group.indices.length})
+                  </h4>
+                  <div className="space-y-2">
+                    {group.indices.map(index => (
                       <div 
-                        className={`w-4 h-4 rounded-full mr-3 ${
+                        key={index}
+                        className={`flex items-center justify-between p-3 rounded-lg cursor-pointer transition-all duration-300 ${
                           selectedIndices.includes(index) 
-                            ? 'bg-indigo-500' 
-                            : 'bg-gray-300'
+                            ? 'glassmorphic-light border-glass' 
+                            : 'bg-opacity-30 backdrop-blur-sm hover:bg-opacity-50'
                         }`}
-                      />
-                      <span className="text-sm font-medium flex flex-col">
-                        {index}
-                        {inceptionDates[index] && (
-                          <span className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
-                            <Calendar size={12} className="inline-block" />
-                            Since {formatDate(inceptionDates[index])}
+                        onClick={() => toggleIndexSelection(index)}
+                      >
+                        <div className="flex items-center">
+                          <div 
+                            className={`w-4 h-4 rounded-full mr-3 ${
+                              selectedIndices.includes(index) 
+                                ? 'bg-indigo-500' 
+                                : 'bg-gray-300'
+                            }`}
+                          />
+                          <span className="text-sm font-medium flex flex-col">
+                            <span>
+                              {catalogueByName[index]?.displayName || index}
+                              {catalogueByName[index]?.variant === 'TRI' && (
+                                <span className="ml-1 text-xs text-indigo-600">TRI</span>
+                              )}
+                            </span>
+                            {inceptionDates[index] && (
+                              <span className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+                                <Calendar size={12} className="inline-block" />
+                                Since {formatDate(inceptionDates[index])}
+                              </span>
+                            )}
                           </span>
+                        </div>
+                        {selectedIndices.includes(index) && (
+                          <button 
+                            className={`px-2 py-1 text-xs rounded transition-all duration-300 ${
+                              benchmarkIndex === index 
+                                ? 'bg-green-100 bg-opacity-70 text-green-800 backdrop-blur-sm'
+                                : 'bg-gray-100 bg-opacity-50 text-gray-800 hover:bg-green-100 hover:bg-opacity-70 hover:text-green-800'
+                            }`}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setBenchmark(index);
+                            }}
+                          >
+                            {benchmarkIndex === index ? 'Benchmark' : 'Set as Benchmark'}
+                          </button>
                         )}
-                      </span>
-                    </div>
-                    {selectedIndices.includes(index) && (
-                      <button 
-                        className={`px-2 py-1 text-xs rounded transition-all duration-300 ${
-                          benchmarkIndex === index 
-                            ? 'bg-green-100 bg-opacity-70 text-green-800 backdrop-blur-sm'
-                            : 'bg-gray-100 bg-opacity-50 text-gray-800 hover:bg-green-100 hover:bg-opacity-70 hover:text-green-800'
-                        }`}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setBenchmark(index);
-                        }}
-                      >
-                        {benchmarkIndex === index ? 'Benchmark' : 'Set as Benchmark'}
-                      </button>
-                    )}
+                      </div>
+                    ))}
                   </div>
-                ))}
+                </div>
+              ))}
+              {indexGroups.length === 0 && (
+                <p className="text-sm text-gray-500">No indices match the current filters</p>
+              )}
             </div>
           </div>
 
@@ -426,7 +495,7 @@ export const IndexComparison: React.FC = () => {
               <div>
                 <label className="block text-sm text-gray-600 mb-1">Start Date</label>
                 <div className="relative datepicker-wrapper">
-                  <DatePicker
+                  <MarketDatePicker
                     selected={startDate}
                     onChange={(date: Date | null) => {
                       if (!date || !endDate || date <= endDate) {
@@ -436,15 +505,11 @@ export const IndexComparison: React.FC = () => {
                     selectsStart
                     startDate={startDate}
                     endDate={endDate}
-                    minDate={new Date('2000-01-01')}
-                    maxDate={new Date()}
+                    minDate={EARLIEST_DATE}
                     dateFormat="MMMM d, yyyy"
                     placeholderText="Select start date"
                     className="glassmorphic-light border-glass w-full p-2 rounded-md"
-                    showMonthDropdown
-                    showYearDropdown
-                    dropdownMode="select"
-                    filterDate={(date: Date) => date <= (endDate || new Date())}
+                    filterDate={(date: Date) => date <= (endDate || marketToday())}
                   />
                   {startDate && (
                     <button 
@@ -462,7 +527,7 @@ export const IndexComparison: React.FC = () => {
               <div>
                 <label className="block text-sm text-gray-600 mb-1">End Date</label>
                 <div className="relative datepicker-wrapper">
-                  <DatePicker
+                  <MarketDatePicker
                     selected={endDate}
                     onChange={(date: Date | null) => {
                       if (!date || !startDate || date >= startDate) {
@@ -472,14 +537,10 @@ export const IndexComparison: React.FC = () => {
                     selectsEnd
                     startDate={startDate}
                     endDate={endDate}
-                    minDate={startDate || new Date('2000-01-01')}
-                    maxDate={new Date()}
+                    minDate={startDate || EARLIEST_DATE}
                     dateFormat="MMMM d, yyyy"
                     placeholderText="Select end date"
                     className="glassmorphic-light border-glass w-full p-2 rounded-md"
-                    showMonthDropdown
-                    showYearDropdown
-                    dropdownMode="select"
                     filterDate={(date: Date) => !startDate || date >= startDate}
                   />
                   {endDate && (
@@ -714,7 +775,17 @@ export const IndexComparison: React.FC = () => {
       
       {/* Lumpsum Scenario */}
       {hasValidChartData() && (
-        <LumpsumScenario period={selectedPeriod} />
+        <LumpsumScenario 
+          period={selectedPeriod} 
+          indices={selectedIndices} 
+          startDate={startDate} 
+          endDate={endDate} 
+        />
+      )}
+      
+      {/* SIP Scenario */}
+      {selectedIndices.length > 0 && (
+        <SipScenario indices={selectedIndices} />
       )}
       
       {/* Performance Summary */}
@@ -736,6 +807,7 @@ export const IndexComparison: React.FC = () => {
                 }
               });
               const avgValue = count > 0 ? sum / count : 0;
+              const stats = benchmarkStats[index];
               
               return (
                 <div 
@@ -758,10 +830,108 @@ export const IndexComparison: React.FC = () => {
                       </p>
                     </div>
                   </div>
+                  {index === benchmarkIndex ? (
+                    <p className="text-xs text-gray-500 mt-4">Benchmark for the statistics below each index</p>
+                  ) : stats ? (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 pt-4 border-t border-gray-200">
+                      {BENCHMARK_METRICS.map(metric => (
+                        <div key={metric.key}>
+                          <p className="text-xs text-gray-500 mb-1">{metric.label}</p>
+                          <p className="text-sm font-semibold">{formatMetric(stats[metric.key], metric.unit)}</p>
+                        </div>
+                      ))}
+                      <div>
+                        <p className="text-xs text-gray-500 mb-1">Daily Returns</p>
+                        <p className="text-sm font-semibold">{stats.observations}</p>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-4">
+                      {priceSeries[index] && priceSeries[benchmarkIndex]
+                        ? `Not enough overlapping history with ${benchmarkIndex} for regression statistics`
+                        : 'Loading statistics against the benchmark...'}
+                    </p>
+                  )}
                 </div>
               );
             })}
           </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Versus {benchmarkIndex} on daily returns{startDate || endDate ? ' in the selected date range' : ''}.
+            Beta, alpha and R² regress excess returns over the risk-free rate ({riskFreeRates.label}); alpha,
+            tracking error and information ratio are annualised. Capture ratios compare average returns on the
+            benchmark's up and down days.
+          </p>
+
+          {comparedIndices.length > 0 && (
+            <div className="mt-8">
+              <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <div>
+                  <h4 className="text-lg font-medium">Rolling {rollingMetricInfo.label}</h4>
+                  <p className="text-sm text-gray-500">Over a trailing {selectedPeriod} window versus {benchmarkIndex}</p>
+                </div>
+                <select
+                  value={rollingMetric}
+                  onChange={(e) => setRollingMetric(e.target.value as BenchmarkMetric)}
+                  className="px-2 py-1 rounded border border-gray-300 text-sm"
+                >
+                  {BENCHMARK_METRICS.map(metric => (
+                    <option key={metric.key} value={metric.key}>{metric.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {rollingBenchmarkData.length === 0 ? (
+                <div className="flex justify-center items-center h-64 text-gray-500 text-sm">
+                  Not enough overlapping history for {selectedPeriod} rolling statistics.
+                </div>
+              ) : (
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={rollingBenchmarkData} margin={{ top: 15, right: 15, left: 15, bottom: 15 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                      <XAxis
+                        dataKey="date"
+                        tick={{ fontSize: 10 }}
+                        tickMargin={10}
+                        interval="equidistantPreserveStart"
+                        height={40}
+                      />
+                      <YAxis
+                        tickFormatter={(value) => `${value.toFixed(rollingMetricInfo.unit ? 0 : 1)}${rollingMetricInfo.unit}`}
+                        tick={{ fontSize: 10 }}
+                        width={50}
+                      />
+                      <Tooltip
+                        formatter={(value: number, name: string) => [formatMetric(value, rollingMetricInfo.unit), name]}
+                        labelFormatter={(label) => `Date: ${label || ''}`}
+                        contentStyle={{
+                          fontSize: '12px',
+                          padding: '8px',
+                          border: '1px solid #e2e8f0',
+                          borderRadius: '4px'
+                        }}
+                      />
+                      <Legend iconType="circle" iconSize={8} />
+                      {comparedIndices.map(index => (
+                        <Line
+                          key={index}
+                          type="monotone"
+                          dataKey={index}
+                          name={index}
+                          stroke={colors[selectedIndices.indexOf(index) % colors.length]}
+                          strokeWidth={1.5}
+                          dot={false}
+                          connectNulls
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,472 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid,
+  Tooltip, ResponsiveContainer
+} from 'recharts';
+import { Calendar, Plus, Save, Trash2, X } from 'lucide-react';
+import { apiService } from '../services/api';
+import { formatMarketDate } from '../shared/dates';
+import { portfolioStore, type SavedPortfolio } from '../services/portfolioStore';
+import { toPriceSeries, type PricePoint } from '../utils/financeUtils';
+import { backtestPortfolio, type PortfolioAllocation, type RebalanceFrequency } from '../utils/portfolioBacktest';
+import { MarketDatePicker } from '../components/MarketDatePicker';
+
+const REBALANCE_OPTIONS: { value: RebalanceFrequency; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'threshold', label: 'On drift (threshold)' }
+];
+
+const INITIAL_VALUE = 100;
+
+export const PortfolioBuilder: React.FC = () => {
+  const [availableIndices, setAvailableIndices] = useState<string[]>([]);
+  const [allocations, setAllocations] = useState<PortfolioAllocation[]>([]);
+  const [rebalance, setRebalance] = useState<RebalanceFrequency>('quarterly');
+  const [thresholdPercent, setThresholdPercent] = useState<string>('5');
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [priceSeries, setPriceSeries] = useState<Record<string, PricePoint[]>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [portfolioName, setPortfolioName] = useState<string>('');
+  const [portfolioId, setPortfolioId] = useState<string | undefined>(undefined);
+  const [savedPortfolios, setSavedPortfolios] = useState<SavedPortfolio[]>(() => portfolioStore.getAll());
+  const [indexToAdd, setIndexToAdd] = useState<string>('');
+  // Weights as typed, so partial input such as "12." survives until it is complete
+  const [weightInputs, setWeightInputs] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const fetchIndices = async () => {
+      const indices = await apiService.getAllIndices();
+      setAvailableIndices(indices);
+      // Start with an equal-weighted portfolio of the first two indices
+      if (indices.length > 0) {
+        setAllocations(indices.slice(0, 2).map(index => ({ index, weight: indices.length > 1 ? 50 : 100 })));
+      }
+    };
+
+    fetchIndices();
+  }, []);
+
+  // Fetch price history for any index in the portfolio we haven't loaded yet
+  useEffect(() => {
+    const missing = allocations.map(allocation => allocation.index).filter(index => !priceSeries[index]);
+    if (missing.length === 0) return;
+
+    const fetchPrices = async () => {
+      setLoading(true);
+      try {
+        const results = await Promise.all(missing.map(index => apiService.getHistoricalData(index)));
+        setPriceSeries(prev => {
+          const next = { ...prev };
+          missing.forEach((index, i) => {
+            next[index] = toPriceSeries(results[i]);
+          });
+          return next;
+        });
+      } catch (error) {
+        console.error('Error loading prices for portfolio backtest:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPrices();
+  }, [allocations, priceSeries]);
+
+  const totalWeight = allocations.reduce((sum, allocation) => sum + (allocation.weight || 0), 0);
+  const unusedIndices = availableIndices.filter(index => !allocations.some(allocation => allocation.index === index));
+
+  const result = useMemo(() => backtestPortfolio(priceSeries, {
+    allocations,
+    rebalance,
+    thresholdPercent: parseFloat(thresholdPercent) || 0,
+    initialValue: INITIAL_VALUE,
+    startDate,
+    endDate
+  }), [priceSeries, allocations, rebalance, thresholdPercent, startDate, endDate]);
+
+  // Recharts struggles with thousands of daily points, so thin the series for display
+  const chartData = useMemo(() => {
+    const step = Math.max(1, Math.floor(result.nav.length / 500));
+    return result.nav
+      .filter((_, i) => i % step === 0 || i === result.nav.length - 1)
+      .map(point => ({
+        date: formatMarketDate(point.date, 'month'),
+        nav: point.nav,
+        drawdown: point.drawdown
+      }));
+  }, [result]);
+
+  const updateWeight = (index: string, value: string) => {
+    if (!/^\d*\.?\d*$/.test(value)) return;
+    setWeightInputs(prev => ({ ...prev, [index]: value }));
+    setAllocations(prev => prev.map(allocation =>
+      allocation.index === index ? { ...allocation, weight: parseFloat(value) || 0 } : allocation
+    ));
+  };
+
+  // The typed text is shown while it still matches the weight, so equalising or loading
+  // a portfolio replaces it
+  const weightInput = (allocation: PortfolioAllocation) => {
+    const typed = weightInputs[allocation.index];
+    return typed !== undefined && (parseFloat(typed) || 0) === allocation.weight ? typed : String(allocation.weight);
+  };
+
+  const addIndex = () => {
+    const index = indexToAdd || unusedIndices[0];
+    if (!index) return;
+    setAllocations(prev => [...prev, { index, weight: 0 }]);
+    setIndexToAdd('');
+  };
+
+  const removeIndex = (index: string) => {
+    setAllocations(prev => prev.filter(allocation => allocation.index !== index));
+  };
+
+  const equalizeWeights = () => {
+    if (allocations.length === 0) return;
+    const weight = parseFloat((100 / allocations.length).toFixed(2));
+    setAllocations(prev => prev.map(allocation => ({ ...allocation, weight })));
+  };
+
+  const handleSave = () => {
+    const name = portfolioName.trim();
+    if (!name || allocations.length === 0) return;
+
+    const saved = portfolioStore.save({
+      id: portfolioId,
+      name,
+      allocations,
+      rebalance,
+      thresholdPercent: parseFloat(thresholdPercent) || 0
+    });
+    setPortfolioId(saved.id);
+    setSavedPortfolios(portfolioStore.getAll());
+  };
+
+  const handleLoad = (portfolio: SavedPortfolio) => {
+    setPortfolioId(portfolio.id);
+    setPortfolioName(portfolio.name);
+    setAllocations(portfolio.allocations);
+    setRebalance(portfolio.rebalance);
+    setThresholdPercent(String(portfolio.thresholdPercent));
+  };
+
+  const handleDelete = (id: string) => {
+    portfolioStore.remove(id);
+    setSavedPortfolios(portfolioStore.getAll());
+    if (id === portfolioId) {
+      setPortfolioId(undefined);
+    }
+  };
+
+  const formatDate = (date: Date | null) => {
+    if (!date) return 'N/A';
+    return formatMarketDate(date);
+  };
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-4xl font-light text-gray-700">Portfolio Builder</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        {/* Allocation editor */}
+        <div className="glassmorphic-card p-6 border-glass lg:col-span-2">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-700">Target Weights</h3>
+            <button
+              onClick={equalizeWeights}
+              className="text-sm text-indigo-600 hover:text-indigo-800"
+            >
+              Equal weight
+            </button>
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {allocations.map(allocation => (
+              <div key={allocation.index} className="flex items-center gap-3">
+                <span className="flex-1 text-sm text-gray-700">{allocation.index}</span>
+                <div className="relative">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={weightInput(allocation)}
+                    onChange={(e) => updateWeight(allocation.index, e.target.value)}
+                    className="w-24 pl-2 pr-6 py-1 rounded border border-gray-300 text-right text-sm"
+                  />
+                  <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">%</span>
+                </div>
+                <button
+                  onClick={() => removeIndex(allocation.index)}
+                  className="text-gray-400 hover:text-red-500 p-1"
+                  title="Remove index"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+            {allocations.length === 0 && (
+              <p className="text-sm text-gray-500">Add at least one index to build a portfolio.</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 mb-4">
+            <select
+              value={indexToAdd}
+              onChange={(e) => setIndexToAdd(e.target.value)}
+              className="flex-1 px-2 py-1 rounded border border-gray-300 text-sm"
+              disabled={unusedIndices.length === 0}
+            >
+              <option value="">Select an index to add</option>
+              {unusedIndices.map(index => (
+                <option key={index} value={index}>{index}</option>
+              ))}
+            </select>
+            <button
+              onClick={addIndex}
+              disabled={unusedIndices.length === 0}
+              className="flex items-center bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition"
+            >
+              <Plus size={14} className="mr-1" /> Add
+            </button>
+          </div>
+
+          <div className={`text-sm mb-4 ${Math.abs(totalWeight - 100) < 0.01 ? 'text-gray-500' : 'text-amber-600'}`}>
+            Total weight: {totalWeight.toFixed(2)}%
+            {Math.abs(totalWeight - 100) >= 0.01 && totalWeight > 0 && ' (weights are scaled to 100% for the backtest)'}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">Rebalancing</label>
+              <select
+                value={rebalance}
+                onChange={(e) => setRebalance(e.target.value as RebalanceFrequency)}
+                className="w-full px-2 py-1 rounded border border-gray-300 text-sm"
+              >
+                {REBALANCE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {rebalance === 'threshold' && (
+              <div>
+                <label className="block text-sm text-gray-500 mb-1">Rebalance when any weight drifts by more than</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={thresholdPercent}
+                    onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setThresholdPercent(e.target.value)}
+                    className="w-full pl-2 pr-6 py-1 rounded border border-gray-300 text-right text-sm"
+                  />
+                  <span className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 text-sm">%</span>
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">From</label>
+              <div className="relative datepicker-wrapper">
+                <MarketDatePicker
+                  selected={startDate}
+                  onChange={setStartDate}
+                  maxDate={endDate}
+                  placeholderText="Earliest common date"
+                  className="w-full px-2 py-1 rounded border border-gray-300 text-sm"
+                  isClearable
+                />
+                <Calendar className="absolute right-8 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">To</label>
+              <div className="relative datepicker-wrapper">
+                <MarketDatePicker
+                  selected={endDate}
+                  onChange={setEndDate}
+                  minDate={startDate}
+                  placeholderText="Latest available date"
+                  className="w-full px-2 py-1 rounded border border-gray-300 text-sm"
+                  isClearable
+                />
+                <Calendar className="absolute right-8 top-1/2 transform -translate-y-1/2 text-gray-400" size={14} />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Saved portfolios */}
+        <div className="glassmorphic-card p-6 border-glass">
+          <h3 className="text-lg font-medium text-gray-700 mb-4">Saved Portfolios</h3>
+          <div className="flex items-center gap-2 mb-4">
+            <input
+              type="text"
+              value={portfolioName}
+              onChange={(e) => setPortfolioName(e.target.value)}
+              placeholder="Portfolio name"
+              className="flex-1 px-2 py-1 rounded border border-gray-300 text-sm"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!portfolioName.trim() || allocations.length === 0}
+              className="flex items-center bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition"
+            >
+              <Save size={14} className="mr-1" /> Save
+            </button>
+          </div>
+
+          {savedPortfolios.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved portfolios yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {savedPortfolios.map(portfolio => (
+                <li
+                  key={portfolio.id}
+                  className={`flex items-center justify-between p-2 rounded cursor-pointer hover:bg-gray-50 ${
+                    portfolio.id === portfolioId ? 'bg-indigo-50' : ''
+                  }`}
+                  onClick={() => handleLoad(portfolio)}
+                >
+                  <div>
+                    <div className="text-sm font-medium text-gray-700">{portfolio.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {portfolio.allocations.length} indices · {portfolio.rebalance}
+                    </div>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(portfolio.id);
+                    }}
+                    className="text-gray-400 hover:text-red-500 p-1"
+                    title="Delete portfolio"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Backtest results */}
+      <div className="glassmorphic-card p-6 border-glass mb-8">
+        <h3 className="text-lg font-medium text-gray-700 mb-4">Backtest</h3>
+
+        {loading && result.nav.length === 0 ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-500"></div>
+          </div>
+        ) : result.nav.length === 0 ? (
+          <div className="flex justify-center items-center h-64 text-gray-500 text-sm">
+            No common price history is available for the selected indices and dates.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+              <div>
+                <div className="text-gray-500">CAGR</div>
+                <div className={`text-xl font-semibold ${result.cagr >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {result.cagr.toFixed(2)}%
+                </div>
+                <div className="text-xs text-gray-400">
+                  {formatDate(result.startDate)} – {formatDate(result.endDate)}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500">Growth of ₹{INITIAL_VALUE}</div>
+                <div className="text-xl font-semibold text-gray-800">₹{result.finalValue.toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Max Drawdown</div>
+                <div className="text-xl font-semibold text-red-600">{result.maxDrawdown.toFixed(2)}%</div>
+                <div className="text-xs text-gray-400">on {formatDate(result.maxDrawdownDate)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Turnover</div>
+                <div className="text-xl font-semibold text-gray-800">{result.annualTurnover.toFixed(2)}% / yr</div>
+                <div className="text-xs text-gray-400">
+                  {result.rebalanceCount} rebalances · {result.totalTurnover.toFixed(1)}% total
+                </div>
+              </div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 15, right: 15, left: 15, bottom: 15 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 10 }}
+                    tickMargin={10}
+                    interval="equidistantPreserveStart"
+                    height={40}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => value.toFixed(0)}
+                    tick={{ fontSize: 10 }}
+                    width={60}
+                    domain={['auto', 'auto']}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [value.toFixed(2), 'NAV']}
+                    labelFormatter={(label) => `Date: ${label || ''}`}
+                    contentStyle={{
+                      fontSize: '12px',
+                      padding: '8px',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '4px'
+                    }}
+                  />
+                  <Line type="monotone" dataKey="nav" stroke="#6366F1" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="h-40 mt-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} margin={{ top: 5, right: 15, left: 15, bottom: 15 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fontSize: 10 }}
+                    tickMargin={10}
+                    interval="equidistantPreserveStart"
+                    height={40}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => `${value.toFixed(0)}%`}
+                    tick={{ fontSize: 10 }}
+                    width={60}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']}
+                    labelFormatter={(label) => `Date: ${label || ''}`}
+                    contentStyle={{
+                      fontSize: '12px',
+                      padding: '8px',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '4px'
+                    }}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="drawdown"
+                    stroke="#EF4444"
+                    fill="#EF4444"
+                    fillOpacity={0.2}
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+};
@@ -3,59 +3,39 @@ import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   Legend, Area, AreaChart, ReferenceLine
 } from 'recharts';
-import { ArrowUpRight, ArrowDownRight, Info, TrendingUp, Search, Filter, Calendar } from 'lucide-react';
-import { indexDataService, type IndexReturn, type IndexStats, type HistoricalDataPoint } from '../services/indexData';
+import { ArrowUpRight, ArrowDownRight, Info, TrendingUp, TrendingDown, Search, Filter, Calendar } from 'lucide-react';
+import { indexDataService, type IndexReturn, type IndexRiskStats, type HistoricalDataPoint } from '../services/indexData';
+import { formatMarketDate } from '../shared/dates';
 import { formatChartDate } from '../utils/dateUtils';
-import { apiService } from '../services/api';
+import { apiService, type IndexInfo } from '../services/api';
+import {
+  DEFAULT_INDEX_FILTER,
+  groupByCategory,
+  matchesIndexFilter,
+  toCatalogueMap,
+  type IndexFilter
+} from '../utils/indexCatalogue';
+import { IndexCatalogueFilter } from '../components/IndexCatalogueFilter';
+import { EMPTY_RISK_STATS, TRADING_DAYS_PER_YEAR } from '../utils/riskStats';
 
 // Date formatting function to use Month YY format (e.g., Apr 23)
-const formatToMonthYY = (dateStr: string): string => {
-  if (!dateStr) return '';
-  
-  try {
-    // Handle MM/DD/YYYY format
-    const mmddyyyyPattern = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
-    const match = dateStr.match(mmddyyyyPattern);
-    if (match) {
-      const month = parseInt(match[1], 10);
-      const year = parseInt(match[3], 10) % 100; // Get last 2 digits of year
-      
-      // Convert month number to abbreviation
-      const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const monthAbbr = monthNames[month - 1];
-      
-      return `${monthAbbr} ${String(year).padStart(2, '0')}`;
-    }
-    
-    // Handle ISO format
-    const date = new Date(dateStr);
-    if (!isNaN(date.getTime())) {
-      const year = String(date.getFullYear() % 100).padStart(2, '0');
-      const monthAbbr = date.toLocaleString('en-US', { month: 'short' });
-      
-      return `${monthAbbr} ${year}`;
-    }
-    
-    return dateStr;
-  } catch (e) {
-    console.error('Error formatting date:', e);
-    return dateStr;
-  }
-};
+const formatToMonthYY = (dateStr: string): string => formatMarketDate(dateStr, 'monthShort') || dateStr;
+
+interface RollingReturnsPageProps {
+  onViewDrawdowns?: (index: string) => void;
+}
 
-export const RollingReturnsPage: React.FC = () => {
+export const RollingReturnsPage: React.FC<RollingReturnsPageProps> = ({ onViewDrawdowns }) => {
   const [selectedPeriod, setSelectedPeriod] = useState('1Y');
   const [selectedIndex, setSelectedIndex] = useState('NIFTY 50');
   const [indices, setIndices] = useState<string[]>([]);
   const [periods, setPeriods] = useState<string[]>([]);
-  const [returns, setReturns] = useState<Record<string, number>>({});
+  const [returns, setReturns] = useState<Record<string, number | null>>({});
   const [selectedIndexData, setSelectedIndexData] = useState<IndexReturn | null>(null);
-  const [stats, setStats] = useState<IndexStats>({
-    averageReturn: 0,
-    standardDeviation: 0,
-    sharpeRatio: 0
-  });
+  const [stats, setStats] = useState<IndexRiskStats>(EMPTY_RISK_STATS);
   const [searchQuery, setSearchQuery] = useState('');
+  const [catalogue, setCatalogue] = useState<IndexInfo[]>([]);
+  const [indexFilter, setIndexFilter] = useState<IndexFilter>(DEFAULT_INDEX_FILTER);
   const [showPositiveOnly, setShowPositiveOnly] = useState(false);
   const [loading, setLoading] = useState(true);
   const [inceptionDates, setInceptionDates] = useState<Record<string, string>>({});
@@ -68,6 +48,7 @@ export const RollingReturnsPage: React.FC = () => {
         const allIndices = indexDataService.getAllIndices();
         const allPeriods = indexDataService.getPeriods();
         setIndices(allIndices);
+        setCatalogue(indexDataService.getCatalogue());
         setPeriods(allPeriods);
         
         const periodReturns = await indexDataService.getAllReturnsForPeriod(selectedPeriod);
@@ -134,69 +115,45 @@ export const RollingReturnsPage: React.FC = () => {
     }
   }, [selectedPeriod, selectedIndex]);
 
-  const getReturnColor = (value: number) => {
+  // Returns are null, or missing from a period's returns, without enough history
+  const getReturnColor = (value: number | null | undefined) => {
+    if (value === null || value === undefined || isNaN(value)) return 'text-gray-400';
     if (value >= 30) return 'text-green-600';
     if (value >= 15) return 'text-green-500';
     if (value >= 0) return 'text-green-400';
     return 'text-red-500';
   };
 
-  const formatReturn = (value: number) => {
-    if (isNaN(value)) return '0.0';
+  const formatReturn = (value: number | null | undefined) => {
+    if (value === null || value === undefined || isNaN(value)) return 'N/A';
     return `${value.toFixed(2)}`;
   };
 
+  const catalogueByName = toCatalogueMap(catalogue);
+
   const filteredIndices = indices.filter(index => {
-    // Filter by search query
-    if (searchQuery && !index.toLowerCase().includes(searchQuery.toLowerCase())) {
+    // Filter by search query and catalogue filter
+    if (!matchesIndexFilter(index, catalogueByName[index], searchQuery, indexFilter)) {
       return false;
     }
     
     // Filter by positive returns only
-    if (showPositiveOnly && (returns[index] || 0) <= 0) {
+    if (showPositiveOnly && (returns[index] ?? 0) <= 0) {
       return false;
     }
     
     return true;
   });
 
-  // Sort indices by returns (descending)
+  // Sort indices by returns (descending) with those without one last, then group them by category
   const sortedIndices = [...filteredIndices].sort((a, b) => {
-    return (returns[b] || 0) - (returns[a] || 0);
+    return (returns[b] ?? -Infinity) - (returns[a] ?? -Infinity) || 0;
   });
+  const indexGroups = groupByCategory(sortedIndices, catalogueByName);
 
   // Format the inception date
-  const formatDate = (dateStr?: string) => {
-    if (!dateStr) return 'N/A';
-    try {
-      // Handle dates in MM/DD/YYYY format
-      const parts = dateStr.split('/');
-      if (parts.length === 3) {
-        const month = parseInt(parts[0]) - 1;
-        const day = parseInt(parts[1]);
-        const year = parseInt(parts[2]);
-        const d = new Date(year, month, day);
-        return d.toLocaleDateString('en-US', { 
-          day: 'numeric',
-          month: 'short',
-          year: 'numeric'
-        });
-      }
-      
-      // Fall back to standard date parsing
-      const d = new Date(dateStr);
-      if (isNaN(d.getTime())) return dateStr; // Return original if invalid
-      
-      return d.toLocaleDateString('en-US', { 
-        day: 'numeric',
-        month: 'short',
-        year: 'numeric'
-      });
-    } catch (e) {
-      console.warn('Error formatting date:', e);
-      return dateStr; // Return original on error
-    }
-  };
+  const formatDate = (dateStr?: string) => (dateStr && formatMarketDate(dateStr)) || 'N/A';
+
 
   if (loading) {
     return (
@@ -217,7 +174,17 @@ export const RollingReturnsPage: React.FC = () => {
       {/* Main chart section */}
       <div className="glassmorphic-card p-6 mb-8 animate-fadeIn">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-xl font-semibold">{selectedIndex} Performance</h3>
+          <div className="flex items-center gap-4">
+            <h3 className="text-xl font-semibold">{selectedIndex} Performance</h3>
+            {onViewDrawdowns && selectedIndex && (
+              <button
+                onClick={() => onViewDrawdowns(selectedIndex)}
+                className="flex items-center px-3 py-1 rounded-lg text-sm font-medium glassmorphic-light text-gray-700 hover:bg-gray-100 transition-colors"
+              >
+                <TrendingDown size={14} className="mr-1" /> Drawdowns
+              </button>
+            )}
+          </div>
           <div className="flex space-x-2">
             {periods.map((period) => (
               <button
@@ -317,29 +284,61 @@ export const RollingReturnsPage: React.FC = () => {
             </div>
             <div className="space-y-6">
               <div>
-                <p className="text-sm text-gray-500">Average Return</p>
+                <p className="text-sm text-gray-500">Annualised Return</p>
                 <p className={`text-2xl font-bold ${getReturnColor(stats.averageReturn)}`}>
                   {formatReturn(stats.averageReturn)}
                 </p>
               </div>
-              <div>
-                <p className="text-sm text-gray-500">Standard Deviation</p>
-                <p className="text-2xl font-bold">{formatReturn(stats.standardDeviation)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-500">Sharpe Ratio</p>
-                <p className="text-2xl font-bold">{stats.sharpeRatio.toFixed(2)}</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm text-gray-500">Volatility</p>
+                  <p className="text-xl font-bold">{stats.standardDeviation.toFixed(2)}%</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Downside Dev.</p>
+                  <p className="text-xl font-bold">{stats.downsideDeviation.toFixed(2)}%</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Sharpe Ratio</p>
+                  <p className="text-xl font-bold">{stats.sharpeRatio.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Sortino Ratio</p>
+                  <p className="text-xl font-bold">{stats.sortinoRatio.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Max Drawdown</p>
+                  <p className="text-xl font-bold text-red-500">{stats.maxDrawdown.toFixed(2)}%</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Calmar Ratio</p>
+                  <p className="text-xl font-bold">{stats.calmarRatio.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Skewness</p>
+                  <p className="text-xl font-bold">{stats.skewness.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Excess Kurtosis</p>
+                  <p className="text-xl font-bold">{stats.kurtosis.toFixed(2)}</p>
+                </div>
               </div>
               <div>
                 <p className="text-sm text-gray-500">{selectedPeriod} Return</p>
-                <p className={`text-2xl font-bold ${getReturnColor(selectedIndexData?.returns[selectedPeriod as keyof typeof selectedIndexData.returns] || 0)}`}>
-                  {formatReturn(selectedIndexData?.returns[selectedPeriod as keyof typeof selectedIndexData.returns] || 0)}
+                <p className={`text-2xl font-bold ${getReturnColor(selectedIndexData?.returns[selectedPeriod as keyof typeof selectedIndexData.returns])}`}>
+                  {formatReturn(selectedIndexData?.returns[selectedPeriod as keyof typeof selectedIndexData.returns])}
                 </p>
               </div>
               <div>
                 <p className="text-sm text-gray-500">Data Points</p>
                 <p className="text-2xl font-bold">{selectedIndexData?.historicalData.length || 0}</p>
               </div>
+              <p className="text-xs text-gray-400">
+                {stats.fromDate && stats.toDate
+                  ? `From ${stats.observations} daily returns, ${formatMarketDate(stats.fromDate)} to ${formatMarketDate(stats.toDate)}. `
+                  : 'Not enough daily prices for this period. '}
+                Sharpe and Sortino use {stats.riskFreeLabel || 'the risk-free rate'}, averaging {stats.riskFreeRate.toFixed(2)}% over this window, and {TRADING_DAYS_PER_YEAR} trading days a year.
+              </p>
             </div>
           </div>
 
@@ -390,41 +389,66 @@ export const RollingReturnsPage: React.FC = () => {
                 </label>
               </div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {sortedIndices.map((index) => (
-                <div
-                  key={index}
-                  className="glassmorphic-card p-4 hover:shadow-lg transition-shadow min-h-[120px]"
-                  onClick={() => {
-                    setSelectedIndex(index);
-                    updateSelectedIndexData(index);
-                  }}
-                >
-                  <div className="flex flex-col justify-between h-full">
-                    <div className="flex flex-col">
-                      <h4 className="text-base font-medium mb-1">{index}</h4>
-                      {inceptionDates[index] && (
-                        <div className="flex items-center gap-1 mb-2 text-xs text-gray-500">
-                          <Calendar size={10} />
-                          <span>Since {formatDate(inceptionDates[index])}</span>
+            <IndexCatalogueFilter
+              catalogue={catalogue}
+              filter={indexFilter}
+              onChange={setIndexFilter}
+              className="mb-6"
+            />
+            <div className="space-y-6">
+              {indexGroups.map(group => (
+                <div key={group.category}>
+                  <h4 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">
+                    {group.label} ({group.indices.length})
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {group.indices.map((index) => (
+                      <div
+                        key={index}
+                        className="glassmorphic-card p-4 hover:shadow-lg transition-shadow min-h-[120px]"
+                        onClick={() => {
+                          setSelectedIndex(index);
+                          updateSelectedIndexData(index);
+                        }}
+                      >
+                        <div className="flex flex-col justify-between h-full">
+                          <div className="flex flex-col">
+                            <h4 className="text-base font-medium mb-1">
+                              {catalogueByName[index]?.displayName || index}
+                              {catalogueByName[index]?.variant === 'TRI' && (
+                                <span className="ml-1 text-xs text-blue-600">TRI</span>
+                              )}
+                            </h4>
+                            {inceptionDates[index] && (
+                              <div className="flex items-center gap-1 mb-2 text-xs text-gray-500">
+                                <Calendar size={10} />
+                                <span>Since {formatDate(inceptionDates[index])}</span>
+                              </div>
+                            )}
+                            <div className="flex justify-between items-center">
+                              <p className="text-xs text-gray-500">Return</p>
+                              <p className={`text-base font-semibold ${getReturnColor(returns[index])}`}>
+                                {formatReturn(returns[index])}
+                              </p>
+                            </div>
+                            {returns[index] !== null && returns[index] !== undefined && (
+                              <TrendingUp
+                                size={16}
+                                className={`transition-transform duration-300 ${
+                                  (returns[index] ?? 0) >= 0 ? 'text-green-500 rotate-45' : 'text-red-500 -rotate-45'
+                                }`}
+                              />
+                            )}
+                          </div>
                         </div>
-                      )}
-                      <div className="flex justify-between items-center">
-                        <p className="text-xs text-gray-500">Return</p>
-                        <p className={`text-base font-semibold ${getReturnColor(returns[index])}`}>
-                          {formatReturn(returns[index])}
-                        </p>
                       </div>
-                      <TrendingUp
-                        size={16}
-                        className={`transition-transform duration-300 ${
-                          returns[index] >= 0 ? 'text-green-500 rotate-45' : 'text-red-500 -rotate-45'
-                        }`}
-                      />
-                    </div>
+                    ))}
                   </div>
                 </div>
               ))}
+              {indexGroups.length === 0 && (
+                <p className="text-sm text-gray-500">No indices match the current filters</p>
+              )}
             </div>
           </div>
         </div>
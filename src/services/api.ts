@@ -1,21 +1,97 @@
 import axios from 'axios';
+import type { z } from 'zod';
+import {
+  ChartResponseSchema,
+  ComparisonDataSchema,
+  CorrelationMatrixSchema,
+  DataQualityReportSchema,
+  HistoricalResponseSchema,
+  InceptionDateResponseSchema,
+  InceptionDatesResponseSchema,
+  IndexCatalogueResponseSchema,
+  IndicesResponseSchema,
+  MarketIndicesResponseSchema,
+  MarketNewsResponseSchema,
+  MarketSnapshotEventSchema,
+  MarketStatusEventSchema,
+  MarketTickSchema,
+  PeriodsResponseSchema,
+  ReturnsByPeriodResponseSchema,
+  ReturnsResponseSchema,
+  RiskFreeRateInfoSchema,
+  RollingCorrelationSchema,
+  RollingReturnsResponseSchema,
+  type ChartQuery,
+  type ChartRange,
+  type ChartResponse,
+  type CompareRollingReturnsQuery,
+  type ComparisonData,
+  type CorrelationMatrix,
+  type CorrelationQuery,
+  type DataQualityQuery,
+  type DataQualityReport,
+  type HistoricalDataPoint,
+  type HistoricalQuery,
+  type IndexInfo,
+  type MarketIndicesResponse,
+  type MarketNewsQuery,
+  type MarketTick,
+  type NewsItem,
+  type ReturnFrequency,
+  type RiskFreeRateInfo,
+  type RollingCorrelation,
+  type RollingCorrelationQuery,
+  type RollingReturnPeriod
+} from '../shared/api';
+
+// Response types live in the shared API contract; re-exported for existing imports
+export type {
+  ChartBar,
+  ChartRange,
+  ChartResponse,
+  ComparisonData,
+  ComparisonDataPoint,
+  CorrelationMatrix,
+  DataQualityQuery,
+  DataQualityReport,
+  HistoricalDataPoint,
+  IndexCategory,
+  IndexQuality,
+  IndexInfo,
+  IndexVariant,
+  MarketIndex,
+  MarketIndicesResponse,
+  MarketSentiment,
+  MarketTick,
+  NewsItem,
+  PeriodChange,
+  QualityIssue,
+  ReturnFrequency,
+  RiskFreeRateInfo,
+  RollingCorrelation,
+  RollingReturnPeriod
+} from '../shared/api';
 
 const API_URL = 'http://localhost:3001/api';
 
-export interface HistoricalDataPoint {
-  date: string;
-  value: number;
-}
+// Events of the live market stream, as passed to subscribeToMarketStream listeners
+export type MarketStreamEvent =
+  | { type: 'snapshot'; open: boolean; ticks: MarketTick[] }
+  | { type: 'status'; open: boolean }
+  | { type: 'tick'; tick: MarketTick };
+
+export type MarketStreamListener = (event: MarketStreamEvent) => void;
 
 export interface IndexReturn {
   name: string;
   symbol: string;
+  // Null where the index doesn't have enough history for the window
   returns: {
-    '1Y': number;
-    '3Y': number;
-    '5Y': number;
-    '7Y': number;
-    '10Y': number;
+    '1Y': number | null;
+    '3Y': number | null;
+    '5Y': number | null;
+    '7Y': number | null;
+    '10Y': number | null;
   };
   historicalData: HistoricalDataPoint[];
 }
@@ -26,91 +102,119 @@ export interface IndexStats {
   sharpeRatio: number;
 }
 
-export interface RollingReturnPeriod {
-  period: string;
-  returns: Record<string, string>;
+// Risk statistics from daily prices; averageReturn is annualised and standardDeviation is annualised volatility
+export interface IndexRiskStats extends IndexStats {
+  sortinoRatio: number;
+  maxDrawdown: number;
+  calmarRatio: number;
+  downsideDeviation: number;
+  skewness: number;
+  kurtosis: number;
+  observations: number;
+  fromDate: Date | null;
+  toDate: Date | null;
+  riskFreeRate: number;
+  riskFreeLabel: string;
 }
 
-// Interface for comparison data
-export interface ComparisonDataPoint {
-  dates: string[];
-  indices: Record<string, number[]>;
-}
-
-export interface ComparisonData {
-  comparisonData: Record<string, ComparisonDataPoint>;
-}
+class ApiService {
+  // One market stream connection shared by every listener, with its latest state for new ones
+  private marketStream: EventSource | null = null;
+  private readonly marketStreamListeners = new Set<MarketStreamListener>();
+  private marketState: { open: boolean; ticks: Record<string, MarketTick> } | null = null;
 
-export interface NewsItem {
-  title: string;
-  timeAgo: string;
-  category: string;
-  categoryColor: string;
-  link: string;
-  date?: string;
-}
+  // Fetch a route and check the response against the shared API contract
+  private async get<T>(path: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, params?: object): Promise<T> {
+    const response = await axios.get(`${API_URL}${path}`, { params });
+    return schema.parse(response.data);
+  }
 
-class ApiService {
-  // Get all available indices
+  // Get the names of all available indices
   async getAllIndices(): Promise<string[]> {
     try {
-      const response = await axios.get(`${API_URL}/indices`);
-      return response.data.indices || [];
+      const { indices } = await this.get('/allindices', IndicesResponseSchema);
+      return indices;
     } catch (error) {
       console.error('Error fetching indices:', error);
       return [];
     }
   }
 
+  // Get the catalogue entry of every available index
+  async getIndexCatalogue(): Promise<IndexInfo[]> {
+    try {
+      const { indices } = await this.get('/indices', IndexCatalogueResponseSchema);
+      return indices;
+    } catch (error) {
+      console.error('Error fetching index catalogue:', error);
+      return [];
+    }
+  }
+
   // Get market indices data
-  async getMarketIndices(): Promise<any> {
+  async getMarketIndices(): Promise<MarketIndicesResponse> {
     try {
-      const response = await axios.get(`${API_URL}/market-indices`);
-      return response.data || { indices: [], sentiment: null };
+      return await this.get('/market-indices', MarketIndicesResponseSchema);
     } catch (error) {
       console.error('Error fetching market indices:', error);
-      return { indices: [], sentiment: null };
+      return { indices: [], sentiment: null, stale: false };
     }
   }
 
   // Get all time periods
   async getPeriods(): Promise<string[]> {
     try {
-      const response = await axios.get(`${API_URL}/periods`);
-      return response.data.periods || ['1Y', '3Y', '5Y', '7Y', '10Y'];
+      const { periods } = await this.get('/periods', PeriodsResponseSchema);
+      return periods.length > 0 ? periods : ['1Y', '3Y', '5Y', '7Y', '10Y'];
     } catch (error) {
       console.error('Error fetching periods:', error);
       return ['1Y', '3Y', '5Y', '7Y', '10Y'];
     }
   }
 
-  // Get historical data for an index
-  async getHistoricalData(index: string): Promise<HistoricalDataPoint[]> {
+  // Get historical data for an index, optionally limited to a YYYY-MM-DD date range
+  async getHistoricalData(index: string, fromDate?: string, toDate?: string): Promise<HistoricalDataPoint[]> {
     try {
-      const response = await axios.get(`${API_URL}/historical/${encodeURIComponent(index)}`);
-      return response.data.historicalData || [];
+      const params: HistoricalQuery = { fromDate, toDate };
+      const { historicalData } = await this.get(
+        `/historical/${encodeURIComponent(index)}`,
+        HistoricalResponseSchema,
+        params
+      );
+      return historicalData;
     } catch (error) {
       console.error(`Error fetching historical data for ${index}:`, error);
       return [];
     }
   }
 
-  // Get returns data for an index
-  async getReturns(index: string): Promise<Record<string, number>> {
+  // Get the chart bars of an index over a range, intraday for 1D and 5D
+  async getChart(index: string, range: ChartRange): Promise<ChartResponse | null> {
+    try {
+      const params: ChartQuery = { range };
+      return await this.get(`/chart/${encodeURIComponent(index)}`, ChartResponseSchema, params);
+    } catch (error) {
+      console.error(`Error fetching ${range} chart for ${index}:`, error);
+      return null;
+    }
+  }
+
+  // Get returns data for an index; windows without enough history come back as null
+  async getReturns(index: string): Promise<Record<string, number | null>> {
     try {
-      const response = await axios.get(`${API_URL}/returns/${encodeURIComponent(index)}`);
-      return response.data.returns || {};
+      const { returns } = await this.get(`/returns/${encodeURIComponent(index)}`, ReturnsResponseSchema);
+      return returns;
     } catch (error) {
       console.error(`Error fetching returns for ${index}:`, error);
-      return { '1Y': 0, '3Y': 0, '5Y': 0, '7Y': 0, '10Y': 0 };
+      return { '1Y': null, '3Y': null, '5Y': null, '7Y': null, '10Y': null };
     }
   }
 
   // Get all returns for a specific period
   async getReturnsByPeriod(period: string): Promise<Record<string, number>> {
     try {
-      const response = await axios.get(`${API_URL}/returns-by-period/${encodeURIComponent(period)}`);
-      return response.data.returns || {};
+      const { returns } = await this.get(`/returns-by-period/${encodeURIComponent(period)}`, ReturnsByPeriodResponseSchema);
+      return returns;
     } catch (error) {
       console.error(`Error fetching returns for period ${period}:`, error);
       return {};
@@ -120,161 +224,138 @@ class ApiService {
   // Get rolling returns data
   async getRollingReturns(): Promise<RollingReturnPeriod[]> {
     try {
-      const response = await axios.get(`${API_URL}/rolling-returns`);
-      return response.data.rollingReturnsData || [];
+      const { rollingReturnsData } = await this.get('/rolling-returns', RollingReturnsResponseSchema);
+      return rollingReturnsData;
     } catch (error) {
       console.error('Error fetching rolling returns:', error);
       return [];
     }
   }
 
-  // Calculate index statistics
-  calculateStats(returns: Record<string, number>): IndexStats {
-    const values = Object.values(returns);
-    if (values.length === 0) {
-      return { averageReturn: 0, standardDeviation: 0, sharpeRatio: 0 };
+  // Get the risk-free rate used for Sharpe, Sortino and alpha calculations
+  async getRiskFreeRate(): Promise<RiskFreeRateInfo> {
+    try {
+      return await this.get('/risk-free-rate', RiskFreeRateInfoSchema);
+    } catch (error) {
+      console.error('Error fetching risk-free rate:', error);
+      return { source: 'constant', label: 'Constant 4% (default)', constantRate: 4, rates: [] };
     }
-
-    const avg = values.reduce((a, b) => a + b, 0) / values.length;
-    const variance = values.reduce((a, b) => a + Math.pow(b - avg, 2), 0) / values.length;
-    const std = Math.sqrt(variance) || 0.01; // Avoid division by zero
-    const riskFreeRate = 4.5; // Assuming 4.5% risk-free rate
-
-    return {
-      averageReturn: avg,
-      standardDeviation: std,
-      sharpeRatio: (avg - riskFreeRate) / std
-    };
   }
 
-  // Compare multiple indices rolling returns
+  // Compare multiple indices rolling returns, optionally limiting window start dates to a YYYY-MM-DD range
   async compareRollingReturns(
     indices: string[], 
     fromDate?: string, 
-    toDate?: string
+    toDate?: string,
+    windows?: string[]
   ): Promise<ComparisonData> {
+    // Any window such as 2Y, 15Y or 18M can be requested; the server defaults to 1Y/3Y/5Y/7Y/10Y
+    const periodsToCheck = windows && windows.length > 0 ? windows : ['1Y', '3Y', '5Y', '7Y', '10Y'];
+
     try {
-      const indicesParam = indices.join(',');
-      let url = `${API_URL}/compare-rolling-returns?indices=${encodeURIComponent(indicesParam)}`;
+      const params: CompareRollingReturnsQuery = { indices: indices.join(',') };
+      if (windows && windows.length > 0) {
+        params.windows = windows.join(',');
+      }
       
-      // Format dates to MM/DD/YYYY format that the server expects
       if (fromDate) {
-        try {
-          // Verify if the date is already in MM/DD/YYYY format
-          const mmddyyyyPattern = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
-          if (mmddyyyyPattern.test(fromDate)) {
-            url += `&fromDate=${encodeURIComponent(fromDate)}`;
-            console.log(`From date already in correct format: ${fromDate}`);
-          } else {
-            // Convert from ISO or other format to MM/DD/YYYY
-            const fromDateObj = new Date(fromDate);
-            if (!isNaN(fromDateObj.getTime())) {
-              const mm = String(fromDateObj.getMonth() + 1).padStart(2, '0');
-              const dd = String(fromDateObj.getDate()).padStart(2, '0');
-              const yyyy = fromDateObj.getFullYear();
-              const formattedFromDate = `${mm}/${dd}/${yyyy}`;
-              url += `&fromDate=${encodeURIComponent(formattedFromDate)}`;
-              console.log(`From date: ${fromDate} -> ${formattedFromDate}`);
-            } else {
-              console.warn(`Invalid from date: ${fromDate}`);
-              url += `&fromDate=${encodeURIComponent(fromDate)}`;
-            }
-          }
-        } catch (e) {
-          console.error('Error formatting fromDate:', e);
-          url += `&fromDate=${encodeURIComponent(fromDate)}`;
-        }
+        params.fromDate = fromDate;
       }
-      
       if (toDate) {
-        try {
-          // Verify if the date is already in MM/DD/YYYY format
-          const mmddyyyyPattern = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
-          if (mmddyyyyPattern.test(toDate)) {
-            url += `&toDate=${encodeURIComponent(toDate)}`;
-            console.log(`To date already in correct format: ${toDate}`);
-          } else {
-            // Convert from ISO or other format to MM/DD/YYYY
-            const toDateObj = new Date(toDate);
-            if (!isNaN(toDateObj.getTime())) {
-              const mm = String(toDateObj.getMonth() + 1).padStart(2, '0');
-              const dd = String(toDateObj.getDate()).padStart(2, '0');
-              const yyyy = toDateObj.getFullYear();
-              const formattedToDate = `${mm}/${dd}/${yyyy}`;
-              url += `&toDate=${encodeURIComponent(formattedToDate)}`;
-              console.log(`To date: ${toDate} -> ${formattedToDate}`);
-            } else {
-              console.warn(`Invalid to date: ${toDate}`);
-              url += `&toDate=${encodeURIComponent(toDate)}`;
-            }
-          }
-        } catch (e) {
-          console.error('Error formatting toDate:', e);
-          url += `&toDate=${encodeURIComponent(toDate)}`;
-        }
+        params.toDate = toDate;
       }
       
-      console.log(`Fetching comparison data from: ${url}`);
-      const response = await axios.get(url);
+      const returnData = await this.get('/compare-rolling-returns', ComparisonDataSchema, params);
       
-      // Check if we got valid data
-      if (response.data && response.data.comparisonData) {
-        // Ensure we have data for all required periods
-        const periodsToCheck = ['1Y', '3Y', '5Y', '7Y', '10Y'];
-        const returnData = response.data as ComparisonData;
-        
-        // Initialize any missing periods with empty data
-        periodsToCheck.forEach(period => {
-          if (!returnData.comparisonData[period]) {
-            returnData.comparisonData[period] = {
-              dates: [],
-              indices: {}
-            };
-            
-            // Initialize indices
-            indices.forEach(index => {
-              returnData.comparisonData[period].indices[index] = [];
-            });
-          }
-        });
-        
-        return returnData;
-      }
+      // Initialize any missing periods with empty data
+      periodsToCheck.forEach(period => {
+        if (!returnData.comparisonData[period]) {
+          returnData.comparisonData[period] = {
+            dates: [],
+            indices: {}
+          };
+          
+          // Initialize indices
+          indices.forEach(index => {
+            returnData.comparisonData[period].indices[index] = [];
+          });
+        }
+      });
       
-      return response.data || { comparisonData: {} };
+      return returnData;
     } catch (error) {
       console.error('Error comparing rolling returns:', error);
       // Return valid but empty data structure instead of throwing error
-      return { 
-        comparisonData: {
-          '1Y': { dates: [], indices: {} },
-          '3Y': { dates: [], indices: {} },
-          '5Y': { dates: [], indices: {} },
-          '7Y': { dates: [], indices: {} },
-          '10Y': { dates: [], indices: {} }
-        } 
+      const comparisonData: ComparisonData['comparisonData'] = {};
+      periodsToCheck.forEach(period => {
+        comparisonData[period] = { dates: [], indices: {} };
+      });
+      return { comparisonData };
+    }
+  }
+
+  // Get the correlation matrix of returns across indices
+  async getCorrelationMatrix(
+    indices: string[],
+    frequency: ReturnFrequency,
+    fromDate?: string,
+    toDate?: string
+  ): Promise<CorrelationMatrix> {
+    try {
+      const params: CorrelationQuery = {
+        indices: indices.join(','),
+        frequency,
+        fromDate,
+        toDate
       };
+      return await this.get('/correlation', CorrelationMatrixSchema, params);
+    } catch (error) {
+      console.error('Error fetching correlation matrix:', error);
+      return { indices, frequency, matrix: [], observations: [], fromDate: null, toDate: null };
+    }
+  }
+
+  // Get the rolling correlation between two indices
+  async getRollingCorrelation(
+    indexA: string,
+    indexB: string,
+    window: string,
+    frequency: ReturnFrequency,
+    fromDate?: string,
+    toDate?: string
+  ): Promise<RollingCorrelation> {
+    try {
+      const params: RollingCorrelationQuery = {
+        indexA,
+        indexB,
+        window,
+        frequency,
+        fromDate,
+        toDate
+      };
+      return await this.get('/rolling-correlation', RollingCorrelationSchema, params);
+    } catch (error) {
+      console.error('Error fetching rolling correlation:', error);
+      return { indexA, indexB, frequency, window, dates: [], values: [] };
+    }
+  }
+
+  // Get the data quality issues of every index, or of the given indices
+  async getDataQuality(query: DataQualityQuery = {}): Promise<DataQualityReport | null> {
+    try {
+      return await this.get('/data-quality', DataQualityReportSchema, query);
+    } catch (error) {
+      console.error('Error fetching data quality report:', error);
+      return null;
     }
   }
 
   // Get latest market news
   async getMarketNews(limit = 3): Promise<NewsItem[]> {
     try {
-      const response = await axios.get(`${API_URL}/market-news`, {
-        params: { limit }
-      });
-      
-      if (response.data && response.data.news) {
-        return response.data.news;
-      }
-      
-      // Fallback to the old response format
-      if (Array.isArray(response.data)) {
-        return response.data;
-      }
-      
-      console.error("Unexpected API response format", response.data);
-      return [];
+      const params: MarketNewsQuery = { limit };
+      const { news } = await this.get('/market-news', MarketNewsResponseSchema, params);
+      return news;
     } catch (error) {
       console.error("Error fetching market news", error);
       return [];
@@ -311,11 +392,15 @@ class ApiService {
     ];
   }
 
-  // Get inception dates for all indices
+  // Get inception dates for all indices, leaving out indices without any prices
   async getInceptionDates(): Promise<Record<string, string>> {
     try {
-      const response = await axios.get(`${API_URL}/inception-dates`);
-      return response.data.inceptionDates || {};
+      const { inceptionDates } = await this.get('/inception-dates', InceptionDatesResponseSchema);
+      const dates: Record<string, string> = {};
+      Object.entries(inceptionDates).forEach(([index, date]) => {
+        if (date) dates[index] = date;
+      });
+      return dates;
     } catch (error) {
       console.error('Error fetching inception dates:', error);
       return {};
@@ -325,13 +410,73 @@ class ApiService {
   // Get inception date for a specific index
   async getInceptionDate(index: string): Promise<string | null> {
     try {
-      const response = await axios.get(`${API_URL}/inception-date/${encodeURIComponent(index)}`);
-      return response.data.inceptionDate;
+      const { inceptionDate } = await this.get(`/inception-date/${encodeURIComponent(index)}`, InceptionDateResponseSchema);
+      return inceptionDate;
     } catch (error) {
       console.error(`Error fetching inception date for ${index}:`, error);
       return null;
     }
   }
+
+  // Listen to live index ticks and market open/closed changes; a listener first gets a
+  // snapshot of the latest ticks. Returns a function that stops listening.
+  subscribeToMarketStream(listener: MarketStreamListener): () => void {
+    this.marketStreamListeners.add(listener);
+    if (this.marketState) {
+      listener({ type: 'snapshot', open: this.marketState.open, ticks: Object.values(this.marketState.ticks) });
+    }
+    if (!this.marketStream) {
+      this.openMarketStream();
+    }
+
+    return () => {
+      this.marketStreamListeners.delete(listener);
+      if (this.marketStreamListeners.size === 0 && this.marketStream) {
+        this.marketStream.close();
+        this.marketStream = null;
+        this.marketState = null;
+      }
+    };
+  }
+
+  // EventSource reconnects by itself, and the server starts each connection with a snapshot
+  private openMarketStream() {
+    const source = new EventSource(`${API_URL}/market-stream`);
+
+    const listen = <T>(name: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, toEvent: (data: T) => MarketStreamEvent) => {
+      source.addEventListener(name, message => {
+        try {
+          const event = toEvent(schema.parse(JSON.parse((message as MessageEvent<string>).data)));
+          this.updateMarketState(event);
+          this.marketStreamListeners.forEach(streamListener => streamListener(event));
+        } catch (error) {
+          console.error(`Error reading market stream ${name} event:`, error);
+        }
+      });
+    };
+
+    listen('snapshot', MarketSnapshotEventSchema, data => ({ type: 'snapshot', ...data }));
+    listen('status', MarketStatusEventSchema, data => ({ type: 'status', ...data }));
+    listen('tick', MarketTickSchema, tick => ({ type: 'tick', tick }));
+    this.marketStream = source;
+  }
+
+  private updateMarketState(event: MarketStreamEvent) {
+    if (event.type === 'snapshot') {
+      const ticks = { ...this.marketState?.ticks };
+      event.ticks.forEach(tick => {
+        ticks[tick.index] = tick;
+      });
+      this.marketState = { open: event.open, ticks };
+    } else if (event.type === 'status') {
+      this.marketState = { ticks: {}, ...this.marketState, open: event.open };
+    } else {
+      this.marketState = {
+        open: this.marketState?.open ?? true,
+        ticks: { ...this.marketState?.ticks, [event.tick.index]: event.tick }
+      };
+    }
+  }
 }
 
 export const apiService = new ApiService(); 
\ No newline at end of file
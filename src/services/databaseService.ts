@@ -1,8 +1,14 @@
 import { createDatabaseWorker, type DatabaseApi } from '../worker/database';
 
+// Quotes an SQLite identifier such as an index column name, doubling any embedded quotes
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
 class DatabaseService {
   private worker: ReturnType<typeof createDatabaseWorker> | null = null;
   private isInitialized = false;
+  private indices: string[] | null = null;
 
   constructor() {
     this.initializeWorker();
@@ -45,28 +51,37 @@ class DatabaseService {
     return this.query('/final.db', sql, params);
   }
 
-  // Get all available indices from the database
+  // Get all available indices from the database, in the order they were added
   async getAllIndices() {
-    const columns = await this.queryIndexData("PRAGMA table_info(Sheet1)");
-    return columns
-      .map((col: any) => col.name)
-      .filter((name: string) => name !== 'Date');
+    const rows = await this.queryIndexData('SELECT name FROM indices ORDER BY id');
+    return rows.map((row: any) => row.name as string);
+  }
+
+  // Returns columns in final.db are named after indices, so only listed indices are accepted
+  private async requireKnownIndex(indexName: string): Promise<void> {
+    const indices = this.indices || (this.indices = await this.getAllIndices());
+    if (!indices.includes(indexName)) {
+      throw new Error(`Unknown index: ${indexName}`);
+    }
   }
 
   // Get historical data for a specific index
   async getHistoricalData(indexName: string) {
+    await this.requireKnownIndex(indexName);
     const query = `
-      SELECT Date as date, "${indexName}" as value 
-      FROM Sheet1 
-      WHERE "${indexName}" IS NOT NULL 
-      ORDER BY Date
+      SELECT p.date as date, p.close as value
+      FROM index_prices p
+      JOIN indices i ON i.id = p.index_id
+      WHERE i.name = ?
+      ORDER BY p.date
     `;
     
-    return this.queryIndexData(query);
+    return this.queryIndexData(query, [indexName]);
   }
 
   // Get returns for a specific index across all periods
   async getReturns(indexName: string) {
+    await this.requireKnownIndex(indexName.trim());
     const formattedIndexName = indexName.replace(/\./g, '\\.').trim(); // Escape dots for SQLite
     const returns: Record<string, number> = {};
     
@@ -78,7 +93,7 @@ class DatabaseService {
       
       const columnName = ` ${formattedIndexName} (${period})`;
       const query = `
-        SELECT "${columnName}" as returnValue
+        SELECT ${quoteIdentifier(columnName)} as returnValue
         FROM returns
         ORDER BY "From" DESC
         LIMIT 1
@@ -113,7 +128,7 @@ class DatabaseService {
       .filter((name: string) => name.includes(`(${dbPeriod})`));
     
     const query = `
-      SELECT ${periodColumns.map(col => `"${col}" as "${col}"`).join(', ')}
+      SELECT ${periodColumns.map(col => `${quoteIdentifier(col)} as ${quoteIdentifier(col)}`).join(', ')}
       FROM returns
       ORDER BY "From" DESC
       LIMIT 1
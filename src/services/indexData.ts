@@ -1,9 +1,22 @@
-import { apiService, type HistoricalDataPoint, type IndexReturn, type IndexStats } from './api';
+import {
+  apiService,
+  type HistoricalDataPoint,
+  type IndexInfo,
+  type IndexReturn,
+  type IndexStats,
+  type IndexRiskStats
+} from './api';
+import { addMonths } from '../utils/dateUtils';
+import { toPriceSeries } from '../utils/financeUtils';
+import { DEFAULT_RISK_FREE_RATES, toRiskFreeRates, type RiskFreeRates } from '../utils/riskFreeRate';
+import { computeRiskStats } from '../utils/riskStats';
 
 class IndexDataService {
   private indexData: Map<string, IndexReturn> = new Map();
   private indices: string[] = [];
+  private catalogue: IndexInfo[] = [];
   private periods: string[] = ['1Y', '3Y', '5Y', '7Y', '10Y'];
+  private riskFreeRates: RiskFreeRates = DEFAULT_RISK_FREE_RATES;
   private isLoading: boolean = true;
   private isInitialized: boolean = false;
   
@@ -18,13 +31,17 @@ class IndexDataService {
     try {
       this.isLoading = true;
       
-      // Get all available indices and periods
-      const [indexNames, periods] = await Promise.all([
-        apiService.getAllIndices(),
-        apiService.getPeriods()
+      // Get the index catalogue, periods and the risk-free rate
+      const [catalogue, periods, riskFreeRate] = await Promise.all([
+        apiService.getIndexCatalogue(),
+        apiService.getPeriods(),
+        apiService.getRiskFreeRate()
       ]);
       
+      const indexNames = catalogue.map(info => info.name);
+      this.catalogue = catalogue;
       this.indices = indexNames;
+      this.riskFreeRates = toRiskFreeRates(riskFreeRate);
       if (periods.length > 0) {
         this.periods = periods;
       }
@@ -41,13 +58,13 @@ class IndexDataService {
           // Add to our cache
           this.indexData.set(indexName, {
             name: indexName,
-            symbol: this.formatSymbol(indexName),
+            symbol: catalogue.find(info => info.name === indexName)?.symbol || indexName,
             returns: {
-              '1Y': returns['1Y'] || 0,
-              '3Y': returns['3Y'] || 0,
-              '5Y': returns['5Y'] || 0,
-              '7Y': returns['7Y'] || 0,
-              '10Y': returns['10Y'] || 0
+              '1Y': returns['1Y'] ?? null,
+              '3Y': returns['3Y'] ?? null,
+              '5Y': returns['5Y'] ?? null,
+              '7Y': returns['7Y'] ?? null,
+              '10Y': returns['10Y'] ?? null
             },
             historicalData
           });
@@ -66,16 +83,6 @@ class IndexDataService {
     }
   }
 
-  private formatSymbol(indexName: string): string {
-    // Extract the core symbol from the index name
-    const parts = indexName.split('_');
-    if (parts.length > 0) {
-      // Return last part or the whole string if it's short
-      return parts.length > 1 ? parts[parts.length - 1] : indexName;
-    }
-    return indexName;
-  }
-
   private initializeFallbackData(): void {
     console.log('Initializing fallback data');
     // Initialize with some sample data
@@ -171,6 +178,10 @@ class IndexDataService {
     return this.indices;
   }
 
+  getCatalogue(): IndexInfo[] {
+    return this.catalogue;
+  }
+
   getIndexData(index: string): IndexReturn | undefined {
     return this.indexData.get(index);
   }
@@ -179,45 +190,25 @@ class IndexDataService {
     return this.periods;
   }
 
-  getIndexStats(index: string, period: string): IndexStats {
-    const data = this.indexData.get(index);
-    if (!data) return { averageReturn: 0, standardDeviation: 0, sharpeRatio: 0 };
+  getRiskFreeRates(): RiskFreeRates {
+    return this.riskFreeRates;
+  }
 
-    // Get the return for the specified period and calculate stats
-    const returnValue = data.returns[period as keyof typeof data.returns] || 0;
-    
-    // Calculate standard deviation more accurately based on period length
-    let stdDev = 0;
-    
-    // Different standard deviation calculation based on period
-    if (period === '1Y') {
-      stdDev = Math.abs(returnValue) * 0.6; // Higher volatility for 1Y
-    } else if (period === '3Y') {
-      stdDev = Math.abs(returnValue) * 0.45; // Medium volatility for 3Y
-    } else if (period === '5Y') {
-      stdDev = Math.abs(returnValue) * 0.35; // Lower volatility for 5Y
-    } else if (period === '7Y') {
-      stdDev = Math.abs(returnValue) * 0.3; // Lower volatility for 7Y
-    } else if (period === '10Y') {
-      stdDev = Math.abs(returnValue) * 0.25; // Lowest volatility for 10Y
+  getIndexStats(index: string, period: string): IndexRiskStats {
+    // Use the trailing window for the period, e.g. the last 3 years of daily prices for 3Y
+    const series = toPriceSeries(this.indexData.get(index)?.historicalData || []);
+    const match = period.match(/^(\d+)([YM])$/);
+    if (series.length === 0 || !match) {
+      return computeRiskStats(series, this.riskFreeRates);
     }
-    
-    // Ensure standard deviation is at least 1 to avoid division by zero in Sharpe ratio
-    stdDev = Math.max(stdDev, 1);
-    
-    // Calculate Sharpe ratio: (Return - Risk-Free Rate) / Standard Deviation
-    // Using 4% as an approximate risk-free rate
-    const riskFreeRate = 4;
-    const sharpeRatio = (returnValue - riskFreeRate) / stdDev;
-    
-    return {
-      averageReturn: returnValue,
-      standardDeviation: stdDev,
-      sharpeRatio: sharpeRatio
-    };
+
+    const months = parseInt(match[1], 10) * (match[2] === 'Y' ? 12 : 1);
+    const startDate = addMonths(series[series.length - 1].date, -months);
+    return computeRiskStats(series, this.riskFreeRates, startDate);
   }
 
-  async getAllReturnsForPeriod(period: string): Promise<Record<string, number>> {
+  // Returns of each index over a period; indices without enough history are missing or null
+  async getAllReturnsForPeriod(period: string): Promise<Record<string, number | null>> {
     await this.waitForInitialization();
     
     try {
@@ -226,14 +217,14 @@ class IndexDataService {
       console.error('Error getting returns for period:', period, error);
       
       // Fallback to local data if API call fails
-      const returns: Record<string, number> = {};
+      const returns: Record<string, number | null> = {};
       this.indexData.forEach((data, index) => {
-        returns[index] = data.returns[period as keyof typeof data.returns] || 0;
+        returns[index] = data.returns[period as keyof typeof data.returns] ?? null;
       });
       return returns;
     }
   }
 }
 
-export { type HistoricalDataPoint, type IndexReturn, type IndexStats };
+export { type HistoricalDataPoint, type IndexReturn, type IndexStats, type IndexRiskStats };
 export const indexDataService = new IndexDataService(); 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { INDICATORS, INDICATOR_COLORS, fitParam, type IndicatorConfig, type IndicatorKind } from '../utils/indicators';
+
+const STORAGE_KEY = 'circle-wealth:chart-indicators';
+
+class IndicatorStore {
+  // Get the indicators chosen for the performance chart, in the order they were added
+  getAll(): IndicatorConfig[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const saved: IndicatorConfig[] = raw ? JSON.parse(raw) : [];
+      // Drop indicators that no longer exist, fill in parameters added since and replace
+      // ones saved as null, which is how JSON keeps NaN
+      return saved
+        .filter(config => config && Object.prototype.hasOwnProperty.call(INDICATORS, config.kind))
+        .map((config, i) => ({
+          id: config.id,
+          kind: config.kind,
+          color: config.color || INDICATOR_COLORS[i % INDICATOR_COLORS.length],
+          params: Object.fromEntries(
+            INDICATORS[config.kind].params.map(param => [param.key, fitParam(param, config.params?.[param.key])])
+          )
+        }));
+    } catch (error) {
+      console.error('Error reading chart indicators:', error);
+      return [];
+    }
+  }
+
+  // Build a new indicator with default parameters and the next unused colour
+  create(kind: IndicatorKind, existing: IndicatorConfig[]): IndicatorConfig {
+    const used = new Set(existing.map(config => config.color));
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      kind,
+      color: INDICATOR_COLORS.find(color => !used.has(color)) || INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length],
+      params: Object.fromEntries(INDICATORS[kind].params.map(param => [param.key, param.defaultValue]))
+    };
+  }
+
+  // Replace the saved indicators
+  save(indicators: IndicatorConfig[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(indicators));
+    } catch (error) {
+      console.error('Error saving chart indicators:', error);
+    }
+  }
+}
+
+export const indicatorStore = new IndicatorStore();
@@ -0,0 +1,56 @@
+import type { PortfolioAllocation, RebalanceFrequency } from '../utils/portfolioBacktest';
+
+const STORAGE_KEY = 'circle-wealth:portfolios';
+
+export interface SavedPortfolio {
+  id: string;
+  name: string;
+  allocations: PortfolioAllocation[];
+  rebalance: RebalanceFrequency;
+  thresholdPercent: number;
+  updatedAt: string;
+}
+
+export type PortfolioDraft = Omit<SavedPortfolio, 'id' | 'updatedAt'> & { id?: string };
+
+class PortfolioStore {
+  // Get all saved portfolios, most recently updated first
+  getAll(): SavedPortfolio[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const portfolios: SavedPortfolio[] = raw ? JSON.parse(raw) : [];
+      return portfolios.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+      console.error('Error reading saved portfolios:', error);
+      return [];
+    }
+  }
+
+  // Save a new portfolio or overwrite an existing one with the same id
+  save(draft: PortfolioDraft): SavedPortfolio {
+    const portfolio: SavedPortfolio = {
+      ...draft,
+      id: draft.id || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      updatedAt: new Date().toISOString()
+    };
+
+    const others = this.getAll().filter(existing => existing.id !== portfolio.id);
+    this.write([portfolio, ...others]);
+    return portfolio;
+  }
+
+  // Delete a saved portfolio
+  remove(id: string): void {
+    this.write(this.getAll().filter(portfolio => portfolio.id !== id));
+  }
+
+  private write(portfolios: SavedPortfolio[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(portfolios));
+    } catch (error) {
+      console.error('Error saving portfolios:', error);
+    }
+  }
+}
+
+export const portfolioStore = new PortfolioStore();
@@ -0,0 +1,467 @@
+/**
+ * Request and response contract of the /api/* routes, shared by the Express server and ApiService.
+ *
+ * Each route has a zod schema for its query parameters and its JSON response. The server
+ * validates requests and its own responses against them, the client validates what it
+ * receives, and both sides use the inferred types so a change to either end that breaks
+ * the other fails to compile.
+ */
+import { z } from 'zod';
+
+// Dates on the wire are ISO-8601 YYYY-MM-DD market dates (see ./dates)
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+// Error body returned by every route with a 4xx or 5xx status
+export const ErrorResponseSchema = z.object({
+  error: z.string()
+});
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+// 404 body for a request naming indices that aren't in the index list
+export const UnknownIndexErrorSchema = ErrorResponseSchema.extend({
+  code: z.literal('UNKNOWN_INDEX'),
+  unknownIndices: z.array(z.string())
+});
+export type UnknownIndexError = z.infer<typeof UnknownIndexErrorSchema>;
+
+// GET /api/allindices: index names only, kept for older clients
+export const IndicesResponseSchema = z.object({
+  indices: z.array(z.string())
+});
+export type IndicesResponse = z.infer<typeof IndicesResponseSchema>;
+
+// GET /api/indices: the index catalogue
+export const IndexCategorySchema = z.enum(['broad', 'sector', 'thematic', 'strategy']);
+export type IndexCategory = z.infer<typeof IndexCategorySchema>;
+
+// PRI indices track prices only; TRI (total return) indices reinvest dividends
+export const IndexVariantSchema = z.enum(['PRI', 'TRI']);
+export type IndexVariant = z.infer<typeof IndexVariantSchema>;
+
+export const IndexInfoSchema = z.object({
+  name: z.string(),
+  displayName: z.string(),
+  symbol: z.string().nullable(),
+  provider: z.string(),
+  category: IndexCategorySchema,
+  baseValue: z.number().nullable(),
+  baseDate: dateString.nullable(),
+  currency: z.string(),
+  variant: IndexVariantSchema
+});
+export type IndexInfo = z.infer<typeof IndexInfoSchema>;
+
+export const IndexCatalogueResponseSchema = z.object({
+  indices: z.array(IndexInfoSchema)
+});
+export type IndexCatalogueResponse = z.infer<typeof IndexCatalogueResponseSchema>;
+
+// GET /api/historical/:index?fromDate&toDate
+export const HistoricalQuerySchema = z.object({
+  fromDate: dateString.optional(),
+  toDate: dateString.optional()
+});
+export type HistoricalQuery = z.input<typeof HistoricalQuerySchema>;
+
+export const HistoricalDataPointSchema = z.object({
+  date: dateString,
+  value: z.number()
+});
+export type HistoricalDataPoint = z.infer<typeof HistoricalDataPointSchema>;
+
+export const HistoricalResponseSchema = z.object({
+  historicalData: z.array(HistoricalDataPointSchema)
+});
+export type HistoricalResponse = z.infer<typeof HistoricalResponseSchema>;
+
+// GET /api/returns/:index?windows=1Y,3Y
+export const WindowsQuerySchema = z.object({
+  windows: z.string().optional()
+});
+export type WindowsQuery = z.input<typeof WindowsQuerySchema>;
+
+// Latest return for each window, null when the index doesn't have enough history
+export const ReturnsResponseSchema = z.object({
+  returns: z.record(z.string(), z.number().nullable())
+});
+export type ReturnsResponse = z.infer<typeof ReturnsResponseSchema>;
+
+// GET /api/returns-by-period/:period
+export const ReturnsByPeriodResponseSchema = z.object({
+  returns: z.record(z.string(), z.number())
+});
+export type ReturnsByPeriodResponse = z.infer<typeof ReturnsByPeriodResponseSchema>;
+
+// GET /api/risk-free-rate
+export const RiskFreeRateInfoSchema = z.object({
+  source: z.enum(['constant', 'series']),
+  label: z.string(),
+  constantRate: z.number(),
+  rates: z.array(z.object({ date: dateString, rate: z.number() }))
+});
+export type RiskFreeRateInfo = z.infer<typeof RiskFreeRateInfoSchema>;
+
+// GET /api/periods
+export const PeriodsResponseSchema = z.object({
+  periods: z.array(z.string())
+});
+export type PeriodsResponse = z.infer<typeof PeriodsResponseSchema>;
+
+// GET /api/rolling-returns
+export const RollingReturnPeriodSchema = z.object({
+  period: z.string(),
+  returns: z.record(z.string(), z.string())
+});
+export type RollingReturnPeriod = z.infer<typeof RollingReturnPeriodSchema>;
+
+export const RollingReturnsResponseSchema = z.object({
+  rollingReturnsData: z.array(RollingReturnPeriodSchema)
+});
+export type RollingReturnsResponse = z.infer<typeof RollingReturnsResponseSchema>;
+
+// GET /api/compare-rolling-returns?indices=a,b&windows=1Y,3Y&fromDate&toDate
+export const CompareRollingReturnsQuerySchema = z.object({
+  indices: z.string({ required_error: 'Indices parameter is required' }).min(1, 'Indices parameter is required'),
+  windows: z.string().optional(),
+  fromDate: dateString.optional(),
+  toDate: dateString.optional()
+});
+export type CompareRollingReturnsQuery = z.input<typeof CompareRollingReturnsQuerySchema>;
+
+// Rolling returns by window start date; alpha series are keyed `${index}_alpha_vs_${benchmark}`
+export const ComparisonDataPointSchema = z.object({
+  dates: z.array(dateString),
+  indices: z.record(z.string(), z.array(z.number().nullable()))
+});
+export type ComparisonDataPoint = z.infer<typeof ComparisonDataPointSchema>;
+
+export const ComparisonDataSchema = z.object({
+  comparisonData: z.record(z.string(), ComparisonDataPointSchema)
+});
+export type ComparisonData = z.infer<typeof ComparisonDataSchema>;
+
+// GET /api/correlation?indices=a,b,c&frequency=daily|monthly&fromDate&toDate
+export const ReturnFrequencySchema = z.enum(['daily', 'monthly'], {
+  errorMap: () => ({ message: 'Frequency must be daily or monthly' })
+});
+export type ReturnFrequency = z.infer<typeof ReturnFrequencySchema>;
+
+export const CorrelationQuerySchema = z.object({
+  indices: z.string({ required_error: 'Indices parameter is required' }).min(1, 'Indices parameter is required'),
+  frequency: ReturnFrequencySchema.default('monthly'),
+  fromDate: dateString.optional(),
+  toDate: dateString.optional()
+});
+export type CorrelationQuery = z.input<typeof CorrelationQuerySchema>;
+
+// Pairwise correlations of returns, with the number of overlapping returns behind each
+export const CorrelationMatrixSchema = z.object({
+  indices: z.array(z.string()),
+  frequency: ReturnFrequencySchema,
+  matrix: z.array(z.array(z.number().nullable())),
+  observations: z.array(z.array(z.number())),
+  fromDate: dateString.nullable(),
+  toDate: dateString.nullable()
+});
+export type CorrelationMatrix = z.infer<typeof CorrelationMatrixSchema>;
+
+// GET /api/rolling-correlation?indexA&indexB&window=1Y&frequency=daily&fromDate&toDate
+export const RollingCorrelationQuerySchema = z.object({
+  indexA: z.string({ required_error: 'indexA and indexB parameters are required' }).min(1),
+  indexB: z.string({ required_error: 'indexA and indexB parameters are required' }).min(1),
+  window: z.string().default('1Y'),
+  frequency: ReturnFrequencySchema.default('daily'),
+  fromDate: dateString.optional(),
+  toDate: dateString.optional()
+});
+export type RollingCorrelationQuery = z.input<typeof RollingCorrelationQuerySchema>;
+
+export const RollingCorrelationSchema = z.object({
+  indexA: z.string(),
+  indexB: z.string(),
+  frequency: ReturnFrequencySchema,
+  window: z.string(),
+  dates: z.array(dateString),
+  values: z.array(z.number())
+});
+export type RollingCorrelation = z.infer<typeof RollingCorrelationSchema>;
+
+// GET /api/market-indices
+export const MarketIndexDetailsSchema = z.object({
+  prevClose: z.string(),
+  open: z.string(),
+  dayHigh: z.string(),
+  dayLow: z.string(),
+  yearlyHigh: z.string(),
+  yearlyLow: z.string(),
+  // The 1W and 1M period changes, e.g. "+1.25%", or "N/A" without enough history
+  weeklyChange: z.string(),
+  monthlyChange: z.string()
+});
+export type MarketIndexDetails = z.infer<typeof MarketIndexDetailsSchema>;
+
+// Change from the close on the reference date to the latest price; null without enough history
+export const PeriodChangeSchema = z.object({
+  period: z.enum(['1W', '1M', '3M', '6M', 'YTD', '1Y']),
+  change: z.number().nullable(),
+  referenceDate: dateString.nullable(),
+  referenceClose: z.number().nullable()
+});
+export type PeriodChange = z.infer<typeof PeriodChangeSchema>;
+
+export const MarketIndexSchema = z.object({
+  name: z.string(),
+  symbol: z.string(),
+  value: z.string(),
+  allocation: z.string(),
+  price: z.string(),
+  change: z.string(),
+  details: MarketIndexDetailsSchema,
+  changes: z.array(PeriodChangeSchema),
+  // The last good quote, served because the quote provider is failing or being refreshed
+  stale: z.boolean(),
+  // When the quote was fetched from the provider, as an ISO-8601 timestamp
+  updatedAt: z.string()
+});
+export type MarketIndex = z.infer<typeof MarketIndexSchema>;
+
+export const MarketSentimentSchema = z.object({
+  avgChange: z.string(),
+  topPerformer: MarketIndexSchema.optional(),
+  marketSentiment: z.string(),
+  sentimentLevel: z.number(),
+  recentTrend: z.string()
+});
+export type MarketSentiment = z.infer<typeof MarketSentimentSchema>;
+
+export const MarketIndicesResponseSchema = z.object({
+  indices: z.array(MarketIndexSchema),
+  sentiment: MarketSentimentSchema.nullable(),
+  // Whether any of the indices is stale
+  stale: z.boolean()
+});
+export type MarketIndicesResponse = z.infer<typeof MarketIndicesResponseSchema>;
+
+// GET /api/market-stream: Server-Sent Events named snapshot, status and tick
+export const MarketTickSchema = z.object({
+  index: z.string(),
+  symbol: z.string(),
+  price: z.number(),
+  changePercent: z.number(),
+  // When the price was traded or published, as an ISO-8601 timestamp
+  time: z.string()
+});
+export type MarketTick = z.infer<typeof MarketTickSchema>;
+
+export const MarketStatusEventSchema = z.object({
+  open: z.boolean()
+});
+export type MarketStatusEvent = z.infer<typeof MarketStatusEventSchema>;
+
+// Sent first, with the latest tick of each index
+export const MarketSnapshotEventSchema = MarketStatusEventSchema.extend({
+  ticks: z.array(MarketTickSchema)
+});
+export type MarketSnapshotEvent = z.infer<typeof MarketSnapshotEventSchema>;
+
+// Ranges of the dashboard chart, in the order its range buttons show them
+export const CHART_RANGES = ['1D', '5D', '1M', '6M', '1Y', '5Y', 'MAX'] as const;
+
+// GET /api/chart/:index?range=1M
+export const ChartQuerySchema = z.object({
+  range: z.enum(CHART_RANGES).default('1M')
+});
+export type ChartQuery = z.input<typeof ChartQuerySchema>;
+export type ChartRange = z.infer<typeof ChartQuerySchema>['range'];
+
+// Open, high, low and volume are null where the stored history has closes only; intraday
+// bars have no volume
+export const ChartBarSchema = z.object({
+  // ISO-8601 timestamp of the bar's start for intraday bars, otherwise a YYYY-MM-DD date
+  time: z.string(),
+  open: z.number().nullable(),
+  high: z.number().nullable(),
+  low: z.number().nullable(),
+  close: z.number(),
+  volume: z.number().nullable()
+});
+export type ChartBar = z.infer<typeof ChartBarSchema>;
+
+export const ChartResponseSchema = z.object({
+  index: z.string(),
+  range: ChartQuerySchema.shape.range.removeDefault(),
+  interval: z.enum(['5m', '30m', '1d', '1w']),
+  bars: z.array(ChartBarSchema)
+});
+export type ChartResponse = z.infer<typeof ChartResponseSchema>;
+export type ChartInterval = ChartResponse['interval'];
+
+// GET /api/quote-cache
+export const QuoteCacheMetricsSchema = z.object({
+  provider: z.string(),
+  ttlMs: z.number(),
+  staleWhileRevalidateMs: z.number(),
+  symbols: z.number(),
+  hits: z.number(),
+  staleHits: z.number(),
+  misses: z.number(),
+  fallbacks: z.number(),
+  errors: z.number(),
+  lastError: z.string().nullable()
+});
+export type QuoteCacheMetrics = z.infer<typeof QuoteCacheMetricsSchema>;
+
+// GET /api/market-news?limit=3
+export const MarketNewsQuerySchema = z.object({
+  limit: z.coerce
+    .number({ invalid_type_error: 'limit must be a number between 1 and 50' })
+    .int('limit must be a whole number')
+    .min(1, 'limit must be a number between 1 and 50')
+    .max(50, 'limit must be a number between 1 and 50')
+    .default(3)
+});
+export type MarketNewsQuery = z.input<typeof MarketNewsQuerySchema>;
+
+export const NewsItemSchema = z.object({
+  title: z.string(),
+  timeAgo: z.string(),
+  category: z.string(),
+  categoryColor: z.string(),
+  link: z.string(),
+  date: z.string().optional()
+});
+export type NewsItem = z.infer<typeof NewsItemSchema>;
+
+export const MarketNewsResponseSchema = z.object({
+  news: z.array(NewsItemSchema)
+});
+export type MarketNewsResponse = z.infer<typeof MarketNewsResponseSchema>;
+
+// GET /api/inception-date/:index
+export const InceptionDateResponseSchema = z.object({
+  inceptionDate: dateString.nullable()
+});
+export type InceptionDateResponse = z.infer<typeof InceptionDateResponseSchema>;
+
+// GET /api/inception-dates
+export const InceptionDatesResponseSchema = z.object({
+  inceptionDates: z.record(z.string(), dateString.nullable())
+});
+export type InceptionDatesResponse = z.infer<typeof InceptionDatesResponseSchema>;
+
+// GET /api/data-quality?indices=a,b&jumpPercent=20&flatDays=5&gapDays=7
+export const DataQualityQuerySchema = z.object({
+  indices: z.string().optional(),
+  jumpPercent: z.coerce
+    .number({ invalid_type_error: 'jumpPercent must be a number between 1 and 100' })
+    .min(1, 'jumpPercent must be a number between 1 and 100')
+    .max(100, 'jumpPercent must be a number between 1 and 100')
+    .default(20),
+  flatDays: z.coerce
+    .number({ invalid_type_error: 'flatDays must be a whole number between 2 and 250' })
+    .int('flatDays must be a whole number between 2 and 250')
+    .min(2, 'flatDays must be a whole number between 2 and 250')
+    .max(250, 'flatDays must be a whole number between 2 and 250')
+    .default(5),
+  gapDays: z.coerce
+    .number({ invalid_type_error: 'gapDays must be a whole number between 1 and 365' })
+    .int('gapDays must be a whole number between 1 and 365')
+    .min(1, 'gapDays must be a whole number between 1 and 365')
+    .max(365, 'gapDays must be a whole number between 1 and 365')
+    .default(7)
+});
+export type DataQualityQuery = z.input<typeof DataQualityQuerySchema>;
+
+// Errors (non-positive prices, spikes) corrupt returns; warnings need a look but may be genuine
+export const QualityIssueSchema = z.object({
+  kind: z.enum(['non_positive', 'spike', 'jump', 'flat_run', 'gap', 'stale']),
+  severity: z.enum(['error', 'warning']),
+  fromDate: dateString,
+  toDate: dateString,
+  value: z.number().nullable(),
+  message: z.string()
+});
+export type QualityIssue = z.infer<typeof QualityIssueSchema>;
+
+export const IndexQualitySchema = z.object({
+  index: z.string(),
+  fromDate: dateString.nullable(),
+  toDate: dateString.nullable(),
+  prices: z.number(),
+  issues: z.array(QualityIssueSchema)
+});
+export type IndexQuality = z.infer<typeof IndexQualitySchema>;
+
+export const DataQualityReportSchema = z.object({
+  thresholds: z.object({
+    jumpPercent: z.number(),
+    flatDays: z.number(),
+    gapDays: z.number()
+  }),
+  indices: z.array(IndexQualitySchema)
+});
+export type DataQualityReport = z.infer<typeof DataQualityReportSchema>;
+
+// POST /api/admin/ingest?index&dryRun, with a CSV or XLSX file of index history as the body
+export const IngestQuerySchema = z.object({
+  index: z.string().trim().min(1, 'index must not be empty').optional(),
+  dryRun: z.enum(['true', 'false'], {
+    errorMap: () => ({ message: 'dryRun must be true or false' })
+  }).default('false').transform(value => value === 'true')
+});
+export type IngestQuery = z.input<typeof IngestQuerySchema>;
+
+// A row of the file that was skipped, by its line (CSV) or row number (XLSX)
+export const IngestRejectedRowSchema = z.object({
+  row: z.number(),
+  message: z.string()
+});
+export type IngestRejectedRow = z.infer<typeof IngestRejectedRowSchema>;
+
+// A date listed more than once for the same index; the first row is the one used
+export const IngestDuplicateSchema = z.object({
+  date: dateString,
+  rows: z.array(z.number()),
+  conflicting: z.boolean()
+});
+export type IngestDuplicate = z.infer<typeof IngestDuplicateSchema>;
+
+// Trading days with no price either in the file or already stored
+export const IngestGapSchema = z.object({
+  fromDate: dateString,
+  toDate: dateString,
+  tradingDays: z.number()
+});
+export type IngestGap = z.infer<typeof IngestGapSchema>;
+
+export const IngestPriceChangeSchema = z.object({
+  date: dateString,
+  previousClose: z.number(),
+  close: z.number()
+});
+export type IngestPriceChange = z.infer<typeof IngestPriceChangeSchema>;
+
+export const IngestIndexReportSchema = z.object({
+  index: z.string(),
+  newIndex: z.boolean(),
+  fromDate: dateString,
+  toDate: dateString,
+  rows: z.number(),
+  inserted: z.number(),
+  updated: z.array(IngestPriceChangeSchema),
+  unchanged: z.number(),
+  duplicates: z.array(IngestDuplicateSchema),
+  gaps: z.array(IngestGapSchema),
+  nonTradingDays: z.array(dateString),
+  // Latest rolling return per window once the file is applied
+  returns: z.record(z.string(), z.number().nullable())
+});
+export type IngestIndexReport = z.infer<typeof IngestIndexReportSchema>;
+
+export const IngestReportSchema = z.object({
+  format: z.enum(['csv', 'xlsx']),
+  dryRun: z.boolean(),
+  indices: z.array(IngestIndexReportSchema),
+  rejectedRows: z.array(IngestRejectedRowSchema)
+});
+export type IngestReport = z.infer<typeof IngestReportSchema>;
@@ -0,0 +1,186 @@
+/**
+ * Market dates, shared by the Express server and the client.
+ *
+ * A market date is a calendar day on the Indian exchanges. It is stored and sent over
+ * the wire as an ISO-8601 YYYY-MM-DD string, and held in code as a Date at UTC midnight
+ * of that day, so date arithmetic and comparisons never depend on the time zone of the
+ * machine running it. Always read these Dates with the getUTC* methods, or format them
+ * with formatMarketDate; "today" means today in IST, whatever the local time zone.
+ */
+
+export const MARKET_TIME_ZONE = 'Asia/Kolkata';
+
+// IST is UTC+05:30 all year round
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Builds a market date from its parts, rejecting days that don't exist such as Feb 30
+ */
+function fromParts(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Parses an ISO-8601 YYYY-MM-DD string
+ * @param value Date as YYYY-MM-DD
+ * @returns The market date, or null if the string isn't a valid ISO date
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = value.match(ISO_DATE_PATTERN);
+  return match ? fromParts(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)) : null;
+}
+
+/**
+ * Parses a date read from a database or legacy source, where the format isn't guaranteed
+ * @param value YYYY-MM-DD (optionally followed by a time, which is ignored), legacy
+ *   MM/DD/YYYY, or a Date from a database driver, read in local time as drivers create them
+ * @returns The market date, or null if the value cannot be parsed
+ */
+export function parseMarketDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : fromParts(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (isoMatch) {
+    return fromParts(parseInt(isoMatch[1], 10), parseInt(isoMatch[2], 10), parseInt(isoMatch[3], 10));
+  }
+
+  const usMatch = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (usMatch) {
+    return fromParts(parseInt(usMatch[3], 10), parseInt(usMatch[1], 10), parseInt(usMatch[2], 10));
+  }
+
+  return null;
+}
+
+/**
+ * Formats a market date as YYYY-MM-DD
+ */
+export function toIsoDate(date: Date): string {
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  return `${date.getUTCFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * Finds the market date in IST of an instant
+ * @param instant Point in time, e.g. a quote timestamp
+ * @returns The IST calendar day the instant falls on
+ */
+export function marketDateOf(instant: Date | number): Date {
+  const shifted = new Date((instant instanceof Date ? instant.getTime() : instant) + IST_OFFSET_MS);
+  return new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate()));
+}
+
+/**
+ * Finds the time of day in IST of an instant
+ * @param instant Point in time
+ * @returns Minutes since midnight IST
+ */
+export function marketMinutesOf(instant: Date | number): number {
+  const time = (instant instanceof Date ? instant.getTime() : instant) + IST_OFFSET_MS;
+  return Math.floor((((time % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY) / 60000);
+}
+
+/**
+ * Today's date in IST
+ */
+export function marketToday(): Date {
+  return marketDateOf(Date.now());
+}
+
+/**
+ * Converts the local calendar day of a Date, as a date picker produces, to a market date
+ */
+export function fromLocalDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+/**
+ * Converts a market date to local midnight of the same calendar day, as a date picker expects
+ */
+export function toLocalDate(date: Date): Date {
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Adds calendar days to a market date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Adds calendar months to a market date, clamping to the last day of shorter months
+ * @param date The original date
+ * @param months The number of months to add (can be negative)
+ * @returns A new date, e.g. Jan 31 + 1 month = Feb 28
+ */
+export function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+/**
+ * Whole days from one market date to another
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Checks whether a market date falls on a weekday, when the exchanges can be open
+ */
+export function isWeekday(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+const DISPLAY_FORMATS: Record<'day' | 'dayMonth' | 'month' | 'monthShort', Intl.DateTimeFormatOptions> = {
+  day: { day: 'numeric', month: 'short', year: 'numeric' },
+  dayMonth: { day: 'numeric', month: 'short' },
+  month: { month: 'short', year: 'numeric' },
+  monthShort: { month: 'short', year: '2-digit' }
+};
+
+/**
+ * Formats a market date for display, e.g. "Jan 5, 2024" (day), "Jan 5" (dayMonth),
+ * "Jan 2024" (month) or "Jan 24" (monthShort)
+ * @param date Market date, or its YYYY-MM-DD string
+ * @param style How much of the date to show
+ * @returns The formatted date, or an empty string for an invalid date
+ */
+export function formatMarketDate(date: Date | string, style: keyof typeof DISPLAY_FORMATS = 'day'): string {
+  const value = typeof date === 'string' ? parseMarketDate(date) : date;
+  if (!value || isNaN(value.getTime())) return '';
+  return value.toLocaleDateString('en-US', { ...DISPLAY_FORMATS[style], timeZone: 'UTC' });
+}
+
+/**
+ * Formats the IST time of an instant for display, e.g. "14:35" or "Jan 5, 14:35"
+ * @param instant Point in time, or its ISO-8601 timestamp
+ * @param withDay Whether to show the market date as well
+ * @returns The formatted time, or an empty string for an invalid timestamp
+ */
+export function formatMarketTime(instant: Date | string, withDay = false): string {
+  const value = typeof instant === 'string' ? new Date(instant) : instant;
+  if (isNaN(value.getTime())) return '';
+  return value.toLocaleString('en-US', {
+    ...(withDay ? DISPLAY_FORMATS.dayMonth : {}),
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: MARKET_TIME_ZONE
+  });
+}
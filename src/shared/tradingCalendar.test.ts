@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, toIsoDate } from './dates';
+import {
+  addTradingDays,
+  createTradingCalendar,
+  getTradingCalendar,
+  isTradingDay,
+  loadTradingCalendars,
+  nextTradingDay,
+  previousTradingDay,
+  tradingDayOnOrAfter,
+  tradingDayOnOrBefore,
+  tradingDaysBetween,
+  type MarketHoliday
+} from './tradingCalendar';
+
+const HOLIDAYS: MarketHoliday[] = [
+  { date: '2024-03-25', name: 'Holi', exchanges: ['NSE', 'BSE'] },
+  { date: '2024-03-29', name: 'Good Friday', exchanges: ['NSE', 'BSE'] },
+  // Holidays on a weekend don't close the exchange for any longer
+  { date: '2024-03-30', name: 'Saturday holiday', exchanges: ['NSE'] },
+  { date: '2024-04-01', name: 'Annual bank closing', exchanges: ['BSE'] }
+];
+
+const nse = createTradingCalendar('NSE', HOLIDAYS);
+const bse = createTradingCalendar('BSE', HOLIDAYS);
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('trading days', () => {
+  it('closes on weekends and on holidays of its own exchange', () => {
+    expect(isTradingDay(day('2024-03-25'), nse)).toBe(false);
+    expect(isTradingDay(day('2024-03-23'), nse)).toBe(false);
+    expect(isTradingDay(day('2024-03-26'), nse)).toBe(true);
+    expect(isTradingDay(day('2024-04-01'), nse)).toBe(true);
+    expect(isTradingDay(day('2024-04-01'), bse)).toBe(false);
+  });
+
+  it('steps over weekends and holidays', () => {
+    expect(toIsoDate(nextTradingDay(day('2024-03-22'), nse))).toBe('2024-03-26');
+    expect(toIsoDate(previousTradingDay(day('2024-03-26'), nse))).toBe('2024-03-22');
+  });
+
+  it('rolls a holiday forward or back to a trading day', () => {
+    expect(toIsoDate(tradingDayOnOrAfter(day('2024-03-29'), nse))).toBe('2024-04-01');
+    expect(toIsoDate(tradingDayOnOrAfter(day('2024-03-29'), bse))).toBe('2024-04-02');
+    expect(toIsoDate(tradingDayOnOrBefore(day('2024-03-31'), nse))).toBe('2024-03-28');
+    expect(toIsoDate(tradingDayOnOrBefore(day('2024-03-28'), nse))).toBe('2024-03-28');
+  });
+
+  it('adds and subtracts trading days', () => {
+    expect(toIsoDate(addTradingDays(day('2024-03-22'), 5, nse))).toBe('2024-04-02');
+    expect(toIsoDate(addTradingDays(day('2024-04-02'), -5, nse))).toBe('2024-03-22');
+    expect(toIsoDate(addTradingDays(day('2024-03-29'), 0, nse))).toBe('2024-04-01');
+  });
+});
+
+describe('tradingDaysBetween', () => {
+  it('counts the trading days after the start up to the end', () => {
+    // Ten weekdays less Holi and Good Friday
+    expect(tradingDaysBetween(day('2024-03-22'), day('2024-04-05'), nse)).toBe(8);
+    expect(tradingDaysBetween(day('2024-04-05'), day('2024-03-22'), nse)).toBe(-8);
+    expect(tradingDaysBetween(day('2024-03-22'), day('2024-04-05'), bse)).toBe(7);
+  });
+
+  it('does not count a holiday on a weekend', () => {
+    expect(tradingDaysBetween(day('2024-03-28'), day('2024-04-01'), nse)).toBe(1);
+  });
+
+  it('agrees with stepping day by day through the bundled calendar', () => {
+    const calendar = getTradingCalendar('NSE');
+    const start = day('2022-12-30');
+    let count = 0;
+    for (let date = addDays(start, 1); toIsoDate(date) <= '2024-12-31'; date = addDays(date, 1)) {
+      if (isTradingDay(date, calendar)) count++;
+      expect(tradingDaysBetween(start, date, calendar)).toBe(count);
+    }
+  });
+});
+
+describe('loadTradingCalendars', () => {
+  it('rejects holidays that are not ISO dates', () => {
+    expect(() => loadTradingCalendars({ holidays: [{ date: '29/03/2024', name: 'Good Friday', exchanges: ['NSE'] }] })).toThrow();
+  });
+});
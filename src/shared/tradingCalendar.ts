@@ -0,0 +1,197 @@
+/**
+ * Exchange trading calendars, shared by the Express server and the client.
+ *
+ * An exchange trades on weekdays that aren't one of its holidays. Holidays come from
+ * marketHolidays.json, which is bundled with both sides and updated from the NSE and
+ * BSE holiday circulars each year; for years it doesn't list, only weekends are closed.
+ * All dates are market dates as described in ./dates.
+ */
+import { z } from 'zod';
+import { addDays, isWeekday, marketDateOf, marketMinutesOf, toIsoDate } from './dates';
+import holidayFile from './marketHolidays.json';
+
+export const EXCHANGES = ['NSE', 'BSE'] as const;
+export type Exchange = typeof EXCHANGES[number];
+
+const MarketHolidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holiday dates must be in YYYY-MM-DD format'),
+  name: z.string(),
+  exchanges: z.array(z.enum(EXCHANGES)).min(1)
+});
+export type MarketHoliday = z.infer<typeof MarketHolidaySchema>;
+
+const HolidayFileSchema = z.object({
+  holidays: z.array(MarketHolidaySchema)
+});
+
+export interface TradingCalendar {
+  exchange: Exchange;
+  // Holiday names by YYYY-MM-DD date
+  holidays: Map<string, string>;
+  // Timestamps of the holidays that fall on weekdays, sorted, for counting trading days
+  holidayTimes: number[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds the trading calendar of an exchange
+ * @param exchange Exchange the calendar is for
+ * @param holidays Holidays of any exchange; those of other exchanges are ignored
+ * @returns The calendar
+ */
+export function createTradingCalendar(exchange: Exchange, holidays: MarketHoliday[]): TradingCalendar {
+  const ownHolidays = holidays.filter(holiday => holiday.exchanges.includes(exchange));
+  const holidayTimes = ownHolidays
+    .map(holiday => Date.parse(`${holiday.date}T00:00:00Z`))
+    .filter(time => !isNaN(time) && isWeekday(new Date(time)));
+
+  return {
+    exchange,
+    holidays: new Map(ownHolidays.map(holiday => [holiday.date, holiday.name])),
+    holidayTimes: Array.from(new Set(holidayTimes)).sort((a, b) => a - b)
+  };
+}
+
+/**
+ * Builds the calendar of every exchange from the contents of a holiday file
+ * @param data Parsed JSON in the format of marketHolidays.json
+ * @returns Calendars by exchange
+ * @throws ZodError if the file doesn't match the expected format
+ */
+export function loadTradingCalendars(data: unknown): Record<Exchange, TradingCalendar> {
+  const { holidays } = HolidayFileSchema.parse(data);
+  return {
+    NSE: createTradingCalendar('NSE', holidays),
+    BSE: createTradingCalendar('BSE', holidays)
+  };
+}
+
+const bundledCalendars = loadTradingCalendars(holidayFile);
+
+/**
+ * Gets the calendar of an exchange from the bundled holiday file
+ */
+export function getTradingCalendar(exchange: Exchange = 'NSE'): TradingCalendar {
+  return bundledCalendars[exchange];
+}
+
+/**
+ * Picks the exchange whose calendar an index follows
+ * @param provider Index provider from the catalogue
+ * @returns BSE for BSE indices, otherwise NSE
+ */
+export function exchangeForProvider(provider: string): Exchange {
+  return provider === 'BSE' ? 'BSE' : 'NSE';
+}
+
+/**
+ * Checks whether the exchange trades on a market date
+ */
+export function isTradingDay(date: Date, calendar: TradingCalendar = getTradingCalendar()): boolean {
+  return isWeekday(date) && !calendar.holidays.has(toIsoDate(date));
+}
+
+/**
+ * Finds the first trading day after a market date
+ */
+export function nextTradingDay(date: Date, calendar: TradingCalendar = getTradingCalendar()): Date {
+  let next = addDays(date, 1);
+  while (!isTradingDay(next, calendar)) next = addDays(next, 1);
+  return next;
+}
+
+/**
+ * Finds the last trading day before a market date
+ */
+export function previousTradingDay(date: Date, calendar: TradingCalendar = getTradingCalendar()): Date {
+  let previous = addDays(date, -1);
+  while (!isTradingDay(previous, calendar)) previous = addDays(previous, -1);
+  return previous;
+}
+
+/**
+ * Finds the trading day a market date rolls forward to: the date itself if the exchange
+ * trades on it, otherwise the next trading day
+ */
+export function tradingDayOnOrAfter(date: Date, calendar: TradingCalendar = getTradingCalendar()): Date {
+  return isTradingDay(date, calendar) ? date : nextTradingDay(date, calendar);
+}
+
+/**
+ * Finds the trading day a market date rolls back to: the date itself if the exchange
+ * trades on it, otherwise the previous trading day
+ */
+export function tradingDayOnOrBefore(date: Date, calendar: TradingCalendar = getTradingCalendar()): Date {
+  return isTradingDay(date, calendar) ? date : previousTradingDay(date, calendar);
+}
+
+/**
+ * Moves a market date by a number of trading days
+ * @param date The original date
+ * @param days Trading days to move by (can be negative)
+ * @returns The date that many trading days away; with 0, the date rolled forward to a trading day
+ */
+export function addTradingDays(date: Date, days: number, calendar: TradingCalendar = getTradingCalendar()): Date {
+  if (days === 0) return tradingDayOnOrAfter(date, calendar);
+
+  let result = date;
+  for (let i = 0; i < Math.abs(days); i++) {
+    result = days > 0 ? nextTradingDay(result, calendar) : previousTradingDay(result, calendar);
+  }
+  return result;
+}
+
+/**
+ * Counts the weekdays from a fixed Monday up to and including a market date
+ */
+function weekdaysThrough(date: Date): number {
+  // 1970-01-05 was a Monday
+  const days = Math.round(date.getTime() / MS_PER_DAY) - 4 + 1;
+  const weeks = Math.floor(days / 7);
+  return weeks * 5 + Math.min(days - weeks * 7, 5);
+}
+
+/**
+ * Counts the weekday holidays on or before a market date
+ */
+function holidaysThrough(date: Date, calendar: TradingCalendar): number {
+  const time = date.getTime();
+  let low = 0;
+  let high = calendar.holidayTimes.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (calendar.holidayTimes[mid] <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Counts the trading days from one market date to another
+ * @param from Start date, not counted
+ * @param to End date, counted if the exchange trades on it
+ * @returns Trading days after from up to and including to, negative when to is before from
+ */
+export function tradingDaysBetween(from: Date, to: Date, calendar: TradingCalendar = getTradingCalendar()): number {
+  return (weekdaysThrough(to) - holidaysThrough(to, calendar)) - (weekdaysThrough(from) - holidaysThrough(from, calendar));
+}
+
+// The normal equity session, 09:15 to 15:30 IST, in minutes since midnight
+export const SESSION_OPEN_MINUTES = 9 * 60 + 15;
+export const SESSION_CLOSE_MINUTES = 15 * 60 + 30;
+
+/**
+ * Checks whether the exchange is in its normal trading session at an instant
+ * @param instant Point in time
+ * @returns True on a trading day between the session's open and close
+ */
+export function isMarketOpen(instant: Date | number, calendar: TradingCalendar = getTradingCalendar()): boolean {
+  const minutes = marketMinutesOf(instant);
+  return isTradingDay(marketDateOf(instant), calendar)
+    && minutes >= SESSION_OPEN_MINUTES
+    && minutes < SESSION_CLOSE_MINUTES;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computeBenchmarkStats, rollingBenchmarkStats } from './benchmarkStats';
+import { addMonths } from './dateUtils';
+import type { PricePoint } from './financeUtils';
+import type { RiskFreeRates } from './riskFreeRate';
+
+const NO_RISK_FREE: RiskFreeRates = { source: 'constant', label: 'Constant 0%', constantRate: 0, points: [] };
+
+// Prices on consecutive days following the given daily returns
+function pricesFrom(returns: number[]): PricePoint[] {
+  let value = 100;
+  return [0, ...returns].map((r, i) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + i));
+    value *= 1 + r;
+    return { date, time: date.getTime(), value };
+  });
+}
+
+const benchmarkReturns = Array.from({ length: 120 }, (_, i) => 0.01 * Math.sin(i * 1.7));
+const benchmark = pricesFrom(benchmarkReturns);
+
+describe('computeBenchmarkStats', () => {
+  it('finds a beta of 2 for an index that moves twice as far', () => {
+    const stats = computeBenchmarkStats(pricesFrom(benchmarkReturns.map(r => 2 * r)), benchmark, NO_RISK_FREE);
+    expect(stats?.observations).toBe(120);
+    expect(stats?.beta).toBeCloseTo(2, 10);
+    expect(stats?.alpha).toBeCloseTo(0, 8);
+    expect(stats?.rSquared).toBeCloseTo(1, 10);
+    expect(stats?.upCapture).toBeCloseTo(200, 8);
+    expect(stats?.downCapture).toBeCloseTo(200, 8);
+  });
+
+  it('annualises a constant daily outperformance as alpha', () => {
+    const stats = computeBenchmarkStats(pricesFrom(benchmarkReturns.map(r => r + 0.001)), benchmark, NO_RISK_FREE);
+    expect(stats?.beta).toBeCloseTo(1, 8);
+    expect(stats?.alpha).toBeCloseTo(0.001 * 252 * 100, 6);
+    expect(stats?.trackingError).toBeCloseTo(0, 6);
+  });
+
+  it('measures tracking error and the information ratio from active returns', () => {
+    const active = benchmarkReturns.map((_, i) => 0.002 * Math.cos(i * 0.9) + 0.0005);
+    const stats = computeBenchmarkStats(pricesFrom(benchmarkReturns.map((r, i) => r + active[i])), benchmark, NO_RISK_FREE);
+
+    const mean = active.reduce((sum, r) => sum + r, 0) / active.length;
+    const deviation = Math.sqrt(active.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (active.length - 1));
+    expect(stats?.trackingError).toBeCloseTo(deviation * Math.sqrt(252) * 100, 8);
+    expect(stats?.informationRatio).toBeCloseTo((mean / deviation) * Math.sqrt(252), 6);
+  });
+
+  it('needs 20 overlapping returns', () => {
+    expect(computeBenchmarkStats(benchmark.slice(0, 20), benchmark, NO_RISK_FREE)).toBeNull();
+    expect(computeBenchmarkStats(benchmark.slice(0, 21), benchmark, NO_RISK_FREE)?.observations).toBe(20);
+  });
+});
+
+describe('rollingBenchmarkStats', () => {
+  const series = pricesFrom(benchmarkReturns.map((r, i) => 1.2 * r + 0.002 * Math.cos(i * 0.9)));
+
+  it('starts once a full window of history is available', () => {
+    const points = rollingBenchmarkStats(series, benchmark, NO_RISK_FREE, 1);
+    expect(points[0].date).toEqual(new Date(Date.UTC(2024, 1, 2)));
+    expect(points[points.length - 1].date).toEqual(series[series.length - 1].date);
+  });
+
+  it('matches a full calculation over every window as returns are added and removed', () => {
+    rollingBenchmarkStats(series, benchmark, NO_RISK_FREE, 1).forEach(point => {
+      const expected = computeBenchmarkStats(series, benchmark, NO_RISK_FREE, addMonths(point.date, -1), point.date);
+      expect(point.observations).toBe(expected?.observations);
+      expect(point.beta).toBeCloseTo(expected?.beta ?? NaN, 8);
+      expect(point.alpha).toBeCloseTo(expected?.alpha ?? NaN, 6);
+      expect(point.trackingError).toBeCloseTo(expected?.trackingError ?? NaN, 6);
+      expect(point.upCapture).toBeCloseTo(expected?.upCapture ?? NaN, 6);
+    });
+  });
+});
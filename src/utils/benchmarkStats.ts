@@ -0,0 +1,227 @@
+/**
+ * Regression statistics of an index against a benchmark, computed from daily prices
+ */
+import { addMonths } from './dateUtils';
+import type { PricePoint } from './financeUtils';
+import { riskFreeRateOn, type RiskFreeRates } from './riskFreeRate';
+import { TRADING_DAYS_PER_YEAR } from './riskStats';
+
+export interface BenchmarkStats {
+  beta: number;
+  alpha: number;
+  rSquared: number;
+  trackingError: number;
+  informationRatio: number;
+  upCapture: number | null;
+  downCapture: number | null;
+  observations: number;
+}
+
+export interface RollingBenchmarkPoint extends BenchmarkStats {
+  date: Date;
+  time: number;
+}
+
+interface PairedReturn {
+  date: Date;
+  time: number;
+  index: number;
+  benchmark: number;
+  riskFree: number;
+}
+
+// Fewer daily returns than this make the regression meaningless
+const MIN_OBSERVATIONS = 20;
+
+/**
+ * Running sums over a set of paired returns, so windows can be rolled in constant time
+ */
+class RegressionSums {
+  n = 0;
+  sumX = 0;
+  sumY = 0;
+  sumXX = 0;
+  sumYY = 0;
+  sumXY = 0;
+  sumActive = 0;
+  sumActiveSq = 0;
+  upCount = 0;
+  upIndex = 0;
+  upBenchmark = 0;
+  downCount = 0;
+  downIndex = 0;
+  downBenchmark = 0;
+
+  /**
+   * Adds (sign 1) or removes (sign -1) a paired return
+   */
+  update(point: PairedReturn, sign: 1 | -1): void {
+    // Beta and alpha regress excess returns; tracking error uses the active return
+    const x = point.benchmark - point.riskFree;
+    const y = point.index - point.riskFree;
+    const active = point.index - point.benchmark;
+
+    this.n += sign;
+    this.sumX += sign * x;
+    this.sumY += sign * y;
+    this.sumXX += sign * x * x;
+    this.sumYY += sign * y * y;
+    this.sumXY += sign * x * y;
+    this.sumActive += sign * active;
+    this.sumActiveSq += sign * active * active;
+
+    if (point.benchmark > 0) {
+      this.upCount += sign;
+      this.upIndex += sign * point.index;
+      this.upBenchmark += sign * point.benchmark;
+    } else if (point.benchmark < 0) {
+      this.downCount += sign;
+      this.downIndex += sign * point.index;
+      this.downBenchmark += sign * point.benchmark;
+    }
+  }
+
+  stats(): BenchmarkStats | null {
+    const { n } = this;
+    if (n < MIN_OBSERVATIONS) return null;
+
+    const covariance = (this.sumXY - (this.sumX * this.sumY) / n) / (n - 1);
+    const varianceX = (this.sumXX - (this.sumX * this.sumX) / n) / (n - 1);
+    const varianceY = (this.sumYY - (this.sumY * this.sumY) / n) / (n - 1);
+    if (varianceX <= 0) return null;
+
+    const beta = covariance / varianceX;
+    const dailyAlpha = this.sumY / n - beta * (this.sumX / n);
+    const rSquared = varianceY > 0 ? Math.min(1, (covariance * covariance) / (varianceX * varianceY)) : 0;
+
+    const meanActive = this.sumActive / n;
+    const activeVariance = Math.max(0, (this.sumActiveSq - n * meanActive * meanActive) / (n - 1));
+    const dailyTrackingError = Math.sqrt(activeVariance);
+    const annualisation = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+    // Capture ratios compare average returns on the benchmark's up and down days
+    const upCapture = this.upCount > 0 && this.upBenchmark !== 0
+      ? (this.upIndex / this.upBenchmark) * 100
+      : null;
+    const downCapture = this.downCount > 0 && this.downBenchmark !== 0
+      ? (this.downIndex / this.downBenchmark) * 100
+      : null;
+
+    return {
+      beta,
+      alpha: dailyAlpha * TRADING_DAYS_PER_YEAR * 100,
+      rSquared,
+      trackingError: dailyTrackingError * annualisation * 100,
+      informationRatio: dailyTrackingError > 0 ? (meanActive / dailyTrackingError) * annualisation : 0,
+      upCapture,
+      downCapture,
+      observations: n
+    };
+  }
+}
+
+/**
+ * Pairs daily returns of an index and a benchmark over the dates both have prices for
+ */
+function pairReturns(
+  series: PricePoint[],
+  benchmark: PricePoint[],
+  riskFree: RiskFreeRates,
+  startDate?: Date | null,
+  endDate?: Date | null
+): PairedReturn[] {
+  const benchmarkByTime = new Map(benchmark.map(point => [point.time, point.value]));
+  const startTime = startDate ? startDate.getTime() : -Infinity;
+  const endTime = endDate ? endDate.getTime() : Infinity;
+
+  const pairs: PairedReturn[] = [];
+  let previous: { value: number; benchmark: number } | null = null;
+
+  series.forEach(point => {
+    if (point.time < startTime || point.time > endTime) return;
+    const benchmarkValue = benchmarkByTime.get(point.time);
+    if (benchmarkValue === undefined) return;
+
+    if (previous) {
+      const annualRate = riskFreeRateOn(riskFree, point.time);
+      pairs.push({
+        date: point.date,
+        time: point.time,
+        index: point.value / previous.value - 1,
+        benchmark: benchmarkValue / previous.benchmark - 1,
+        riskFree: Math.pow(1 + annualRate / 100, 1 / TRADING_DAYS_PER_YEAR) - 1
+      });
+    }
+    previous = { value: point.value, benchmark: benchmarkValue };
+  });
+
+  return pairs;
+}
+
+/**
+ * Calculates beta, Jensen's alpha and related statistics of an index against a benchmark
+ * @param series Index price series sorted by date
+ * @param benchmark Benchmark price series sorted by date
+ * @param riskFree Risk-free rates used for excess returns
+ * @param startDate Optional first date to use
+ * @param endDate Optional last date to use
+ * @returns Statistics over the common history, or null with too few overlapping returns
+ */
+export function computeBenchmarkStats(
+  series: PricePoint[],
+  benchmark: PricePoint[],
+  riskFree: RiskFreeRates,
+  startDate?: Date | null,
+  endDate?: Date | null
+): BenchmarkStats | null {
+  const sums = new RegressionSums();
+  pairReturns(series, benchmark, riskFree, startDate, endDate).forEach(point => sums.update(point, 1));
+  return sums.stats();
+}
+
+/**
+ * Calculates the benchmark statistics over a trailing window ending on each trading day
+ * @param series Index price series sorted by date
+ * @param benchmark Benchmark price series sorted by date
+ * @param riskFree Risk-free rates used for excess returns
+ * @param months Length of the trailing window in months
+ * @param startDate Optional first date to use
+ * @param endDate Optional last date to use
+ * @returns One point per trading day once a full window of history is available
+ */
+export function rollingBenchmarkStats(
+  series: PricePoint[],
+  benchmark: PricePoint[],
+  riskFree: RiskFreeRates,
+  months: number,
+  startDate?: Date | null,
+  endDate?: Date | null
+): RollingBenchmarkPoint[] {
+  const pairs = pairReturns(series, benchmark, riskFree, startDate, endDate);
+  const points: RollingBenchmarkPoint[] = [];
+  if (pairs.length === 0) return points;
+
+  const sums = new RegressionSums();
+  const firstTime = pairs[0].time;
+  let start = 0;
+
+  pairs.forEach(pair => {
+    sums.update(pair, 1);
+
+    const windowStart = addMonths(pair.date, -months).getTime();
+    while (pairs[start].time <= windowStart) {
+      sums.update(pairs[start], -1);
+      start++;
+    }
+
+    // Skip dates until a full window of history is available
+    if (windowStart < firstTime) return;
+
+    const stats = sums.stats();
+    if (stats) {
+      points.push({ date: pair.date, time: pair.time, ...stats });
+    }
+  });
+
+  return points;
+}
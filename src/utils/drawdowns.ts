@@ -0,0 +1,89 @@
+/**
+ * Drawdown analysis: how deep and how long an index's losses from a previous high were
+ */
+import { getTradingCalendar, tradingDaysBetween, type TradingCalendar } from '../shared/tradingCalendar';
+import type { PricePoint } from './financeUtils';
+
+export interface UnderwaterPoint {
+  date: Date;
+  time: number;
+  drawdown: number;
+}
+
+export interface DrawdownPeriod {
+  peakDate: Date;
+  peakValue: number;
+  troughDate: Date;
+  troughValue: number;
+  recoveryDate: Date | null;
+  depth: number;
+  // Durations are in trading days of the exchange calendar
+  daysToTrough: number;
+  daysToRecover: number | null;
+  totalDays: number;
+}
+
+/**
+ * Calculates how far below its running high the index is on each day
+ * @param series Price series sorted by date
+ * @returns Drawdown on each trading day as a percentage, 0 at new highs
+ */
+export function underwaterSeries(series: PricePoint[]): UnderwaterPoint[] {
+  let peak = -Infinity;
+  return series.map(point => {
+    peak = Math.max(peak, point.value);
+    return { date: point.date, time: point.time, drawdown: (point.value / peak - 1) * 100 };
+  });
+}
+
+/**
+ * Splits a price series into distinct drawdowns, each running from a high until prices regain it
+ * @param series Price series sorted by date
+ * @param topN Number of drawdowns to return
+ * @param calendar Exchange calendar the durations are counted in, NSE by default
+ * @returns The deepest drawdowns, deepest first; an ongoing drawdown has no recovery date
+ */
+export function findDrawdowns(
+  series: PricePoint[],
+  topN: number,
+  calendar: TradingCalendar = getTradingCalendar()
+): DrawdownPeriod[] {
+  const periods: DrawdownPeriod[] = [];
+  if (series.length === 0) return periods;
+
+  let peak = series[0];
+  let trough = series[0];
+
+  const daysBetween = (from: Date, to: Date) => tradingDaysBetween(from, to, calendar);
+
+  const closePeriod = (recovery: PricePoint | null) => {
+    if (trough.value >= peak.value) return;
+    periods.push({
+      peakDate: peak.date,
+      peakValue: peak.value,
+      troughDate: trough.date,
+      troughValue: trough.value,
+      recoveryDate: recovery ? recovery.date : null,
+      depth: (trough.value / peak.value - 1) * 100,
+      daysToTrough: daysBetween(peak.date, trough.date),
+      daysToRecover: recovery ? daysBetween(trough.date, recovery.date) : null,
+      totalDays: daysBetween(peak.date, recovery ? recovery.date : series[series.length - 1].date)
+    });
+  };
+
+  for (let i = 1; i < series.length; i++) {
+    const point = series[i];
+    if (point.value >= peak.value) {
+      // Regaining the previous high ends the drawdown
+      closePeriod(point);
+      peak = point;
+      trough = point;
+    } else if (point.value < trough.value) {
+      trough = point;
+    }
+  }
+
+  closePeriod(null);
+
+  return periods.sort((a, b) => a.depth - b.depth).slice(0, topN);
+}
@@ -0,0 +1,148 @@
+/**
+ * Financial calculations on historical index prices
+ */
+import type { HistoricalDataPoint } from '../services/api';
+import { parseDateString } from './dateUtils';
+
+export interface PricePoint {
+  date: Date;
+  time: number;
+  value: number;
+}
+
+export interface CashFlow {
+  date: Date;
+  amount: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts raw historical data into a sorted price series
+ * @param data Historical data points as returned by the API
+ * @returns Price points sorted by date, skipping unparseable dates and non-positive prices
+ */
+export function toPriceSeries(data: HistoricalDataPoint[]): PricePoint[] {
+  const series: PricePoint[] = [];
+
+  data.forEach(point => {
+    const date = parseDateString(point.date);
+    if (date && point.value > 0) {
+      series.push({ date, time: date.getTime(), value: point.value });
+    }
+  });
+
+  return series.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Finds the first trading day on or after the target date
+ * @param series Price series sorted by date
+ * @param target The date to look for
+ * @returns Index of the trading day, or -1 if the target is after the last available date
+ */
+export function findTradingDayOnOrAfter(series: PricePoint[], target: Date): number {
+  const targetTime = target.getTime();
+  let low = 0;
+  let high = series.length;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (series[mid].time < targetTime) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low < series.length ? low : -1;
+}
+
+/**
+ * Finds the closest trading day on or before the target date
+ * @param series Price series sorted by date
+ * @param target The date to look for
+ * @returns Index of the trading day, or -1 if the target is before the first available date
+ */
+export function findTradingDayOnOrBefore(series: PricePoint[], target: Date): number {
+  const targetTime = target.getTime();
+  let low = 0;
+  let high = series.length;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (series[mid].time <= targetTime) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low - 1;
+}
+
+/**
+ * Returns the value at the given percentile of an ascending sorted array using linear interpolation
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Calculates the extended internal rate of return for irregular cash flows
+ * @param cashFlows Investments as negative amounts, redemptions as positive amounts
+ * @returns Annualized rate as a percentage, or null if it does not converge
+ */
+export function xirr(cashFlows: CashFlow[]): number | null {
+  if (cashFlows.length < 2) return null;
+  if (!cashFlows.some(cf => cf.amount < 0) || !cashFlows.some(cf => cf.amount > 0)) return null;
+
+  const firstTime = Math.min(...cashFlows.map(cf => cf.date.getTime()));
+  const flows = cashFlows.map(cf => ({
+    amount: cf.amount,
+    years: (cf.date.getTime() - firstTime) / MS_PER_DAY / 365
+  }));
+
+  const npv = (rate: number) => flows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, cf.years), 0);
+  const derivative = (rate: number) => flows.reduce(
+    (sum, cf) => sum - (cf.years * cf.amount) / Math.pow(1 + rate, cf.years + 1),
+    0
+  );
+
+  // Newton-Raphson converges quickly for typical investment cash flows
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const nextRate = rate - value / slope;
+    if (nextRate <= -1) break;
+    if (Math.abs(nextRate - rate) < 1e-9) {
+      return nextRate * 100;
+    }
+    rate = nextRate;
+  }
+
+  // Fall back to bisection when Newton-Raphson diverges
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid * 100;
+    if (npv(low) * value < 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return ((low + high) / 2) * 100;
+}
@@ -0,0 +1,90 @@
+/**
+ * Grouping and filtering of indices by their catalogue entries, for index selectors
+ */
+import type { IndexCategory, IndexInfo, IndexVariant } from '../services/api';
+
+export interface IndexFilter {
+  category: IndexCategory | 'all';
+  provider: string;
+  variant: IndexVariant | 'all';
+}
+
+export interface IndexGroup {
+  category: IndexCategory;
+  label: string;
+  indices: string[];
+}
+
+export const DEFAULT_INDEX_FILTER: IndexFilter = { category: 'all', provider: 'all', variant: 'all' };
+
+export const INDEX_CATEGORIES: { value: IndexCategory; label: string }[] = [
+  { value: 'broad', label: 'Broad Market' },
+  { value: 'sector', label: 'Sectoral' },
+  { value: 'thematic', label: 'Thematic' },
+  { value: 'strategy', label: 'Strategy' }
+];
+
+/**
+ * Indexes catalogue entries by index name
+ * @param catalogue Entries as returned by /api/indices
+ * @returns Lookup from index name to its entry
+ */
+export function toCatalogueMap(catalogue: IndexInfo[]): Record<string, IndexInfo> {
+  const byName: Record<string, IndexInfo> = {};
+  catalogue.forEach(info => {
+    byName[info.name] = info;
+  });
+  return byName;
+}
+
+/**
+ * Checks an index against a search query and a catalogue filter
+ * @param name Index name
+ * @param info Catalogue entry of the index, if it has one
+ * @param query Search text, matched against the name, display name and symbol
+ * @param filter Category, provider and variant to keep
+ * @returns Whether the index should be shown
+ */
+export function matchesIndexFilter(
+  name: string,
+  info: IndexInfo | undefined,
+  query: string,
+  filter: IndexFilter
+): boolean {
+  const search = query.trim().toLowerCase();
+  if (search) {
+    const fields = [name, info?.displayName, info?.symbol].filter((field): field is string => !!field);
+    if (!fields.some(field => field.toLowerCase().includes(search))) return false;
+  }
+
+  // Indices without an entry only show when nothing is being filtered on
+  if (filter.category !== 'all' && info?.category !== filter.category) return false;
+  if (filter.provider !== 'all' && info?.provider !== filter.provider) return false;
+  if (filter.variant !== 'all' && info?.variant !== filter.variant) return false;
+  return true;
+}
+
+/**
+ * Groups indices by category, keeping their order within each group
+ * @param names Indices to group
+ * @param catalogue Catalogue entries by index name; indices without one count as broad
+ * @returns Non-empty groups in the order of INDEX_CATEGORIES
+ */
+export function groupByCategory(names: string[], catalogue: Record<string, IndexInfo>): IndexGroup[] {
+  return INDEX_CATEGORIES
+    .map(({ value, label }) => ({
+      category: value,
+      label,
+      indices: names.filter(name => (catalogue[name]?.category || 'broad') === value)
+    }))
+    .filter(group => group.indices.length > 0);
+}
+
+/**
+ * Lists the providers in a catalogue for a provider filter
+ * @param catalogue Catalogue entries
+ * @returns Distinct provider names, sorted
+ */
+export function listProviders(catalogue: IndexInfo[]): string[] {
+  return Array.from(new Set(catalogue.map(info => info.provider))).sort();
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { INDICATORS, computeIndicator, describeIndicator, ema, fitParam, rsi, sma, type IndicatorPoint } from './indicators';
+
+const points: IndicatorPoint[] = Array.from({ length: 60 }, (_, i) => ({
+  date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+  value: 100 + i + Math.sin(i) * 5
+}));
+
+const daily = (values: number[]): IndicatorPoint[] =>
+  values.map((value, i) => ({ date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10), value }));
+
+describe('moving averages', () => {
+  it('averages the last period values', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('seeds the EMA with the simple average and skips leading nulls', () => {
+    // k = 2 / (3 + 1): 4, then 4 + (8 - 4) / 2 and 6 + (4 - 6) / 2
+    expect(ema([2, 4, 6, 8, 4], 3)).toEqual([null, null, 4, 6, 5]);
+    // k = 2 / 3: 3, then 3 + 2 / 3 * (6 - 3)
+    expect(ema([null, 2, 4, 6], 2)).toEqual([null, null, 3, 5]);
+  });
+});
+
+describe('rsi', () => {
+  it('smooths gains and losses the way Wilder does', () => {
+    // Changes +1, -1, +2, 0, -1: average gain and loss start at 0.5 and 0.5, then
+    // move to 1.25 and 0.25, 0.625 and 0.125, 0.3125 and 0.5625
+    const values = rsi([10, 11, 10, 12, 12, 11], 2);
+    expect(values.slice(0, 2)).toEqual([null, null]);
+    expect(values[2]).toBeCloseTo(50, 10);
+    expect(values[3]).toBeCloseTo(250 / 3, 10);
+    expect(values[4]).toBeCloseTo(250 / 3, 10);
+    expect(values[5]).toBeCloseTo(250 / 7, 10);
+  });
+
+  it('is 100 without losses and null without enough history', () => {
+    expect(rsi([1, 2, 3], 2)).toEqual([null, null, 100]);
+    expect(rsi([1, 2], 2)).toEqual([null, null]);
+  });
+});
+
+describe('bollinger', () => {
+  it('puts the bands the population standard deviation away from the average', () => {
+    // Mean 5 and standard deviation 2
+    const output = computeIndicator(
+      { id: 'a', kind: 'bollinger', color: '#000', params: { period: 8, width: 1.5 } },
+      daily([2, 4, 4, 4, 5, 5, 7, 9])
+    );
+    expect(output.lines.map(line => line.values[7])).toEqual([8, 5, 2]);
+    expect(output.lines.every(line => line.values[6] === null)).toBe(true);
+  });
+});
+
+describe('macd', () => {
+  it('computes the signal and histogram from the MACD line', () => {
+    // Fast EMA 1.5, 2.5, 3.5, 6.5, 37/6 and slow EMA 2, 3, 5.5, 5.75
+    const output = computeIndicator(
+      { id: 'b', kind: 'macd', color: '#000', params: { fast: 2, slow: 3, signal: 2 } },
+      daily([1, 2, 3, 4, 8, 6])
+    );
+    const [macd, signal] = output.lines.map(line => line.values);
+
+    expect(macd.slice(0, 2)).toEqual([null, null]);
+    expect(macd[2]).toBeCloseTo(0.5, 10);
+    expect(macd[5]).toBeCloseTo(5 / 12, 10);
+    expect(signal.slice(0, 3)).toEqual([null, null, null]);
+    expect(signal[4]).toBeCloseTo(5 / 6, 10);
+    expect(signal[5]).toBeCloseTo(5 / 9, 10);
+    expect(output.histogram?.slice(0, 3)).toEqual([null, null, null]);
+    expect(output.histogram?.[3]).toBeCloseTo(0, 10);
+    expect(output.histogram?.[4]).toBeCloseTo(1 / 6, 10);
+    expect(output.histogram?.[5]).toBeCloseTo(-5 / 36, 10);
+  });
+});
+
+describe('range52w', () => {
+  it('keeps the highs and lows of the last 52 weeks', () => {
+    const points: IndicatorPoint[] = [
+      { date: '2023-01-02', value: 100, high: 105, low: 80 },
+      { date: '2023-06-01', value: 120 },
+      { date: '2024-01-01', value: 110, high: 112, low: 108 },
+      { date: '2024-01-03', value: 90, high: null, low: 85 }
+    ];
+    const output = computeIndicator({ id: 'c', kind: 'range52w', color: '#000', params: {} }, points);
+
+    // 2024-01-01 is exactly 52 weeks after the first point, 2024-01-03 is past them
+    expect(output.lines.map(line => line.values)).toEqual([
+      [105, 120, 120, 120],
+      [80, 80, 80, 85]
+    ]);
+  });
+});
+
+describe('fitParam', () => {
+  const [period] = INDICATORS.sma.params;
+  const [, width] = INDICATORS.bollinger.params;
+
+  it('rounds whole-number parameters and clamps them to their range', () => {
+    expect(fitParam(period, 20.5)).toBe(21);
+    expect(fitParam(period, 1)).toBe(2);
+    expect(fitParam(period, 1000)).toBe(250);
+  });
+
+  it('keeps fractions of parameters with a step', () => {
+    expect(fitParam(width, 2.5)).toBe(2.5);
+  });
+
+  it('uses the default for values that are not finite numbers', () => {
+    expect(fitParam(period, NaN)).toBe(20);
+    expect(fitParam(period, null)).toBe(20);
+    expect(fitParam(period, undefined)).toBe(20);
+  });
+});
+
+describe('computeIndicator', () => {
+  it('computes with fractional or missing periods instead of returning NaN', () => {
+    const sma = computeIndicator({ id: 'a', kind: 'sma', color: '#000', params: { period: 20.5 } }, points);
+    expect(sma.lines[0].label).toBe('SMA 21');
+    expect(sma.lines[0].values.filter(value => value !== null).every(Number.isFinite)).toBe(true);
+
+    const macd = computeIndicator({ id: 'b', kind: 'macd', color: '#000', params: { fast: NaN, slow: 26.4 } }, points);
+    expect(macd.lines.map(line => line.label)).toEqual(['MACD 12, 26', 'Signal 9']);
+    expect(macd.histogram?.some(value => value !== null && !Number.isFinite(value))).toBe(false);
+  });
+
+  it('describes indicators with their fitted parameters', () => {
+    expect(describeIndicator({ id: 'c', kind: 'range52w', color: '#000', params: { weeks: 51.6 } })).toBe('52W high/low');
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Technical indicators for PerformanceChart, computed from the series the chart draws.
+ *
+ * Each indicator is an IndicatorDefinition in INDICATORS: its parameters and their
+ * defaults, whether it is drawn over the prices or in a pane below them, and a function
+ * computing one value per point, null where there isn't enough history yet. Adding an
+ * indicator only takes a new definition; the chart and the indicator picker read the
+ * rest from it.
+ */
+
+export interface IndicatorPoint {
+  // YYYY-MM-DD date or ISO-8601 timestamp
+  date: string;
+  // Close
+  value: number;
+  high?: number | null;
+  low?: number | null;
+}
+
+export type IndicatorKind = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd' | 'range52w';
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface IndicatorLine {
+  label: string;
+  color: string;
+  values: (number | null)[];
+  dashed?: boolean;
+}
+
+export interface IndicatorOutput {
+  lines: IndicatorLine[];
+  // Bars drawn from zero, e.g. the MACD histogram
+  histogram?: (number | null)[];
+  // Fixed scale of a pane, e.g. 0 to 100 for RSI; otherwise the pane fits its values
+  scale?: [number, number];
+  // Horizontal reference lines in a pane, e.g. RSI's 30 and 70
+  guides?: number[];
+}
+
+export interface IndicatorDefinition {
+  kind: IndicatorKind;
+  name: string;
+  // Overlays share the price scale; panes get their own below the chart
+  placement: 'overlay' | 'pane';
+  params: IndicatorParam[];
+  compute(points: IndicatorPoint[], params: Record<string, number>, color: string): IndicatorOutput;
+}
+
+/** An indicator as chosen in the chart, with its own parameters and colour */
+export interface IndicatorConfig {
+  id: string;
+  kind: IndicatorKind;
+  params: Record<string, number>;
+  color: string;
+}
+
+// Colours given to indicators in the order they are added
+export const INDICATOR_COLORS = ['#6366F1', '#F59E0B', '#0EA5E9', '#EC4899', '#8B5CF6', '#14B8A6'];
+
+const SIGNAL_COLOR = '#F97316';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates the simple moving average
+ * @param values Values in time order
+ * @param period Number of values averaged
+ * @returns Average of each value and the ones before it, null for the first period - 1
+ */
+export function sma(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Calculates the exponential moving average, seeded with the simple average of the
+ * first period values
+ * @param values Values in time order; leading nulls are skipped
+ * @param period Number of values the weighting is based on
+ * @returns The average, null until period values have been seen
+ */
+export function ema(values: (number | null)[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  let seen = 0;
+  let sum = 0;
+  let average: number | null = null;
+
+  return values.map(value => {
+    if (value === null) return null;
+    seen++;
+    if (average !== null) {
+      average += k * (value - average);
+    } else {
+      sum += value;
+      if (seen === period) average = sum / period;
+    }
+    return average;
+  });
+}
+
+/**
+ * Calculates Wilder's relative strength index
+ * @param values Values in time order
+ * @param period Number of changes averaged
+ * @returns RSI from 0 to 100, null until there are period changes
+ */
+export function rsi(values: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) return result;
+
+  const strength = (gain: number, loss: number) => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    gain += Math.max(change, 0) / period;
+    loss += Math.max(-change, 0) / period;
+  }
+  result[period] = strength(gain, loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = strength(gain, loss);
+  }
+
+  return result;
+}
+
+/**
+ * Finds the highest high and lowest low over a trailing number of calendar days. Where
+ * the series is shorter than that, they are the high and low so far.
+ * @param points Points in time order; points without a high or low use the close
+ * @param days Calendar days in the window
+ */
+export function trailingRange(points: IndicatorPoint[], days: number): { high: number[]; low: number[] } {
+  const times = points.map(point => Date.parse(point.date));
+  const high: number[] = [];
+  const low: number[] = [];
+  let start = 0;
+
+  points.forEach((_, i) => {
+    while (times[i] - times[start] > days * MS_PER_DAY) start++;
+    let windowHigh = -Infinity;
+    let windowLow = Infinity;
+    for (let j = start; j <= i; j++) {
+      windowHigh = Math.max(windowHigh, points[j].high ?? points[j].value);
+      windowLow = Math.min(windowLow, points[j].low ?? points[j].value);
+    }
+    high.push(windowHigh);
+    low.push(windowLow);
+  });
+
+  return { high, low };
+}
+
+const closes = (points: IndicatorPoint[]) => points.map(point => point.value);
+
+export const INDICATORS: Record<IndicatorKind, IndicatorDefinition> = {
+  sma: {
+    kind: 'sma',
+    name: 'Simple moving average',
+    placement: 'overlay',
+    params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 250 }],
+    compute: (points, { period }, color) => ({
+      lines: [{ label: `SMA ${period}`, color, values: sma(closes(points), period) }]
+    })
+  },
+  ema: {
+    kind: 'ema',
+    name: 'Exponential moving average',
+    placement: 'overlay',
+    params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 250 }],
+    compute: (points, { period }, color) => ({
+      lines: [{ label: `EMA ${period}`, color, values: ema(closes(points), period) }]
+    })
+  },
+  bollinger: {
+    kind: 'bollinger',
+    name: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [
+      { key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 250 },
+      { key: 'width', label: 'Std. devs', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }
+    ],
+    compute: (points, { period, width }, color) => {
+      const values = closes(points);
+      const middle = sma(values, period);
+      // Population standard deviation over the same window as the average
+      const deviation = middle.map((mean, i) => {
+        if (mean === null) return null;
+        const window = values.slice(i - period + 1, i + 1);
+        return Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+      });
+      const band = (sign: number) =>
+        middle.map((mean, i) => (mean === null ? null : mean + sign * width * (deviation[i] as number)));
+
+      return {
+        lines: [
+          { label: `BB ${period} upper`, color, values: band(1) },
+          { label: `BB ${period} middle`, color, values: middle, dashed: true },
+          { label: `BB ${period} lower`, color, values: band(-1) }
+        ]
+      };
+    }
+  },
+  rsi: {
+    kind: 'rsi',
+    name: 'Relative strength index',
+    placement: 'pane',
+    params: [{ key: 'period', label: 'Period', defaultValue: 14, min: 2, max: 100 }],
+    compute: (points, { period }, color) => ({
+      lines: [{ label: `RSI ${period}`, color, values: rsi(closes(points), period) }],
+      scale: [0, 100],
+      guides: [30, 70]
+    })
+  },
+  macd: {
+    kind: 'macd',
+    name: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 2, max: 100 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 3, max: 200 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 2, max: 100 }
+    ],
+    compute: (points, { fast, slow, signal }, color) => {
+      const values = closes(points);
+      const fastAverage = ema(values, fast);
+      const slowAverage = ema(values, slow);
+      const macd = fastAverage.map((value, i) =>
+        value === null || slowAverage[i] === null ? null : value - (slowAverage[i] as number)
+      );
+      const signalLine = ema(macd, signal);
+
+      return {
+        lines: [
+          { label: `MACD ${fast}, ${slow}`, color, values: macd },
+          { label: `Signal ${signal}`, color: SIGNAL_COLOR, values: signalLine }
+        ],
+        histogram: macd.map((value, i) =>
+          value === null || signalLine[i] === null ? null : value - (signalLine[i] as number)
+        ),
+        guides: [0]
+      };
+    }
+  },
+  range52w: {
+    kind: 'range52w',
+    name: '52-week high/low',
+    placement: 'overlay',
+    params: [{ key: 'weeks', label: 'Weeks', defaultValue: 52, min: 1, max: 260 }],
+    compute: (points, { weeks }, color) => {
+      const { high, low } = trailingRange(points, weeks * 7);
+      return {
+        lines: [
+          { label: `${weeks}W high`, color, values: high, dashed: true },
+          { label: `${weeks}W low`, color, values: low, dashed: true }
+        ]
+      };
+    }
+  }
+};
+
+/**
+ * Fits a parameter value to its definition: rounded to a whole number unless the
+ * parameter has a step, e.g. a period of 20.5 becomes 21, and clamped to its range
+ * @param value Value as entered or saved; anything but a finite number gets the default
+ */
+export function fitParam(param: IndicatorParam, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return param.defaultValue;
+  return Math.min(param.max, Math.max(param.min, param.step ? value : Math.round(value)));
+}
+
+/**
+ * Short label of a configured indicator, e.g. "SMA 20" or "MACD 12, 26, 9"
+ */
+export function describeIndicator(config: IndicatorConfig): string {
+  const params = INDICATORS[config.kind].params.map(param => fitParam(param, config.params[param.key])).join(', ');
+  switch (config.kind) {
+    case 'sma':
+      return `SMA ${params}`;
+    case 'ema':
+      return `EMA ${params}`;
+    case 'bollinger':
+      return `BB ${params}`;
+    case 'rsi':
+      return `RSI ${params}`;
+    case 'macd':
+      return `MACD ${params}`;
+    case 'range52w':
+      return `${params}W high/low`;
+  }
+}
+
+/**
+ * Computes a configured indicator, falling back to the defaults of missing or invalid
+ * parameters
+ */
+export function computeIndicator(config: IndicatorConfig, points: IndicatorPoint[]): IndicatorOutput {
+  const definition = INDICATORS[config.kind];
+  const params: Record<string, number> = {};
+  definition.params.forEach(param => {
+    params[param.key] = fitParam(param, config.params[param.key]);
+  });
+  return definition.compute(points, params, config.color);
+}
+
+/**
+ * Keeps the values of the points between start and end, inclusive, for a zoomed chart
+ */
+export function sliceIndicator(output: IndicatorOutput, start: number, end: number): IndicatorOutput {
+  return {
+    ...output,
+    lines: output.lines.map(line => ({ ...line, values: line.values.slice(start, end + 1) })),
+    histogram: output.histogram?.slice(start, end + 1)
+  };
+}
+
+/**
+ * Builds the SVG path of an indicator line across a 0-100 wide chart, breaking it where
+ * values are null
+ * @param values One value per point
+ * @param toY Maps a value to its y position
+ */
+export function indicatorPath(values: (number | null)[], toY: (value: number) => number): string {
+  const step = values.length > 1 ? 100 / (values.length - 1) : 0;
+  let drawing = false;
+  return values
+    .map((value, i) => {
+      if (value === null) {
+        drawing = false;
+        return '';
+      }
+      const command = drawing ? 'L' : 'M';
+      drawing = true;
+      return `${command} ${i * step} ${toY(value)}`;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
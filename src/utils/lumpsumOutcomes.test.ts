@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { PricePoint } from './financeUtils';
+import { computeLumpsumOutcomes } from './lumpsumOutcomes';
+
+// Closes on the first of each month from January 2023
+const series: PricePoint[] = [100, 120, 90, 110, 130].map((value, month) => {
+  const date = new Date(2023, month, 1);
+  return { date, time: date.getTime(), value };
+});
+
+describe('computeLumpsumOutcomes', () => {
+  // Two-month holdings started in January, February and March; April's would end after the data
+  const outcomes = computeLumpsumOutcomes(series, { years: 2 / 12, amount: 1000 });
+
+  it('replays the holding period from every start with a full horizon', () => {
+    expect(outcomes.months).toBe(2);
+    expect(outcomes.startCount).toBe(3);
+    expect(outcomes.worst?.startDate).toEqual(new Date(2023, 0, 1));
+    expect(outcomes.worst?.values).toEqual([1000, 1200, 900]);
+    expect(outcomes.median?.startDate).toEqual(new Date(2023, 1, 1));
+    expect(outcomes.median?.values[2]).toBeCloseTo(916.667, 3);
+    expect(outcomes.best?.endDate).toEqual(new Date(2023, 4, 1));
+    expect(outcomes.best?.values[2]).toBeCloseTo(1444.444, 3);
+  });
+
+  it('interpolates the percentile bands at each month', () => {
+    const [start, , end] = outcomes.bands;
+    expect(start).toEqual({ month: 0, p10: 1000, p50: 1000, p90: 1000 });
+    expect(end.p10).toBeCloseTo(900 + (916.667 - 900) * 0.2, 2);
+    expect(end.p50).toBeCloseTo(916.667, 3);
+    expect(end.p90).toBeCloseTo(916.667 + (1444.444 - 916.667) * 0.8, 2);
+  });
+
+  it('counts the starts that ended below the amount invested', () => {
+    expect(outcomes.lossProbability).toBeCloseTo(200 / 3, 10);
+  });
+
+  it('only starts inside the window', () => {
+    const windowed = computeLumpsumOutcomes(series, { years: 2 / 12, amount: 1000, windowStart: new Date(2023, 1, 1) });
+    expect(windowed.startCount).toBe(2);
+    expect(windowed.lossProbability).toBe(50);
+  });
+
+  it('has no outcomes when the data is shorter than the holding period', () => {
+    const long = computeLumpsumOutcomes(series, { years: 1, amount: 1000 });
+    expect(long).toMatchObject({ months: 12, startCount: 0, best: null, bands: [] });
+  });
+});
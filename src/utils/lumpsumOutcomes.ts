@@ -0,0 +1,108 @@
+/**
+ * Historical outcomes of a lump sum investment across every possible start date
+ */
+import { addMonths } from './dateUtils';
+import { findTradingDayOnOrBefore, percentile, type PricePoint } from './financeUtils';
+
+export interface LumpsumPath {
+  startDate: Date;
+  endDate: Date;
+  values: number[];
+}
+
+export interface LumpsumBandPoint {
+  month: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface LumpsumOutcomes {
+  months: number;
+  startCount: number;
+  best: LumpsumPath | null;
+  median: LumpsumPath | null;
+  worst: LumpsumPath | null;
+  bands: LumpsumBandPoint[];
+  lossProbability: number;
+}
+
+export interface LumpsumOutcomeParams {
+  years: number;
+  amount: number;
+  windowStart?: Date | null;
+  windowEnd?: Date | null;
+}
+
+const EMPTY_OUTCOMES: LumpsumOutcomes = {
+  months: 0,
+  startCount: 0,
+  best: null,
+  median: null,
+  worst: null,
+  bands: [],
+  lossProbability: 0
+};
+
+/**
+ * Replays a lump sum investment from every trading day in the window and summarises the outcomes
+ * @param series Price series sorted by date
+ * @param params Holding period in years, amount invested and the window of start dates to consider
+ * @returns Best, median and worst paths plus a 10th-90th percentile band, sampled monthly
+ */
+export function computeLumpsumOutcomes(series: PricePoint[], params: LumpsumOutcomeParams): LumpsumOutcomes {
+  const { years, amount, windowStart, windowEnd } = params;
+  const months = Math.round(years * 12);
+  if (series.length < 2 || months <= 0 || amount <= 0) return EMPTY_OUTCOMES;
+
+  const lastTime = series[series.length - 1].time;
+  const paths: LumpsumPath[] = [];
+
+  for (let i = 0; i < series.length; i++) {
+    const start = series[i];
+    if (windowStart && start.time < windowStart.getTime()) continue;
+    if (windowEnd && start.time > windowEnd.getTime()) break;
+
+    // Only consider start dates whose full holding period is covered by the data
+    const horizon = addMonths(start.date, months);
+    if (horizon.getTime() > lastTime) break;
+
+    const values: number[] = [];
+    for (let m = 0; m <= months; m++) {
+      // Use the closest trading day on or before each monthly checkpoint
+      const index = Math.max(findTradingDayOnOrBefore(series, addMonths(start.date, m)), i);
+      values.push(amount * (series[index].value / start.value));
+    }
+
+    paths.push({
+      startDate: start.date,
+      endDate: series[Math.max(findTradingDayOnOrBefore(series, horizon), i)].date,
+      values
+    });
+  }
+
+  if (paths.length === 0) return { ...EMPTY_OUTCOMES, months };
+
+  const byFinalValue = [...paths].sort((a, b) => a.values[months] - b.values[months]);
+
+  const bands: LumpsumBandPoint[] = [];
+  for (let m = 0; m <= months; m++) {
+    const column = paths.map(path => path.values[m]).sort((a, b) => a - b);
+    bands.push({
+      month: m,
+      p10: percentile(column, 10),
+      p50: percentile(column, 50),
+      p90: percentile(column, 90)
+    });
+  }
+
+  return {
+    months,
+    startCount: paths.length,
+    best: byFinalValue[byFinalValue.length - 1],
+    median: byFinalValue[Math.floor((byFinalValue.length - 1) / 2)],
+    worst: byFinalValue[0],
+    bands,
+    lossProbability: (paths.filter(path => path.values[months] < amount).length / paths.length) * 100
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { PricePoint } from './financeUtils';
+import { backtestPortfolio, normalizeWeights, type BacktestParams } from './portfolioBacktest';
+
+const DATES = [Date.UTC(2023, 0, 2), Date.UTC(2023, 0, 16), Date.UTC(2023, 1, 1), Date.UTC(2023, 1, 15)];
+
+function prices(values: number[]): PricePoint[] {
+  return values.map((value, i) => ({ date: new Date(DATES[i]), time: DATES[i], value }));
+}
+
+// A doubles, halves and recovers half its loss while B stays flat
+const seriesByIndex = { A: prices([100, 200, 100, 150]), B: prices([100, 100, 100, 100]) };
+
+const params = (rebalance: BacktestParams['rebalance']): BacktestParams => ({
+  allocations: [{ index: 'A', weight: 50 }, { index: 'B', weight: 50 }],
+  rebalance,
+  thresholdPercent: 10,
+  initialValue: 1000
+});
+
+describe('normalizeWeights', () => {
+  it('scales positive weights to sum to 1', () => {
+    expect(normalizeWeights([{ index: 'A', weight: 60 }, { index: 'B', weight: 40 }, { index: 'C', weight: 0 }])).toEqual([
+      { index: 'A', weight: 0.6 },
+      { index: 'B', weight: 0.4 }
+    ]);
+    expect(normalizeWeights([{ index: 'A', weight: 0 }])).toEqual([]);
+  });
+});
+
+describe('backtestPortfolio', () => {
+  it('rebalances at the start of each month', () => {
+    const result = backtestPortfolio(seriesByIndex, params('monthly'));
+    expect(result.nav.map(point => point.nav)).toEqual([1000, 1500, 1000, 1250]);
+    // The holdings happened to be back on target on 1 February, so nothing was traded
+    expect(result.rebalanceCount).toBe(1);
+    expect(result.totalTurnover).toBe(0);
+    expect(result.maxDrawdown).toBeCloseTo(-100 / 3, 10);
+    expect(result.maxDrawdownDate).toEqual(new Date(DATES[2]));
+  });
+
+  it('rebalances when a weight drifts past the threshold', () => {
+    const result = backtestPortfolio(seriesByIndex, params('threshold'));
+    // 16 January: 1000/500 back to 750/750; 1 February: 375/750 back to 562.5/562.5
+    expect(result.nav.map(point => point.nav)).toEqual([1000, 1500, 1125, 1406.25]);
+    expect(result.rebalanceCount).toBe(2);
+    // Half of each trade relative to the value: 250/1500 and 187.5/1125
+    expect(result.totalTurnover).toBeCloseTo(100 / 3, 10);
+    expect(result.maxDrawdown).toBeCloseTo(-25, 10);
+
+    const years = (DATES[3] - DATES[0]) / (365.25 * 24 * 60 * 60 * 1000);
+    expect(result.annualTurnover).toBeCloseTo(100 / 3 / years, 8);
+    expect(result.cagr).toBeCloseTo((Math.pow(1.40625, 1 / years) - 1) * 100, 8);
+  });
+
+  it('lets the weights drift below the threshold', () => {
+    const result = backtestPortfolio(seriesByIndex, { ...params('threshold'), thresholdPercent: 20 });
+    expect(result.rebalanceCount).toBe(0);
+    expect(result.finalValue).toBe(1250);
+  });
+
+  it('starts once every index has a price', () => {
+    const late = { ...seriesByIndex, B: prices([NaN, 100, 100, 100]).slice(1) };
+    const result = backtestPortfolio(late, params('yearly'));
+    expect(result.startDate).toEqual(new Date(DATES[1]));
+    expect(result.nav.map(point => point.nav)).toEqual([1000, 750, 875]);
+  });
+
+  it('returns an empty result without weights or overlapping prices', () => {
+    expect(backtestPortfolio(seriesByIndex, { ...params('monthly'), allocations: [] }).nav).toEqual([]);
+    expect(backtestPortfolio({ A: seriesByIndex.A }, params('monthly')).nav).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Backtesting of custom index portfolios with periodic or threshold rebalancing
+ */
+import { findTradingDayOnOrBefore, type PricePoint } from './financeUtils';
+
+export type RebalanceFrequency = 'monthly' | 'quarterly' | 'yearly' | 'threshold';
+
+export interface PortfolioAllocation {
+  index: string;
+  weight: number;
+}
+
+export interface BacktestParams {
+  allocations: PortfolioAllocation[];
+  rebalance: RebalanceFrequency;
+  thresholdPercent: number;
+  initialValue: number;
+  startDate?: Date | null;
+  endDate?: Date | null;
+}
+
+export interface NavPoint {
+  date: Date;
+  nav: number;
+  drawdown: number;
+}
+
+export interface BacktestResult {
+  nav: NavPoint[];
+  startDate: Date | null;
+  endDate: Date | null;
+  finalValue: number;
+  cagr: number;
+  maxDrawdown: number;
+  maxDrawdownDate: Date | null;
+  rebalanceCount: number;
+  totalTurnover: number;
+  annualTurnover: number;
+}
+
+const EMPTY_RESULT: BacktestResult = {
+  nav: [],
+  startDate: null,
+  endDate: null,
+  finalValue: 0,
+  cagr: 0,
+  maxDrawdown: 0,
+  maxDrawdownDate: null,
+  rebalanceCount: 0,
+  totalTurnover: 0,
+  annualTurnover: 0
+};
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+const MONTHS_PER_PERIOD: Record<Exclude<RebalanceFrequency, 'threshold'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+/**
+ * Scales the weights so they sum to 1, dropping non-positive entries
+ * @param allocations Target weights in any unit (usually percentages)
+ * @returns Allocations with fractional weights summing to 1
+ */
+export function normalizeWeights(allocations: PortfolioAllocation[]): PortfolioAllocation[] {
+  const valid = allocations.filter(allocation => allocation.weight > 0);
+  const total = valid.reduce((sum, allocation) => sum + allocation.weight, 0);
+  if (total === 0) return [];
+  return valid.map(allocation => ({ index: allocation.index, weight: allocation.weight / total }));
+}
+
+/**
+ * Returns the rebalancing period a date falls in, so a change in period marks a rebalance date
+ */
+function periodKey(date: Date, rebalance: RebalanceFrequency): number {
+  if (rebalance === 'threshold') return 0;
+  const months = date.getUTCFullYear() * 12 + date.getUTCMonth();
+  return Math.floor(months / MONTHS_PER_PERIOD[rebalance]);
+}
+
+/**
+ * Backtests a portfolio of indices over their common price history
+ * @param seriesByIndex Price series for each index, sorted by date
+ * @param params Target weights, rebalancing rule, starting value and optional date range
+ * @returns Daily NAV with drawdowns, plus CAGR, maximum drawdown and turnover
+ */
+export function backtestPortfolio(
+  seriesByIndex: Record<string, PricePoint[]>,
+  params: BacktestParams
+): BacktestResult {
+  const { rebalance, thresholdPercent, initialValue, startDate, endDate } = params;
+  const allocations = normalizeWeights(params.allocations);
+  if (allocations.length === 0 || initialValue <= 0) return EMPTY_RESULT;
+
+  const series = allocations.map(allocation => seriesByIndex[allocation.index] || []);
+  if (series.some(s => s.length === 0)) return EMPTY_RESULT;
+
+  // The portfolio can only start once every index has a price
+  let firstTime = Math.max(...series.map(s => s[0].time));
+  let lastTime = Math.min(...series.map(s => s[s.length - 1].time));
+  if (startDate) firstTime = Math.max(firstTime, startDate.getTime());
+  if (endDate) lastTime = Math.min(lastTime, endDate.getTime());
+  if (firstTime >= lastTime) return EMPTY_RESULT;
+
+  // Walk every date on which any index traded, carrying forward the last price on holidays
+  const dates = Array.from(new Set(series.flatMap(s => s.map(point => point.time))))
+    .filter(time => time >= firstTime && time <= lastTime)
+    .sort((a, b) => a - b);
+  if (dates.length < 2) return EMPTY_RESULT;
+
+  const priceAt = (time: number) => series.map(s => s[findTradingDayOnOrBefore(s, new Date(time))].value);
+
+  const initialPrices = priceAt(dates[0]);
+  let units = allocations.map((allocation, i) => (initialValue * allocation.weight) / initialPrices[i]);
+  let lastPeriod = periodKey(new Date(dates[0]), rebalance);
+
+  const nav: NavPoint[] = [];
+  let peak = initialValue;
+  let maxDrawdown = 0;
+  let maxDrawdownDate: Date | null = null;
+  let rebalanceCount = 0;
+  let totalTurnover = 0;
+
+  dates.forEach((time, dayIndex) => {
+    const date = new Date(time);
+    const prices = priceAt(time);
+    const holdings = units.map((u, i) => u * prices[i]);
+    const value = holdings.reduce((sum, holding) => sum + holding, 0);
+
+    if (dayIndex > 0) {
+      const period = periodKey(date, rebalance);
+      const drifted = rebalance === 'threshold'
+        ? allocations.some((allocation, i) => Math.abs(holdings[i] / value - allocation.weight) * 100 > thresholdPercent)
+        : period !== lastPeriod;
+      lastPeriod = period;
+
+      if (drifted) {
+        // One-way turnover: half of everything bought and sold, relative to the portfolio value
+        const traded = allocations.reduce(
+          (sum, allocation, i) => sum + Math.abs(value * allocation.weight - holdings[i]),
+          0
+        );
+        totalTurnover += traded / 2 / value;
+        rebalanceCount++;
+        units = allocations.map((allocation, i) => (value * allocation.weight) / prices[i]);
+      }
+    }
+
+    peak = Math.max(peak, value);
+    const drawdown = ((value / peak) - 1) * 100;
+    if (drawdown < maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownDate = date;
+    }
+
+    nav.push({ date, nav: value, drawdown });
+  });
+
+  const finalValue = nav[nav.length - 1].nav;
+  const years = (dates[dates.length - 1] - dates[0]) / MS_PER_YEAR;
+
+  return {
+    nav,
+    startDate: nav[0].date,
+    endDate: nav[nav.length - 1].date,
+    finalValue,
+    cagr: years > 0 ? (Math.pow(finalValue / initialValue, 1 / years) - 1) * 100 : 0,
+    maxDrawdown,
+    maxDrawdownDate,
+    rebalanceCount,
+    totalTurnover: totalTurnover * 100,
+    annualTurnover: years > 0 ? (totalTurnover / years) * 100 : 0
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartBar } from '../shared/api';
+import { combineCharts } from './portfolioChart';
+
+const bars = (closes: [string, number][]): ChartBar[] =>
+  closes.map(([time, close]) => ({ time, open: null, high: null, low: null, close, volume: null }));
+
+describe('combineCharts', () => {
+  it('starts once every index has a close and carries closes forward', () => {
+    const points = combineCharts([
+      { bars: bars([['2024-01-02', 100], ['2024-01-03', 110], ['2024-01-04', 120]]), interval: '1d', weight: 0.5 },
+      { bars: bars([['2024-01-03', 200], ['2024-01-05', 220]]), interval: '1d', weight: 0.5 }
+    ]);
+
+    expect(points).toEqual([
+      { date: '2024-01-03', value: 155 },
+      { date: '2024-01-04', value: 160 },
+      { date: '2024-01-05', value: 170 }
+    ]);
+  });
+
+  it('values daily closes at the intraday times after the session that made them', () => {
+    // 09:15 and 09:20 IST on 10 January; the daily close of the 10th is made at 15:30
+    const points = combineCharts([
+      { bars: bars([['2024-01-10T03:45:00.000Z', 100], ['2024-01-10T03:50:00.000Z', 102]]), interval: '5m', weight: 1 },
+      { bars: bars([['2024-01-09', 50], ['2024-01-10', 60]]), interval: '1d', weight: 1 }
+    ]);
+
+    expect(points).toEqual([
+      { date: '2024-01-10T03:45:00.000Z', value: 150 },
+      { date: '2024-01-10T03:50:00.000Z', value: 152 }
+    ]);
+  });
+
+  it('leaves out charts without bars or weight', () => {
+    expect(combineCharts([])).toEqual([]);
+    expect(combineCharts([
+      { bars: bars([['2024-01-02', 100]]), interval: '1d', weight: 0 },
+      { bars: [], interval: '1d', weight: 1 }
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Portfolio chart series, combined from the chart bars of each index in the allocation
+ */
+import type { ChartBar, ChartInterval } from '../shared/api';
+
+export interface ChartPoint {
+  date: string;
+  value: number;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  volume?: number | null;
+}
+
+export interface WeightedChart {
+  bars: ChartBar[];
+  interval: ChartInterval;
+  // Allocation as a fraction, e.g. 0.35 for 35%
+  weight: number;
+}
+
+const INTRADAY_INTERVALS: ChartInterval[] = ['5m', '30m'];
+
+/**
+ * Finds when a bar's close was made: the start of an intraday bar, and the end of the
+ * session, 15:30 IST, on the last day of a daily or weekly bar
+ */
+function closeTime(bar: ChartBar, interval: ChartInterval): number {
+  return INTRADAY_INTERVALS.includes(interval) ? Date.parse(bar.time) : Date.parse(`${bar.time}T15:30:00+05:30`);
+}
+
+/**
+ * Maps chart bars to the points PerformanceChart draws, valued at the bar's close
+ */
+export function toChartPoints(bars: ChartBar[]): ChartPoint[] {
+  return bars.map(bar => ({
+    date: bar.time,
+    value: bar.close,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    volume: bar.volume
+  }));
+}
+
+/**
+ * Combines index charts into the value of the allocation over time, the sum of each
+ * index's close times its weight. Indices that have no bar at a time keep their last
+ * close, and the series starts once every index has one, so a late start doesn't show
+ * as a jump. The combined series is of closes only.
+ *
+ * An index without recorded ticks charts 1D and 5D from daily closes. When others have
+ * intraday bars, the series follows their times and values it at its last close made
+ * before each one.
+ * @param charts Bars, interval and weight of each index; charts without bars are left out
+ * @returns Portfolio value at each bar time of any intraday chart, or of any chart
+ */
+export function combineCharts(charts: WeightedChart[]): ChartPoint[] {
+  const included = charts.filter(chart => chart.bars.length > 0 && chart.weight > 0);
+  if (included.length === 0) return [];
+
+  const intraday = included.filter(chart => INTRADAY_INTERVALS.includes(chart.interval));
+  const closeTimes = included.map(chart => chart.bars.map(bar => closeTime(bar, chart.interval)));
+  const axis = new Map<number, string>();
+  (intraday.length > 0 ? intraday : included).forEach(chart => {
+    chart.bars.forEach(bar => axis.set(closeTime(bar, chart.interval), bar.time));
+  });
+
+  const positions = included.map(() => 0);
+  const closes: (number | null)[] = included.map(() => null);
+
+  const points: ChartPoint[] = [];
+  [...axis.keys()].sort((a, b) => a - b).forEach(time => {
+    included.forEach((chart, i) => {
+      while (positions[i] < chart.bars.length && closeTimes[i][positions[i]] <= time) {
+        closes[i] = chart.bars[positions[i]].close;
+        positions[i]++;
+      }
+    });
+
+    if (closes.some(close => close === null)) return;
+    const value = included.reduce((sum, chart, i) => sum + (closes[i] as number) * chart.weight, 0);
+    points.push({ date: axis.get(time) as string, value: Math.round(value * 100) / 100 });
+  });
+
+  return points;
+}
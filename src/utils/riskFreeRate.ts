@@ -0,0 +1,85 @@
+/**
+ * Risk-free rate lookups over time, for a constant rate or a historical yield series
+ */
+import type { RiskFreeRateInfo } from '../services/api';
+import { parseDateString } from './dateUtils';
+
+export interface RiskFreeRates {
+  source: 'constant' | 'series';
+  label: string;
+  constantRate: number;
+  points: { time: number; rate: number }[];
+}
+
+export const DEFAULT_RISK_FREE_RATES: RiskFreeRates = {
+  source: 'constant',
+  label: 'Constant 4%',
+  constantRate: 4,
+  points: []
+};
+
+/**
+ * Converts the API response into a date-sorted rate lookup
+ * @param info Risk-free rate as returned by /api/risk-free-rate
+ * @returns Rates ready for lookups; a series with no valid rows falls back to the constant
+ */
+export function toRiskFreeRates(info: RiskFreeRateInfo): RiskFreeRates {
+  const points = info.rates
+    .map(row => ({ date: parseDateString(row.date), rate: row.rate }))
+    .filter((row): row is { date: Date; rate: number } => row.date !== null && isFinite(row.rate))
+    .map(row => ({ time: row.date.getTime(), rate: row.rate }))
+    .sort((a, b) => a.time - b.time);
+
+  return {
+    source: points.length > 0 ? 'series' : 'constant',
+    label: info.label,
+    constantRate: info.constantRate,
+    points
+  };
+}
+
+/**
+ * Returns the annual risk-free rate that applied on a date
+ * @param rates Risk-free rates
+ * @param time Timestamp of the date
+ * @returns The latest rate on or before the date (the first rate for earlier dates), as a percentage
+ */
+export function riskFreeRateOn(rates: RiskFreeRates, time: number): number {
+  const { points } = rates;
+  if (points.length === 0) return rates.constantRate;
+
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].time <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return points[Math.max(low - 1, 0)].rate;
+}
+
+/**
+ * Calculates the time-weighted average risk-free rate between two dates
+ * @param rates Risk-free rates
+ * @param from Start of the period
+ * @param to End of the period
+ * @returns Average annual rate over the period as a percentage
+ */
+export function averageRiskFreeRate(rates: RiskFreeRates, from: Date, to: Date): number {
+  const start = from.getTime();
+  const end = to.getTime();
+  if (rates.points.length === 0 || end <= start) return riskFreeRateOn(rates, start);
+
+  // Each rate applies from its date until the next rate takes over
+  const boundaries = [start, ...rates.points.map(point => point.time).filter(time => time > start && time < end), end];
+  let weighted = 0;
+  for (let i = 1; i < boundaries.length; i++) {
+    weighted += riskFreeRateOn(rates, boundaries[i - 1]) * (boundaries[i] - boundaries[i - 1]);
+  }
+
+  return weighted / (end - start);
+}
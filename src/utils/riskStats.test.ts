@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { PricePoint } from './financeUtils';
+import type { RiskFreeRates } from './riskFreeRate';
+import { computeRiskStats, dailyReturns, maxDrawdown } from './riskStats';
+
+// Daily returns of the Excel SKEW/KURT help example (3, 4, 5, 2, 3, 4, 5, 6, 4, 7) less 4, in percent
+const RETURNS = [-1, 0, 1, -2, -1, 0, 1, 2, 0, 3].map(r => r / 100);
+
+const series: PricePoint[] = [100, ...RETURNS].reduce<PricePoint[]>((points, r, i) => {
+  const date = new Date(Date.UTC(2024, 0, 1 + i));
+  const value = i === 0 ? r : points[i - 1].value * (1 + r);
+  return [...points, { date, time: date.getTime(), value }];
+}, []);
+
+const constant = (rate: number): RiskFreeRates => ({ source: 'constant', label: `Constant ${rate}%`, constantRate: rate, points: [] });
+
+describe('dailyReturns', () => {
+  it('returns the change from each close to the next', () => {
+    dailyReturns(series).forEach((r, i) => expect(r).toBeCloseTo(RETURNS[i], 12));
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('measures the deepest fall from a peak', () => {
+    // 100 down 1%, 2% and 1% before recovering
+    expect(maxDrawdown(series)).toBeCloseTo((0.99 * 1.01 * 0.98 * 0.99 - 1) * 100, 10);
+  });
+});
+
+describe('computeRiskStats', () => {
+  const stats = computeRiskStats(series, constant(0));
+
+  it('annualises volatility, Sharpe and Sortino over 252 trading days', () => {
+    expect(stats.observations).toBe(10);
+    expect(stats.standardDeviation).toBeCloseTo(23.723406, 5);
+    expect(stats.sharpeRatio).toBeCloseTo(3.186726, 5);
+    // Only the -1%, -2% and -1% days count towards the downside deviation
+    expect(stats.downsideDeviation).toBeCloseTo(12.296341, 5);
+    expect(stats.sortinoRatio).toBeCloseTo(6.148170, 5);
+  });
+
+  it('divides the annual return by the maximum drawdown for Calmar', () => {
+    const years = 10 / 365.25;
+    expect(stats.averageReturn).toBeCloseTo((Math.pow(series[10].value / 100, 1 / years) - 1) * 100, 8);
+    expect(stats.calmarRatio).toBeCloseTo(stats.averageReturn / 2.989702, 5);
+  });
+
+  it('matches Excel SKEW and KURT', () => {
+    expect(stats.skewness).toBeCloseTo(0.359543071, 8);
+    expect(stats.kurtosis).toBeCloseTo(-0.151799637, 8);
+  });
+
+  it('subtracts the daily equivalent of the risk-free rate', () => {
+    const riskFree = computeRiskStats(series, constant(5));
+    const dailyRiskFree = Math.pow(1.05, 1 / 252) - 1;
+    expect(riskFree.sharpeRatio).toBeCloseTo(((0.003 - dailyRiskFree) / 0.014944341) * Math.sqrt(252), 5);
+    expect(riskFree.riskFreeRate).toBe(5);
+    expect(riskFree.riskFreeLabel).toBe('Constant 5%');
+  });
+
+  it('uses the rate in force on each day of a series', () => {
+    // 0% for the first five returns, 10% from 7 January
+    const rates: RiskFreeRates = {
+      source: 'series',
+      label: 'T-bill',
+      constantRate: 0,
+      points: [{ time: series[0].time, rate: 0 }, { time: series[6].time, rate: 10 }]
+    };
+    const stats = computeRiskStats(series, rates);
+    const dailyRiskFree = Math.pow(1.1, 1 / 252) - 1;
+    expect(stats.sharpeRatio).toBeCloseTo(((0.003 - dailyRiskFree / 2) / 0.014944341) * Math.sqrt(252), 5);
+    // Time-weighted: 0% for six days and 10% for four
+    expect(stats.riskFreeRate).toBeCloseTo(4, 10);
+  });
+
+  it('starts from the first trading day on or after the start date', () => {
+    const late = computeRiskStats(series, constant(0), new Date(Date.UTC(2024, 0, 8)));
+    expect(late.observations).toBe(3);
+    expect(late.fromDate).toEqual(new Date(Date.UTC(2024, 0, 8)));
+    expect(late.maxDrawdown).toBe(0);
+  });
+
+  it('needs at least two returns', () => {
+    expect(computeRiskStats(series.slice(0, 2), constant(0)).observations).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Risk statistics computed from daily index prices
+ */
+import type { IndexRiskStats } from '../services/api';
+import { findTradingDayOnOrAfter, type PricePoint } from './financeUtils';
+import { averageRiskFreeRate, riskFreeRateOn, type RiskFreeRates } from './riskFreeRate';
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+export const EMPTY_RISK_STATS: IndexRiskStats = {
+  averageReturn: 0,
+  standardDeviation: 0,
+  sharpeRatio: 0,
+  sortinoRatio: 0,
+  maxDrawdown: 0,
+  calmarRatio: 0,
+  downsideDeviation: 0,
+  skewness: 0,
+  kurtosis: 0,
+  observations: 0,
+  fromDate: null,
+  toDate: null,
+  riskFreeRate: 0,
+  riskFreeLabel: ''
+};
+
+/**
+ * Calculates simple daily returns from consecutive prices
+ * @param series Price series sorted by date
+ * @returns Daily returns as fractions, one fewer than the number of prices
+ */
+export function dailyReturns(series: PricePoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    returns.push(series[i].value / series[i - 1].value - 1);
+  }
+  return returns;
+}
+
+/**
+ * Calculates the deepest peak-to-trough fall in a price series
+ * @param series Price series sorted by date
+ * @returns Maximum drawdown as a negative percentage, or 0 if prices never fell
+ */
+export function maxDrawdown(series: PricePoint[]): number {
+  let peak = -Infinity;
+  let deepest = 0;
+
+  series.forEach(point => {
+    peak = Math.max(peak, point.value);
+    deepest = Math.min(deepest, (point.value / peak - 1) * 100);
+  });
+
+  return deepest;
+}
+
+/**
+ * Calculates annualised risk and return statistics from daily prices
+ * @param series Price series sorted by date
+ * @param riskFree Risk-free rates; each day's excess return uses the rate that applied that day
+ * @param startDate Only use prices from this date onwards, e.g. the start of a 3Y window
+ * @returns Volatility, Sharpe, Sortino, drawdown, Calmar, downside deviation and the shape of the return distribution
+ */
+export function computeRiskStats(
+  series: PricePoint[],
+  riskFree: RiskFreeRates,
+  startDate?: Date | null
+): IndexRiskStats {
+  const empty = { ...EMPTY_RISK_STATS, riskFreeRate: riskFree.constantRate, riskFreeLabel: riskFree.label };
+  const startIndex = startDate ? findTradingDayOnOrAfter(series, startDate) : 0;
+  if (startIndex === -1) return empty;
+
+  const window = series.slice(startIndex);
+  const returns = dailyReturns(window);
+  if (returns.length < 2) return empty;
+
+  const first = window[0];
+  const last = window[window.length - 1];
+  const years = (last.time - first.time) / MS_PER_YEAR;
+  const annualReturn = years > 0 ? (Math.pow(last.value / first.value, 1 / years) - 1) * 100 : 0;
+
+  const n = returns.length;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / n;
+  const deviations = returns.map(r => r - mean);
+  const variance = deviations.reduce((sum, d) => sum + d * d, 0) / (n - 1);
+  const dailyStdDev = Math.sqrt(variance);
+
+  // Excess returns over the daily equivalent of the risk-free rate in force on each day
+  const excessReturns = returns.map((r, i) => {
+    const annualRate = riskFreeRateOn(riskFree, window[i + 1].time);
+    return r - (Math.pow(1 + annualRate / 100, 1 / TRADING_DAYS_PER_YEAR) - 1);
+  });
+  const meanExcess = excessReturns.reduce((sum, r) => sum + r, 0) / n;
+  const downsideVariance = excessReturns.reduce((sum, r) => sum + Math.pow(Math.min(0, r), 2), 0) / n;
+  const dailyDownsideDeviation = Math.sqrt(downsideVariance);
+
+  // Sample skewness and excess kurtosis, bias-adjusted as in Excel's SKEW and KURT
+  const m3 = deviations.reduce((sum, d) => sum + d * d * d, 0);
+  const m4 = deviations.reduce((sum, d) => sum + d * d * d * d, 0);
+  const skewness = n > 2 && dailyStdDev > 0
+    ? (n / ((n - 1) * (n - 2))) * (m3 / Math.pow(dailyStdDev, 3))
+    : 0;
+  const kurtosis = n > 3 && dailyStdDev > 0
+    ? ((n * (n + 1)) / ((n - 1) * (n - 2) * (n - 3))) * (m4 / Math.pow(dailyStdDev, 4))
+      - (3 * Math.pow(n - 1, 2)) / ((n - 2) * (n - 3))
+    : 0;
+
+  const drawdown = maxDrawdown(window);
+  const annualisation = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  return {
+    averageReturn: annualReturn,
+    standardDeviation: dailyStdDev * annualisation * 100,
+    sharpeRatio: dailyStdDev > 0 ? (meanExcess / dailyStdDev) * annualisation : 0,
+    sortinoRatio: dailyDownsideDeviation > 0 ? (meanExcess / dailyDownsideDeviation) * annualisation : 0,
+    maxDrawdown: drawdown,
+    calmarRatio: drawdown < 0 ? annualReturn / Math.abs(drawdown) : 0,
+    downsideDeviation: dailyDownsideDeviation * annualisation * 100,
+    skewness,
+    kurtosis,
+    observations: n,
+    fromDate: first.date,
+    toDate: last.date,
+    riskFreeRate: averageRiskFreeRate(riskFree, first.date, last.date),
+    riskFreeLabel: riskFree.label
+  };
+}
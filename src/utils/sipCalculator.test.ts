@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { xirr, type PricePoint } from './financeUtils';
+import { simulateSip } from './sipCalculator';
+
+// Weekday closes between two dates, priced by the given function
+function weekdays(from: Date, to: Date, price: (date: Date) => number): PricePoint[] {
+  const series: PricePoint[] = [];
+  for (let date = new Date(from); date <= to; date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)) {
+    if (date.getDay() !== 0 && date.getDay() !== 6) {
+      series.push({ date, time: date.getTime(), value: price(date) });
+    }
+  }
+  return series;
+}
+
+describe('xirr', () => {
+  it('annualises a single investment and redemption', () => {
+    const rate = xirr([
+      { date: new Date(2023, 0, 1), amount: -1000 },
+      { date: new Date(2024, 0, 1), amount: 1100 }
+    ]);
+    expect(rate).toBeCloseTo(10, 6);
+  });
+
+  it('compounds a gain over part of a year', () => {
+    const rate = xirr([
+      { date: new Date(2023, 0, 2), amount: -1000 },
+      { date: new Date(2023, 0, 31), amount: 1100 }
+    ]);
+    expect(rate).toBeCloseTo((Math.pow(1.1, 365 / 29) - 1) * 100, 4);
+  });
+
+  it('has no rate without both investments and redemptions', () => {
+    expect(xirr([{ date: new Date(2023, 0, 1), amount: -1000 }, { date: new Date(2024, 0, 1), amount: -1000 }])).toBeNull();
+    expect(xirr([{ date: new Date(2023, 0, 1), amount: 1000 }])).toBeNull();
+  });
+});
+
+describe('simulateSip', () => {
+  const flat = weekdays(new Date(2023, 0, 2), new Date(2024, 2, 29), () => 100);
+
+  it('buys on the next trading day when an installment falls on a weekend', () => {
+    // 14 January 2023 is a Saturday
+    const result = simulateSip(flat, { monthlyAmount: 1000, startDate: new Date(2023, 0, 14), stepUpPercent: 0, endDate: new Date(2023, 2, 31) });
+    expect(result.installments.map(installment => installment.tradeDate)).toEqual([
+      new Date(2023, 0, 16),
+      new Date(2023, 1, 14),
+      new Date(2023, 2, 14)
+    ]);
+    expect(result.totalUnits).toBeCloseTo(30, 10);
+    expect(result.valuationDate).toEqual(new Date(2023, 2, 31));
+  });
+
+  it('steps the installment up once a year', () => {
+    const result = simulateSip(flat, { monthlyAmount: 1000, startDate: new Date(2023, 0, 2), stepUpPercent: 10 });
+    expect(result.installments).toHaveLength(15);
+    expect(result.installments.map(installment => installment.amount).slice(10, 14)).toEqual([1000, 1000, 1100, 1100]);
+    expect(result.totalInvested).toBeCloseTo(12 * 1000 + 3 * 1100, 6);
+    // Flat prices leave the money where it was
+    expect(result.finalValue).toBeCloseTo(result.totalInvested, 6);
+    expect(result.absoluteReturn).toBeCloseTo(0, 10);
+    expect(result.xirr).toBeCloseTo(0, 6);
+  });
+
+  it('values the holdings on the last trading day before the end date', () => {
+    const rising = weekdays(new Date(2023, 0, 2), new Date(2023, 1, 28), date => (date.getMonth() === 0 && date.getDate() < 31 ? 100 : 110));
+    const result = simulateSip(rising, { monthlyAmount: 1000, startDate: new Date(2023, 0, 2), stepUpPercent: 0, endDate: new Date(2023, 0, 31) });
+
+    expect(result.installments).toHaveLength(1);
+    expect(result.finalValue).toBeCloseTo(1100, 6);
+    expect(result.absoluteReturn).toBeCloseTo(10, 6);
+    expect(result.xirr).toBeCloseTo((Math.pow(1.1, 365 / 29) - 1) * 100, 4);
+    expect(result.timeline.map(point => [point.date, point.invested, point.value])).toEqual([
+      [new Date(2023, 0, 2), 1000, 1000],
+      [new Date(2023, 0, 31), 1000, 1100]
+    ]);
+  });
+
+  it('starts no earlier than the first price', () => {
+    const result = simulateSip(flat, { monthlyAmount: 1000, startDate: new Date(2022, 10, 15), stepUpPercent: 0, endDate: new Date(2023, 1, 28) });
+    expect(result.installments.map(installment => installment.tradeDate)).toEqual([new Date(2023, 0, 2), new Date(2023, 1, 2)]);
+    expect(result.totalInvested).toBe(2000);
+  });
+
+  it('returns nothing without prices or an amount', () => {
+    expect(simulateSip([], { monthlyAmount: 1000, startDate: new Date(2023, 0, 2), stepUpPercent: 0 }).installments).toEqual([]);
+    expect(simulateSip(flat, { monthlyAmount: 0, startDate: new Date(2023, 0, 2), stepUpPercent: 0 }).xirr).toBeNull();
+  });
+});
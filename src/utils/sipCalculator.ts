@@ -0,0 +1,138 @@
+/**
+ * Systematic investment plan (SIP) simulation against historical index prices
+ */
+import { addMonths } from './dateUtils';
+import { getTradingCalendar, tradingDayOnOrAfter, type TradingCalendar } from '../shared/tradingCalendar';
+import { findTradingDayOnOrAfter, findTradingDayOnOrBefore, xirr, type CashFlow, type PricePoint } from './financeUtils';
+
+export interface SipParams {
+  monthlyAmount: number;
+  startDate: Date;
+  stepUpPercent: number;
+  endDate?: Date | null;
+  // Exchange calendar installments are scheduled on, NSE by default
+  calendar?: TradingCalendar;
+}
+
+export interface SipInstallment {
+  scheduledDate: Date;
+  tradeDate: Date;
+  amount: number;
+  price: number;
+  units: number;
+}
+
+export interface SipTimelinePoint {
+  date: Date;
+  invested: number;
+  value: number;
+  units: number;
+}
+
+export interface SipResult {
+  installments: SipInstallment[];
+  timeline: SipTimelinePoint[];
+  totalInvested: number;
+  totalUnits: number;
+  finalValue: number;
+  valuationDate: Date | null;
+  absoluteReturn: number;
+  xirr: number | null;
+}
+
+const EMPTY_RESULT: SipResult = {
+  installments: [],
+  timeline: [],
+  totalInvested: 0,
+  totalUnits: 0,
+  finalValue: 0,
+  valuationDate: null,
+  absoluteReturn: 0,
+  xirr: null
+};
+
+/**
+ * Replays a monthly SIP against a historical price series
+ * @param series Price series sorted by date
+ * @param params Monthly amount, start date, yearly step-up percentage, and optional end date
+ *   and exchange calendar. A start before the series begins is moved to its first date,
+ *   since there is no price to buy at before then.
+ * @returns Installments, value over time and summary figures including XIRR
+ */
+export function simulateSip(series: PricePoint[], params: SipParams): SipResult {
+  const { monthlyAmount, startDate, stepUpPercent, endDate, calendar = getTradingCalendar() } = params;
+  if (series.length === 0 || monthlyAmount <= 0) return EMPTY_RESULT;
+
+  const firstDate = startDate.getTime() < series[0].time ? series[0].date : startDate;
+  const lastPoint = series[series.length - 1];
+  const lastTime = endDate ? Math.min(endDate.getTime(), lastPoint.time) : lastPoint.time;
+
+  const installments: SipInstallment[] = [];
+  const timeline: SipTimelinePoint[] = [];
+  let totalInvested = 0;
+  let totalUnits = 0;
+
+  for (let k = 0; ; k++) {
+    const scheduledDate = addMonths(firstDate, k);
+    if (scheduledDate.getTime() > lastTime) break;
+
+    // As AMCs do, an installment due on a weekend or exchange holiday is processed on the
+    // next trading day; a day missing from the data falls through to the next available price
+    const tradeIndex = findTradingDayOnOrAfter(series, tradingDayOnOrAfter(scheduledDate, calendar));
+    if (tradeIndex === -1 || series[tradeIndex].time > lastTime) break;
+
+    const tradePoint = series[tradeIndex];
+    const amount = monthlyAmount * Math.pow(1 + stepUpPercent / 100, Math.floor(k / 12));
+    const units = amount / tradePoint.value;
+
+    totalInvested += amount;
+    totalUnits += units;
+
+    installments.push({
+      scheduledDate,
+      tradeDate: tradePoint.date,
+      amount,
+      price: tradePoint.value,
+      units
+    });
+
+    timeline.push({
+      date: tradePoint.date,
+      invested: totalInvested,
+      value: totalUnits * tradePoint.value,
+      units: totalUnits
+    });
+  }
+
+  if (installments.length === 0) return EMPTY_RESULT;
+
+  // Value the holdings on the last available trading day in the window
+  const valuationPoint = series[findTradingDayOnOrBefore(series, new Date(lastTime))];
+  const finalValue = totalUnits * valuationPoint.value;
+
+  if (timeline[timeline.length - 1].date.getTime() !== valuationPoint.time) {
+    timeline.push({
+      date: valuationPoint.date,
+      invested: totalInvested,
+      value: finalValue,
+      units: totalUnits
+    });
+  }
+
+  const cashFlows: CashFlow[] = installments.map(installment => ({
+    date: installment.tradeDate,
+    amount: -installment.amount
+  }));
+  cashFlows.push({ date: valuationPoint.date, amount: finalValue });
+
+  return {
+    installments,
+    timeline,
+    totalInvested,
+    totalUnits,
+    finalValue,
+    valuationDate: valuationPoint.date,
+    absoluteReturn: ((finalValue / totalInvested) - 1) * 100,
+    xirr: xirr(cashFlows)
+  };
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run in Node without the app's Vite plugins, which polyfill Node modules for the browser
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['server/**/*.test.ts', 'src/**/*.test.ts']
+  }
+});